@@ -1,16 +1,31 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Layout } from './components/Layout';
 import { Analyzer } from './components/Analyzer';
 import { HistoryView } from './components/HistoryView';
+import { ReviewQueue } from './components/ReviewQueue';
 import { Dashboard } from './components/Dashboard';
+import { PdaSummary } from './components/PdaSummary';
 import { MapView } from './components/MapView';
 import { ToolSplash, shouldShowSplash } from './components/ToolSplash';
 import { AboutView } from './tools/about';
 import { CrisisConnectView } from './tools/crisisconnect';
 import { LidarView } from './tools/lidar';
 import { ExampleReport } from './components/ExampleReport';
+import { EvaluationView } from './components/EvaluationView';
+import { PromptCompareView } from './components/PromptCompareView';
+import { Settings } from './components/Settings';
+import { IncidentSelector } from './components/IncidentSelector';
 import { useReports } from './hooks/useReports';
+import { useAnalysisQueue } from './hooks/useAnalysisQueue';
+import { useIncidents } from './hooks/useIncidents';
+import { reportsForIncident } from './services/incidentService';
 import { initializeClaude } from './services/claudeService';
+import { setActiveProvider } from './services/providers';
+import { setClaudeModel } from './services/providers/claudeProvider';
+import { setResponseCacheMode } from './services/responseCache';
+import { setActivePromptVersion } from './services/prompts';
+import { setActiveGeocoder } from './services/geocoding';
+import { setGeocoderUrl } from './services/geocoding/httpGeocoder';
 import { getSettings } from './services/storageService';
 import { tools, getToolById } from './tools/registry';
 
@@ -24,11 +39,38 @@ function App() {
     reports,
     loading,
     addReport,
+    updateReport,
+    reanalyzeReport,
+    mergeReports,
+    restoreVersion,
     deleteReport,
     exportData,
   } = useReports();
 
-  // Initialize Claude with saved API key on mount
+  // Lives here rather than in Analyzer so queued photos keep processing on every tab
+  const analysisQueue = useAnalysisQueue(addReport, reports);
+
+  const {
+    incidents,
+    activeIncident,
+    activeIncidentId,
+    loading: incidentsLoading,
+    selectIncident,
+    saveIncident,
+    deleteIncident,
+  } = useIncidents();
+
+  // Every RescueLens view works on the active incident's reports only
+  const incidentReports = useMemo(() => reportsForIncident(reports, activeIncidentId), [reports, activeIncidentId]);
+  const reportCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const report of reports) {
+      if (report.incidentId) counts.set(report.incidentId, (counts.get(report.incidentId) || 0) + 1);
+    }
+    return counts;
+  }, [reports]);
+
+  // Initialize Claude and the selected vision provider on mount
   useEffect(() => {
     const init = async () => {
       try {
@@ -36,6 +78,12 @@ function App() {
         if (settings.apiKey) {
           initializeClaude(settings.apiKey);
         }
+        setClaudeModel(settings.claudeModel);
+        setActiveProvider(settings.analysisProvider);
+        setActiveGeocoder(settings.geocoder);
+        setGeocoderUrl(settings.geocoderUrl);
+        setResponseCacheMode(settings.responseCacheMode);
+        setActivePromptVersion(settings.promptVersion);
       } catch (err) {
         console.error('Failed to initialize:', err);
       }
@@ -68,7 +116,7 @@ function App() {
   };
 
   const renderToolContent = () => {
-    if (loading && activeTool === 'rescuelens') {
+    if ((loading || incidentsLoading) && activeTool === 'rescuelens') {
       return (
         <div className="flex items-center justify-center h-96">
           <div className="text-slate-500">Loading...</div>
@@ -97,17 +145,27 @@ function App() {
   const renderRescueLensContent = () => {
     switch (activeTab) {
       case 'analyze':
-        return <Analyzer onReportCreated={addReport} />;
+        return <Analyzer queue={analysisQueue} reports={reports} incident={activeIncident} />;
       case 'history':
-        return <HistoryView reports={reports} onDelete={deleteReport} />;
+        return <HistoryView reports={incidentReports} incident={activeIncident} onDelete={deleteReport} onUpdate={updateReport} onRestore={restoreVersion} onReanalyze={reanalyzeReport} onMerge={mergeReports} />;
+      case 'review':
+        return <ReviewQueue reports={incidentReports} incident={activeIncident} onUpdate={updateReport} />;
       case 'map':
-        return <MapView reports={reports} />;
+        return <MapView reports={incidentReports} />;
       case 'dashboard':
-        return <Dashboard reports={reports} />;
+        return <Dashboard reports={incidentReports} />;
+      case 'pda':
+        return <PdaSummary reports={incidentReports} incident={activeIncident} />;
+      case 'evaluate':
+        return <EvaluationView reports={incidentReports} />;
+      case 'prompts':
+        return <PromptCompareView reports={incidentReports} />;
       case 'example':
         return <ExampleReport />;
+      case 'settings':
+        return <Settings onExport={exportData} reportCount={reports.length} />;
       default:
-        return <Analyzer onReportCreated={addReport} />;
+        return <Analyzer queue={analysisQueue} reports={reports} incident={activeIncident} />;
     }
   };
 
@@ -121,6 +179,16 @@ function App() {
         activeTab={activeTab}
         onToolChange={handleToolChange}
         onTabChange={setActiveTab}
+        incidentBar={
+          <IncidentSelector
+            incidents={incidents}
+            activeIncident={activeIncident}
+            reportCounts={reportCounts}
+            onSelect={selectIncident}
+            onSave={saveIncident}
+            onDelete={deleteIncident}
+          />
+        }
       >
         {renderToolContent()}
       </Layout>
@@ -1,20 +1,30 @@
-import React, { useState, useRef } from 'react';
-import { Camera, Loader2, X, CheckCircle2, AlertCircle, Upload, Sparkles, Building2, Shield, Info, ArrowRight, ChevronDown, ImageIcon, BookOpen } from 'lucide-react';
-import { analyzeImage, compressImage, isClaudeInitialized } from '../services/claudeService';
-import { DamageReport, DamageSeverity, Location } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Camera, Loader2, X, CheckCircle2, AlertCircle, Upload, Sparkles, Building2, Shield, Info, ArrowRight, ChevronDown, ChevronUp, ImageIcon, BookOpen, Layers, MapPin, Navigation, RotateCcw, WifiOff, Gauge, Timer } from 'lucide-react';
+import { getActiveProvider } from '../services/providers';
+import { getResponseCacheMode } from '../services/responseCache';
+import { DamageReport, DamageSeverity, Incident, Location, QueuedPhoto } from '../types';
+import { getSettings } from '../services/storageService';
+import { latestBatchId, MAX_ATTEMPTS, MAX_CONCURRENCY, summarizeBatch } from '../services/analysisQueue';
+import { formatTokens, formatUsd } from '../services/usageService';
+import { AnalysisQueue } from '../hooks/useAnalysisQueue';
+import { LocationPicker } from './LocationPicker';
 import { SAMPLE_IMAGES, SampleImage } from '../data/sampleImages';
+import { RuleCheck, ValidationFlags } from './RuleCheck';
+import { DetectionOverlay } from './DetectionOverlay';
+import { annotatedDetections, boxesOnPhoto } from '../services/annotationService';
+import { incidentTitle } from '../services/incidentService';
 
 interface AnalyzerProps {
-  onReportCreated: (report: Omit<DamageReport, 'id' | 'createdAt' | 'updatedAt'>) => Promise<DamageReport>;
+  queue: AnalysisQueue;
+  reports: DamageReport[];
+  incident?: Incident; // New reports are filed under it
 }
 
-interface QueueItem {
-  id: string;
-  file: File;
-  preview: string;
-  status: 'pending' | 'analyzing' | 'completed' | 'error';
-  report?: DamageReport;
-  error?: string;
+function formatEta(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) return '<1 min';
+  if (minutes < 60) return `~${minutes} min`;
+  return `~${Math.floor(minutes / 60)}h ${minutes % 60}m`;
 }
 
 const SEVERITY_STYLES: Record<DamageSeverity, { bg: string; text: string; border: string }> = {
@@ -27,26 +37,28 @@ const SEVERITY_STYLES: Record<DamageSeverity, { bg: string; text: string; border
   [DamageSeverity.UNKNOWN]: { bg: 'bg-gray-500/10', text: 'text-gray-400', border: 'border-gray-500/40' },
 };
 
-const generateLocation = (): Location => {
-  const streets = ['Gulf Blvd', 'Belcher Rd', 'Ulmerton Rd', 'Park Blvd', 'Gandy Blvd', 'Central Ave', 'MLK Jr St'];
-  const cities = ['St. Petersburg', 'Clearwater', 'Largo', 'Pinellas Park', 'Tampa', 'Dunedin'];
-  const city = cities[Math.floor(Math.random() * cities.length)];
-  return {
-    address: `${Math.floor(Math.random() * 9000) + 100} ${streets[Math.floor(Math.random() * streets.length)]}`,
-    city,
-    state: 'FL',
-    zip: `3${Math.floor(Math.random() * 4) + 3}${Math.floor(Math.random() * 900) + 100}`,
-    lat: 27.7 + Math.random() * 0.4,
-    lng: -82.8 + Math.random() * 0.2,
-  };
-};
-
-export const Analyzer: React.FC<AnalyzerProps> = ({ onReportCreated }) => {
-  const [queue, setQueue] = useState<QueueItem[]>([]);
-  const [processing, setProcessing] = useState(false);
+export const Analyzer: React.FC<AnalyzerProps> = ({ queue: analysisQueue, reports, incident }) => {
+  const { items: queue, online } = analysisQueue;
   const [showSamples, setShowSamples] = useState(false);
   const [loadingSample, setLoadingSample] = useState<string | null>(null);
+  const [groupAsProperty, setGroupAsProperty] = useState(false);
+  const [demoMode, setDemoMode] = useState(false);
+  const [pickingLocationFor, setPickingLocationFor] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { resume } = analysisQueue;
+
+  useEffect(() => {
+    getSettings()
+      .then(settings => setDemoMode(Boolean(settings.demoMode)))
+      .catch(err => console.error('Failed to load settings:', err));
+    // Provider settings may have changed while on another tab
+    resume();
+  }, [resume]);
+
+  const setItemLocation = (id: string, location: Location) => {
+    analysisQueue.updateItem(id, { location });
+    setPickingLocationFor(null);
+  };
 
   // Load a sample image into the queue
   const loadSampleImage = async (sample: SampleImage) => {
@@ -55,14 +67,7 @@ export const Analyzer: React.FC<AnalyzerProps> = ({ onReportCreated }) => {
       const response = await fetch(sample.url);
       const blob = await response.blob();
       const file = new File([blob], sample.filename, { type: blob.type });
-
-      const newItem: QueueItem = {
-        id: `${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
-        file,
-        preview: URL.createObjectURL(blob),
-        status: 'pending',
-      };
-      setQueue(prev => [...prev, newItem]);
+      await analysisQueue.enqueueFiles([file]);
     } catch (err) {
       console.error('Failed to load sample image:', err);
     } finally {
@@ -71,88 +76,68 @@ export const Analyzer: React.FC<AnalyzerProps> = ({ onReportCreated }) => {
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    const newItems: QueueItem[] = files.map(file => ({
-      id: `${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
-      file,
-      preview: URL.createObjectURL(file),
-      status: 'pending',
-    }));
-    setQueue(prev => [...prev, ...newItems]);
+    analysisQueue.enqueueFiles(Array.from(e.target.files || []));
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const removeFromQueue = (id: string) => {
-    setQueue(prev => {
-      const item = prev.find(i => i.id === id);
-      if (item) URL.revokeObjectURL(item.preview);
-      return prev.filter(i => i.id !== id);
-    });
-  };
-
   const processQueue = async () => {
-    if (!isClaudeInitialized()) {
-      alert('Please set your Claude API key in Settings first.');
+    if (!incident) {
+      alert('Select or create an incident in the bar above first. Every report is filed under one.');
       return;
     }
-
-    const pending = queue.filter(i => i.status === 'pending');
-    if (pending.length === 0) return;
-
-    setProcessing(true);
-
-    for (const item of pending) {
-      setQueue(prev => prev.map(i => i.id === item.id ? { ...i, status: 'analyzing' } : i));
-
-      try {
-        // Read and compress file
-        const base64 = await fileToBase64(item.file);
-        const compressed = await compressImage(base64, 1280);
-
-        // Analyze with Claude
-        const analysis = await analyzeImage(compressed);
-
-        // Create report
-        const location = generateLocation();
-        const report = await onReportCreated({
-          imageData: compressed,
-          location,
-          analysis,
-          status: 'completed',
-        });
-
-        setQueue(prev => prev.map(i =>
-          i.id === item.id ? { ...i, status: 'completed', report } : i
-        ));
-      } catch (err) {
-        console.error('Analysis failed:', err);
-        setQueue(prev => prev.map(i =>
-          i.id === item.id ? {
-            ...i,
-            status: 'error',
-            error: err instanceof Error ? err.message : 'Analysis failed'
-          } : i
-        ));
-      }
+    const provider = getActiveProvider();
+    if (getResponseCacheMode() !== 'replay' && !provider.isReady()) {
+      alert(`${provider.label} is not ready. Please check Settings first.`);
+      return;
     }
 
-    setProcessing(false);
-  };
+    const flagged = queue.filter(i => i.status === 'pending' && i.quality?.issues.length);
+    if (flagged.length > 0 && !confirm(
+      `${flagged.length} photo${flagged.length === 1 ? ' has' : 's have'} quality warnings:\n` +
+      flagged.map(i => `- ${i.fileName}: ${i.quality!.issues.map(issue => issue.id.replace(/_/g, ' ')).join(', ')}`).join('\n') +
+      '\n\nRetaking them saves a wasted analysis. Analyze anyway?'
+    )) {
+      return;
+    }
 
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
+    const submitted = await analysisQueue.start({ asProperty: groupAsProperty, demoMode, incidentId: incident.id });
+    if (submitted === 0) {
+      alert(groupAsProperty
+        ? 'None of these photos has GPS. Set the property location on one of them first.'
+        : 'These photos have no GPS. Set a location on each photo first.');
+    }
   };
 
-  const completedItems = queue.filter(i => i.status === 'completed');
+  // Photos graded together share one report; show it once, newest first
+  const completedResults = queue
+    .filter((item, index) =>
+      item.status === 'completed' &&
+      queue.findIndex(other => other.reportId === item.reportId) === index
+    )
+    .map(item => ({ item, report: reports.find(r => r.id === item.reportId) }))
+    .filter((entry): entry is { item: QueuedPhoto; report: DamageReport } => entry.report !== undefined)
+    .reverse();
   const pendingCount = queue.filter(i => i.status === 'pending').length;
+  const queuedCount = queue.filter(i => i.status === 'queued').length;
+  const analyzingCount = queue.filter(i => i.status === 'analyzing').length;
+  const completedCount = queue.filter(i => i.status === 'completed').length;
+  const needsLocationCount = demoMode ? 0 : queue.filter(i => i.status === 'pending' && !i.location).length;
+  const pickingItem = queue.find(i => i.id === pickingLocationFor);
+
+  const batchId = latestBatchId(queue);
+  const batch = batchId ? summarizeBatch(queue, batchId, analysisQueue.concurrency) : null;
 
   return (
     <div className="grid lg:grid-cols-5 gap-8">
+      {pickingItem && (
+        <LocationPicker
+          initial={pickingItem.location}
+          title={`Location: ${pickingItem.fileName}`}
+          onSave={(location) => setItemLocation(pickingItem.id, location)}
+          onCancel={() => setPickingLocationFor(null)}
+        />
+      )}
+
       {/* Left Panel - Upload & Queue */}
       <div className="lg:col-span-2 space-y-6">
         <div className="bg-slate-900 rounded-2xl border border-slate-800 p-6 shadow-xl">
@@ -168,7 +153,14 @@ export const Analyzer: React.FC<AnalyzerProps> = ({ onReportCreated }) => {
                 <ImageIcon className="w-4 h-4 text-red-500" />
                 Selected Images ({queue.length})
               </span>
-              {queue.length > 0 && (
+              {completedCount > 0 ? (
+                <button
+                  onClick={analysisQueue.clearCompleted}
+                  className="text-[10px] text-slate-500 hover:text-slate-300 uppercase"
+                >
+                  Clear completed ({completedCount})
+                </button>
+              ) : pendingCount > 0 && (
                 <span className="text-[10px] text-emerald-400 animate-pulse">Ready for analysis</span>
               )}
             </div>
@@ -180,22 +172,56 @@ export const Analyzer: React.FC<AnalyzerProps> = ({ onReportCreated }) => {
                   <p className="text-[10px] text-slate-700 mt-1">Upload or select sample images below</p>
                 </div>
               ) : (
-                queue.map(item => (
+                queue.map((item, index) => (
                   <div
                     key={item.id}
                     className="flex items-center gap-3 p-2 bg-slate-800/50 rounded-lg border border-slate-700/50 animate-in fade-in slide-in-from-top-2 duration-300"
                   >
                     <img
-                      src={item.preview}
+                      src={item.imageData}
                       alt=""
                       className="w-12 h-12 object-cover rounded-lg"
                     />
                     <div className="flex-1 min-w-0">
-                      <p className="text-xs font-medium text-slate-300 truncate">{item.file.name}</p>
+                      <p className="text-xs font-medium text-slate-300 truncate">{item.fileName}</p>
+                      {item.status === 'pending' && item.quality && item.quality.issues.length > 0 && (
+                        <p
+                          className="text-[10px] text-amber-400 flex items-center gap-1"
+                          title={item.quality.issues.map(issue => issue.message).join('\n')}
+                        >
+                          <AlertCircle className="w-3 h-3 shrink-0" />
+                          <span className="truncate">
+                            Retake? {item.quality.issues.map(issue => issue.id.replace(/_/g, ' ')).join(', ')}
+                          </span>
+                        </p>
+                      )}
+                      {groupAsProperty && item.status === 'pending' && (
+                        <input
+                          type="text"
+                          defaultValue={item.caption || ''}
+                          onBlur={(e) => analysisQueue.updateItem(item.id, { caption: e.target.value })}
+                          placeholder={index === 0 ? 'Caption (cover photo)' : 'Caption, e.g. Waterline close-up'}
+                          className="w-full mt-1 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-[10px] text-slate-300 placeholder:text-slate-600 focus:border-red-500 outline-none"
+                        />
+                      )}
                       <div className="flex items-center gap-1 mt-1">
                         {item.status === 'pending' && (
                           <span className="text-[10px] text-slate-500 uppercase">Waiting</span>
                         )}
+                        {item.status === 'queued' && (
+                          <span
+                            className={`text-[10px] uppercase flex items-center gap-1 ${item.attempts > 0 || !online ? 'text-amber-400' : 'text-slate-400'}`}
+                            title={item.error}
+                          >
+                            {!online ? (
+                              <><WifiOff className="w-3 h-3" /> Waiting for signal</>
+                            ) : item.nextAttemptAt ? (
+                              <><RotateCcw className="w-3 h-3" /> Retry {item.attempts + 1}/{MAX_ATTEMPTS} at {new Date(item.nextAttemptAt).toLocaleTimeString()}</>
+                            ) : (
+                              'Queued'
+                            )}
+                          </span>
+                        )}
                         {item.status === 'analyzing' && (
                           <span className="text-[10px] text-red-400 uppercase flex items-center gap-1">
                             <Loader2 className="w-3 h-3 animate-spin" /> Analyzing
@@ -207,15 +233,48 @@ export const Analyzer: React.FC<AnalyzerProps> = ({ onReportCreated }) => {
                           </span>
                         )}
                         {item.status === 'error' && (
-                          <span className="text-[10px] text-red-400 uppercase flex items-center gap-1">
-                            <AlertCircle className="w-3 h-3" /> Error
-                          </span>
+                          <>
+                            <span className="text-[10px] text-red-400 uppercase flex items-center gap-1 min-w-0" title={item.error}>
+                              <AlertCircle className="w-3 h-3 shrink-0" />
+                              <span className="truncate">Error{item.error ? `: ${item.error}` : ''}</span>
+                            </span>
+                            <button
+                              onClick={() => analysisQueue.retryItem(item.id)}
+                              className="ml-auto text-[10px] uppercase text-blue-400 hover:text-blue-300 flex items-center gap-1 shrink-0"
+                            >
+                              <RotateCcw className="w-3 h-3" /> Retry
+                            </button>
+                          </>
+                        )}
+                        {item.status === 'pending' && (
+                          <button
+                            onClick={() => setPickingLocationFor(item.id)}
+                            className={`ml-auto text-[10px] uppercase flex items-center gap-1 ${
+                              item.location ? 'text-emerald-400 hover:text-emerald-300' : 'text-amber-400 hover:text-amber-300'
+                            }`}
+                            title={item.location ? 'Adjust location' : 'No GPS in photo - set location'}
+                          >
+                            {item.location?.source === 'exif' ? <Navigation className="w-3 h-3" /> : <MapPin className="w-3 h-3" />}
+                            {item.location
+                              ? item.location.source === 'exif' ? 'GPS' : 'Pinned'
+                              : demoMode ? 'Demo location' : 'Set location'}
+                          </button>
                         )}
                       </div>
                     </div>
+                    {groupAsProperty && index > 0 && item.status === 'pending' && (
+                      <button
+                        onClick={() => analysisQueue.moveUp(item.id)}
+                        className="p-1 text-slate-500 hover:text-slate-300"
+                        title="Move up"
+                      >
+                        <ChevronUp className="w-4 h-4" />
+                      </button>
+                    )}
                     <button
-                      onClick={() => removeFromQueue(item.id)}
-                      className="p-1 text-slate-500 hover:text-red-400"
+                      onClick={() => analysisQueue.removeItem(item.id)}
+                      disabled={item.status === 'analyzing'}
+                      className="p-1 text-slate-500 hover:text-red-400 disabled:opacity-30"
                     >
                       <X className="w-4 h-4" />
                     </button>
@@ -224,24 +283,108 @@ export const Analyzer: React.FC<AnalyzerProps> = ({ onReportCreated }) => {
               )}
             </div>
 
+            {/* Grading mode */}
+            <label className="mt-3 flex items-center gap-2 p-2 bg-slate-800/50 rounded-lg border border-slate-700/50 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={groupAsProperty}
+                onChange={(e) => setGroupAsProperty(e.target.checked)}
+                className="accent-red-500"
+              />
+              <Layers className="w-4 h-4 text-blue-400" />
+              <span className="text-[10px] font-bold text-slate-300 uppercase tracking-widest">One property</span>
+              <span className="text-[10px] text-slate-500">Grade all photos together as one report</span>
+            </label>
+
+            {needsLocationCount > 0 && (
+              <p className="mt-2 text-[10px] text-amber-400 flex items-center gap-1">
+                <MapPin className="w-3 h-3" />
+                {needsLocationCount} photo{needsLocationCount === 1 ? '' : 's'} without GPS need{needsLocationCount === 1 ? 's' : ''} a location before analysis
+              </p>
+            )}
+
+            {/* Parallel requests */}
+            <label className="mt-2 flex items-center gap-2 p-2 bg-slate-800/50 rounded-lg border border-slate-700/50">
+              <Gauge className="w-4 h-4 text-blue-400" />
+              <span className="text-[10px] font-bold text-slate-300 uppercase tracking-widest">Parallel</span>
+              <select
+                value={analysisQueue.concurrency}
+                onChange={(e) => analysisQueue.setConcurrency(Number(e.target.value))}
+                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-200"
+              >
+                {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+              <span className="text-[10px] text-slate-500">Analyses sent at once</span>
+            </label>
+
+            {analysisQueue.pausedUntil && (
+              <p className="mt-2 text-[10px] text-amber-400 flex items-center gap-1">
+                <Timer className="w-3 h-3" />
+                Rate limited by the AI service - resuming at {new Date(analysisQueue.pausedUntil).toLocaleTimeString()}
+              </p>
+            )}
+
+            {/* Batch progress */}
+            {batch && batch.jobs > 0 && (
+              <div className="mt-2 p-2 bg-slate-800/50 rounded-lg border border-slate-700/50">
+                <div className="flex items-center justify-between text-[10px] text-slate-300">
+                  <span className="font-bold uppercase tracking-widest">
+                    Batch {batch.completed}/{batch.jobs}
+                    {batch.failed > 0 && <span className="text-red-400"> · {batch.failed} failed</span>}
+                  </span>
+                  {batch.etaMs !== undefined && <span className="text-slate-400">ETA {formatEta(batch.etaMs)}</span>}
+                </div>
+                <div className="mt-1 h-1.5 bg-slate-900 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-emerald-500 transition-all"
+                    style={{ width: `${((batch.completed + batch.failed) / batch.jobs) * 100}%` }}
+                  />
+                </div>
+                {batch.completed > 0 && (
+                  <p className="mt-1 text-[10px] text-slate-500">
+                    {formatTokens(batch.tokenUsage.inputTokens)} in / {formatTokens(batch.tokenUsage.outputTokens)} out tokens
+                    {' · '}est. {formatUsd(batch.costUsd)}{batch.costIncomplete && '+'}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Background queue status */}
+            {(queuedCount > 0 || analyzingCount > 0) && (
+              <p className={`mt-2 text-[10px] flex items-center gap-1 ${online ? 'text-slate-400' : 'text-amber-400'}`}>
+                {online ? <Loader2 className="w-3 h-3 animate-spin" /> : <WifiOff className="w-3 h-3" />}
+                {analyzingCount > 0 && `${analyzingCount} analyzing · `}
+                {queuedCount} queued
+                {!online && ' - will analyze when signal returns'}
+              </p>
+            )}
+
+            <p className={`mt-2 text-[10px] ${incident ? 'text-slate-500' : 'text-amber-400'}`}>
+              {incident ? `Filing under ${incidentTitle(incident)}` : 'No active incident - create one before analyzing'}
+            </p>
+
             {/* Process Button - Right below queue */}
             <button
               onClick={processQueue}
-              disabled={pendingCount === 0 || processing}
+              disabled={pendingCount === 0}
               className={`w-full mt-3 py-3 rounded-xl font-bold text-sm uppercase tracking-widest transition-all flex items-center justify-center gap-2 ${
-                pendingCount === 0 || processing
+                pendingCount === 0
                   ? 'bg-slate-800 text-slate-600 cursor-not-allowed'
                   : 'bg-red-600 hover:bg-red-700 text-white shadow-lg shadow-red-900/30'
               }`}
             >
-              {processing ? (
+              {pendingCount === 0 && analyzingCount > 0 ? (
                 <>
                   <Loader2 className="w-4 h-4 animate-spin" />
                   Processing...
                 </>
               ) : (
                 <>
-                  Start Analysis ({pendingCount} pending)
+                  {groupAsProperty && pendingCount > 1
+                    ? `Analyze Property (${pendingCount} photos)`
+                    : `Start Analysis (${pendingCount} pending)`}
                   <ArrowRight className="w-4 h-4" />
                 </>
               )}
@@ -343,12 +486,12 @@ export const Analyzer: React.FC<AnalyzerProps> = ({ onReportCreated }) => {
             <h2 className="text-sm font-black text-white uppercase tracking-widest">Analysis Results</h2>
             <div className="flex items-center gap-2 text-xs">
               <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
-              <span className="text-slate-400">Claude AI Ready</span>
+              <span className="text-slate-400">{getActiveProvider().label} Ready</span>
             </div>
           </div>
 
           <div className="flex-1 p-6 overflow-y-auto space-y-6 bg-slate-950/30">
-            {completedItems.length === 0 ? (
+            {completedResults.length === 0 ? (
               <div className="h-full flex flex-col items-center justify-center text-center py-20">
                 <Sparkles className="w-12 h-12 text-slate-800 mb-4" />
                 <p className="text-slate-500 font-bold uppercase tracking-widest text-xs">
@@ -356,8 +499,8 @@ export const Analyzer: React.FC<AnalyzerProps> = ({ onReportCreated }) => {
                 </p>
               </div>
             ) : (
-              completedItems.map(item => (
-                <ResultCard key={item.id} item={item} />
+              completedResults.map(({ item, report }) => (
+                <ResultCard key={item.id} report={report} />
               ))
             )}
           </div>
@@ -367,22 +510,42 @@ export const Analyzer: React.FC<AnalyzerProps> = ({ onReportCreated }) => {
   );
 };
 
-const ResultCard: React.FC<{ item: QueueItem }> = ({ item }) => {
-  const analysis = item.report?.analysis;
+const ResultCard: React.FC<{ report: DamageReport }> = ({ report }) => {
+  const [photoIndex, setPhotoIndex] = useState(0);
+  const analysis = report.analysis;
   if (!analysis) return null;
 
   const severity = analysis.overallSeverity;
   const styles = SEVERITY_STYLES[severity];
+  const photos = report.photos || [];
 
   return (
     <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden animate-in fade-in slide-in-from-bottom-4 duration-500">
       <div className="flex flex-col md:flex-row">
-        <div className="md:w-96 shrink-0 bg-black flex items-center justify-center">
-          <img
-            src={item.preview}
-            alt="Damage"
-            className="w-full h-64 md:h-80 object-contain"
-          />
+        <div className="md:w-96 shrink-0 bg-black flex flex-col items-center justify-center">
+          <div className="w-full h-64 md:h-80 flex items-center justify-center">
+            <DetectionOverlay
+              imageData={photos[photoIndex]?.imageData || report.imageData}
+              detections={boxesOnPhoto(annotatedDetections(report), photoIndex)}
+              imageClassName="max-h-64 md:max-h-80"
+            />
+          </div>
+          {photos.length > 1 && (
+            <div className="w-full grid grid-cols-4 gap-1 p-1">
+              {photos.map((photo, index) => (
+                <button
+                  key={photo.id}
+                  onClick={() => setPhotoIndex(index)}
+                  className={`relative rounded border-2 ${index === photoIndex ? 'border-red-500' : 'border-transparent'}`}
+                >
+                  <img src={photo.imageData} alt={photo.caption || `Photo ${index + 1}`} className="w-full h-14 object-cover rounded" />
+                  <span className="absolute bottom-0 inset-x-0 bg-black/70 text-[8px] text-slate-300 px-1 truncate rounded-b text-left">
+                    {index + 1}. {photo.caption || 'No caption'}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
         </div>
         <div className="flex-1 p-6 space-y-4">
           {/* Header */}
@@ -413,6 +576,10 @@ const ResultCard: React.FC<{ item: QueueItem }> = ({ item }) => {
             <p className="text-xs text-slate-400 leading-relaxed">{analysis.pdaJustification}</p>
           </div>
 
+          {/* Deterministic FEMA rule check */}
+          {analysis.ruleEvaluation && <RuleCheck evaluation={analysis.ruleEvaluation} />}
+          {analysis.validationViolations && <ValidationFlags violations={analysis.validationViolations} />}
+
           {/* Structural & Debris Assessment */}
           <div className="grid md:grid-cols-2 gap-3">
             <div className="bg-slate-800/50 p-3 rounded-lg">
@@ -427,9 +594,9 @@ const ResultCard: React.FC<{ item: QueueItem }> = ({ item }) => {
 
           {/* Report ID */}
           <div className="flex items-center justify-between pt-2 border-t border-slate-800">
-            <span className="text-[10px] font-mono text-slate-600">{item.report?.id}</span>
+            <span className="text-[10px] font-mono text-slate-600">{report.id}</span>
             <span className="text-[10px] text-slate-600">
-              {new Date(item.report?.createdAt || 0).toLocaleString()}
+              {new Date(report.createdAt).toLocaleString()}
             </span>
           </div>
         </div>
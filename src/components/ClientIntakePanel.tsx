@@ -0,0 +1,279 @@
+import React, { useState } from 'react';
+import { UserRound, Plus, X, Loader2 } from 'lucide-react';
+import { AssistanceStatus, ChangeContext, ContactMethod, DamageReport } from '../types';
+import {
+  ASSISTANCE_STATUS_LABELS,
+  CONTACT_METHOD_LABELS,
+  HouseholdMemberInput,
+  buildAssistanceRecord,
+  buildClientInfo,
+  describeContactPreferences,
+  describeHousehold,
+} from '../services/intakeService';
+
+interface ClientIntakePanelProps {
+  report: DamageReport;
+  defaultCaseworker: string;
+  defaultCaseworkerEmail: string;
+  onUpdate: (updates: Partial<DamageReport>, context?: ChangeContext) => Promise<unknown>;
+}
+
+const CONTACT_METHODS = Object.keys(CONTACT_METHOD_LABELS) as ContactMethod[];
+const ASSISTANCE_STATUSES = Object.keys(ASSISTANCE_STATUS_LABELS) as AssistanceStatus[];
+
+const inputClass = 'w-full px-2 py-1.5 bg-slate-900 border border-slate-700 rounded text-xs text-slate-200 focus:outline-none focus:border-red-500';
+const labelClass = 'text-[10px] text-slate-500 uppercase';
+
+const EMPTY_MEMBER: HouseholdMemberInput = { name: '', relationship: '', age: '', accessNeeds: '' };
+
+/**
+ * Client intake: contact details, household and the assistance given.
+ * The case PDF is only produced once a real client name is on file.
+ */
+export const ClientIntakePanel: React.FC<ClientIntakePanelProps> = ({ report, defaultCaseworker, defaultCaseworkerEmail, onUpdate }) => {
+  const client = report.clientInfo;
+  const assistance = report.assistance;
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [preferredContact, setPreferredContact] = useState('');
+  const [language, setLanguage] = useState('');
+  const [interpreterNeeded, setInterpreterNeeded] = useState(false);
+  const [members, setMembers] = useState<HouseholdMemberInput[]>([]);
+  const [caseworker, setCaseworker] = useState('');
+  const [caseworkerEmail, setCaseworkerEmail] = useState('');
+  const [status, setStatus] = useState<AssistanceStatus>('pending');
+  const [shelterName, setShelterName] = useState('');
+  const [financialAssistance, setFinancialAssistance] = useState('');
+  const [notes, setNotes] = useState('');
+  const [intakeBy, setIntakeBy] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const start = () => {
+    setName(client?.name || '');
+    setPhone(client?.phone || '');
+    setEmail(client?.email || '');
+    setPreferredContact(client?.preferredContact || '');
+    setLanguage(client?.language || '');
+    setInterpreterNeeded(client?.interpreterNeeded || false);
+    setMembers((client?.householdMembers || []).map(m => ({
+      name: m.name,
+      relationship: m.relationship || '',
+      age: m.age !== undefined ? String(m.age) : '',
+      accessNeeds: m.accessNeeds || '',
+    })));
+    setCaseworker(client?.caseworker || defaultCaseworker);
+    setCaseworkerEmail(client?.caseworkerEmail || defaultCaseworkerEmail);
+    setStatus(assistance?.status || 'pending');
+    setShelterName(assistance?.shelterName || '');
+    setFinancialAssistance(assistance?.financialAssistance || '');
+    setNotes(assistance?.notes || '');
+    setIntakeBy(defaultCaseworker);
+    setError(null);
+    setEditing(true);
+  };
+
+  const updateMember = (index: number, field: keyof HouseholdMemberInput, value: string) => {
+    setMembers(current => current.map((m, i) => (i === index ? { ...m, [field]: value } : m)));
+  };
+
+  const save = async () => {
+    setError(null);
+    try {
+      const clientInfo = buildClientInfo({
+        name,
+        phone,
+        email,
+        preferredContact: (preferredContact || undefined) as ContactMethod | undefined,
+        language,
+        interpreterNeeded,
+        householdMembers: members,
+        caseworker,
+        caseworkerEmail,
+        intakeBy,
+      });
+      const record = buildAssistanceRecord({ status, shelterName, financialAssistance, notes });
+      setSaving(true);
+      await onUpdate({ clientInfo, assistance: record }, {
+        author: clientInfo.intakeBy,
+        reason: client ? 'Client intake updated' : 'Client intake completed',
+      });
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save intake');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <div className="bg-slate-800/50 p-4 rounded-lg">
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-[10px] font-black text-slate-500 uppercase flex items-center gap-1">
+            <UserRound className="w-3 h-3" />
+            Client Intake
+          </p>
+          <button
+            onClick={start}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-xs font-bold uppercase tracking-widest"
+          >
+            {client ? 'Edit' : 'Start intake'}
+          </button>
+        </div>
+        {client ? (
+          <div className="grid sm:grid-cols-2 gap-3 mt-2 text-xs">
+            <div>
+              <p className="text-slate-200 font-semibold">{client.name}</p>
+              <p className="text-slate-400">{[client.phone, client.email].filter(Boolean).join(' · ') || 'No phone or email'}</p>
+              <p className="text-slate-500">{describeContactPreferences(client)}</p>
+              <p className="text-slate-500">{describeHousehold(client)}</p>
+            </div>
+            <div>
+              <p className="text-slate-300">
+                {assistance ? ASSISTANCE_STATUS_LABELS[assistance.status] : 'No assistance recorded'}
+                {assistance?.shelterName && ` · ${assistance.shelterName}`}
+              </p>
+              {assistance?.financialAssistance && <p className="text-slate-400">Financial: {assistance.financialAssistance}</p>}
+              <p className="text-slate-500">Caseworker: {client.caseworker || 'Not recorded'}</p>
+              {client.intakeBy && client.intakeAt && (
+                <p className="text-[10px] text-slate-500">
+                  Intake by {client.intakeBy} · {new Date(client.intakeAt).toLocaleString()}
+                </p>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-amber-400 mt-2">No client on file. The case PDF can't be exported until the intake is done.</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-lg space-y-4">
+      <p className="text-[10px] font-black text-slate-500 uppercase flex items-center gap-1">
+        <UserRound className="w-3 h-3" />
+        Client Intake
+      </p>
+
+      <div className="grid sm:grid-cols-4 gap-2">
+        <label className={`${labelClass} sm:col-span-2`}>
+          Client name
+          <input value={name} onChange={e => setName(e.target.value)} className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          Phone
+          <input type="tel" value={phone} onChange={e => setPhone(e.target.value)} placeholder="(727) 555-0100" className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          Email
+          <input type="email" value={email} onChange={e => setEmail(e.target.value)} className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          Preferred contact
+          <select value={preferredContact} onChange={e => setPreferredContact(e.target.value)} className={inputClass}>
+            <option value="">Not asked</option>
+            {CONTACT_METHODS.map(method => (
+              <option key={method} value={method}>{CONTACT_METHOD_LABELS[method]}</option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClass}>
+          Language
+          <input value={language} onChange={e => setLanguage(e.target.value)} placeholder="English" className={inputClass} />
+        </label>
+        <label className="text-xs text-slate-400 flex items-center gap-2 sm:col-span-2 sm:pt-4">
+          <input type="checkbox" checked={interpreterNeeded} onChange={e => setInterpreterNeeded(e.target.checked)} />
+          Interpreter needed
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className={labelClass}>Other household members</p>
+          <button
+            onClick={() => setMembers([...members, EMPTY_MEMBER])}
+            className="text-[10px] font-bold uppercase text-slate-400 hover:text-white flex items-center gap-1"
+          >
+            <Plus className="w-3 h-3" />
+            Add member
+          </button>
+        </div>
+        {members.length === 0 && <p className="text-xs text-slate-500">None recorded.</p>}
+        {members.map((member, i) => (
+          <div key={i} className="grid grid-cols-12 gap-2 items-center">
+            <input value={member.name} onChange={e => updateMember(i, 'name', e.target.value)} placeholder="Name" className={`${inputClass} col-span-3`} />
+            <input value={member.relationship} onChange={e => updateMember(i, 'relationship', e.target.value)} placeholder="Relationship" className={`${inputClass} col-span-2`} />
+            <input value={member.age} onChange={e => updateMember(i, 'age', e.target.value)} placeholder="Age" inputMode="numeric" className={`${inputClass} col-span-1`} />
+            <input value={member.accessNeeds} onChange={e => updateMember(i, 'accessNeeds', e.target.value)} placeholder="Access or functional needs" className={`${inputClass} col-span-5`} />
+            <button
+              onClick={() => setMembers(members.filter((_, j) => j !== i))}
+              className="col-span-1 p-1 text-slate-500 hover:text-red-400 justify-self-center"
+              title="Remove member"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid sm:grid-cols-4 gap-2">
+        <label className={labelClass}>
+          Assistance status
+          <select value={status} onChange={e => setStatus(e.target.value as AssistanceStatus)} className={inputClass}>
+            {ASSISTANCE_STATUSES.map(value => (
+              <option key={value} value={value}>{ASSISTANCE_STATUS_LABELS[value]}</option>
+            ))}
+          </select>
+        </label>
+        {status === 'relocated' && (
+          <label className={labelClass}>
+            Shelter or relocation site
+            <input value={shelterName} onChange={e => setShelterName(e.target.value)} className={inputClass} />
+          </label>
+        )}
+        <label className={`${labelClass} ${status === 'relocated' ? 'sm:col-span-2' : 'sm:col-span-3'}`}>
+          Financial assistance given
+          <input value={financialAssistance} onChange={e => setFinancialAssistance(e.target.value)} className={inputClass} />
+        </label>
+        <label className={`${labelClass} sm:col-span-4`}>
+          Assistance notes
+          <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={2} className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          Caseworker
+          <input value={caseworker} onChange={e => setCaseworker(e.target.value)} className={inputClass} />
+        </label>
+        <label className={labelClass}>
+          Caseworker email
+          <input type="email" value={caseworkerEmail} onChange={e => setCaseworkerEmail(e.target.value)} className={inputClass} />
+        </label>
+        <label className={`${labelClass} sm:col-span-2`}>
+          Intake taken by
+          <input value={intakeBy} onChange={e => setIntakeBy(e.target.value)} className={inputClass} />
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex items-center justify-end gap-2">
+        <button onClick={() => setEditing(false)} className="px-3 py-1.5 text-slate-400 hover:text-white text-xs font-bold uppercase">
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          disabled={saving}
+          className="px-3 py-1.5 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white rounded-lg text-xs font-bold uppercase flex items-center gap-1"
+        >
+          {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+          Save intake
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ClientIntakePanel;
@@ -1,7 +1,9 @@
 import React from 'react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { AlertTriangle, Home, Users, TrendingUp, Building2 } from 'lucide-react';
+import { AlertTriangle, Home, Users, TrendingUp, Building2, ShieldAlert } from 'lucide-react';
 import { DamageReport, DamageSeverity, HomeType } from '../types';
+import { finalHomeType, finalSeverity } from '../services/reviewService';
+import { AnswerCounts, occupancyBreakdown } from '../services/occupancyService';
 
 interface DashboardProps {
   reports: DamageReport[];
@@ -22,13 +24,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ reports }) => {
   const completedReports = reports.filter(r => r.status === 'completed');
 
   const severityCounts = completedReports.reduce((acc, r) => {
-    const sev = r.analysis?.overallSeverity || DamageSeverity.NO_VISIBLE_DAMAGE;
+    const sev = finalSeverity(r) || DamageSeverity.NO_VISIBLE_DAMAGE;
     acc[sev] = (acc[sev] || 0) + 1;
     return acc;
   }, {} as Record<DamageSeverity, number>);
 
   const homeTypeCounts = completedReports.reduce((acc, r) => {
-    const type = r.analysis?.homeType || HomeType.NONE;
+    const type = finalHomeType(r) || HomeType.NONE;
     acc[type] = (acc[type] || 0) + 1;
     return acc;
   }, {} as Record<HomeType, number>);
@@ -49,6 +51,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ reports }) => {
     count,
   }));
 
+  const occupancy = occupancyBreakdown(completedReports);
+
   // Recent activity (last 7 days)
   const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
   const recentReports = reports.filter(r => r.createdAt > weekAgo);
@@ -172,6 +176,35 @@ export const Dashboard: React.FC<DashboardProps> = ({ reports }) => {
         </div>
       </div>
 
+      {/* Occupancy & Insurance */}
+      <div className="bg-slate-900 rounded-xl border border-slate-800 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <h3 className="text-sm font-black text-white uppercase tracking-widest flex items-center gap-2">
+            <Users className="w-4 h-4 text-red-500" />
+            Occupancy &amp; Insurance
+          </h3>
+          {occupancy.uninsuredMajorOrDestroyed > 0 && (
+            <span className="text-xs text-amber-400 flex items-center gap-1">
+              <ShieldAlert className="w-3.5 h-3.5" />
+              {occupancy.uninsuredMajorOrDestroyed} uninsured Major/Destroyed
+            </span>
+          )}
+        </div>
+        <div className="grid md:grid-cols-2 gap-x-8 gap-y-4">
+          <AnswerBar
+            label="Owner / renter"
+            segments={[
+              { label: 'Owner', count: occupancy.ownership.OWNER, color: 'bg-blue-500' },
+              { label: 'Renter', count: occupancy.ownership.RENTER, color: 'bg-purple-500' },
+              { label: 'Not recorded', count: occupancy.ownership.UNKNOWN, color: 'bg-slate-700' },
+            ]}
+          />
+          <AnswerBar label="Primary residence" segments={answerSegments(occupancy.primaryResidence)} />
+          <AnswerBar label="Homeowners / renters insurance" segments={answerSegments(occupancy.homeownersInsurance)} />
+          <AnswerBar label="Flood insurance" segments={answerSegments(occupancy.floodInsurance)} />
+        </div>
+      </div>
+
       {/* Recent Reports Table */}
       <div className="bg-slate-900 rounded-xl border border-slate-800 p-6">
         <h3 className="text-sm font-black text-white uppercase tracking-widest mb-4">
@@ -198,11 +231,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ reports }) => {
                       <span
                         className="px-2 py-1 rounded text-[10px] font-bold uppercase"
                         style={{
-                          backgroundColor: `${SEVERITY_COLORS[report.analysis?.overallSeverity || DamageSeverity.NO_VISIBLE_DAMAGE]}20`,
-                          color: SEVERITY_COLORS[report.analysis?.overallSeverity || DamageSeverity.NO_VISIBLE_DAMAGE],
+                          backgroundColor: `${SEVERITY_COLORS[finalSeverity(report) || DamageSeverity.NO_VISIBLE_DAMAGE]}20`,
+                          color: SEVERITY_COLORS[finalSeverity(report) || DamageSeverity.NO_VISIBLE_DAMAGE],
                         }}
                       >
-                        {(report.analysis?.overallSeverity || 'PENDING').replace(/_/g, ' ')}
+                        {(finalSeverity(report) || 'PENDING').replace(/_/g, ' ')}
                       </span>
                     </td>
                     <td className="py-3 pr-4 text-slate-400">{report.analysis?.homeType || '-'}</td>
@@ -220,6 +253,40 @@ export const Dashboard: React.FC<DashboardProps> = ({ reports }) => {
   );
 };
 
+interface Segment {
+  label: string;
+  count: number;
+  color: string;
+}
+
+const answerSegments = (counts: AnswerCounts): Segment[] => [
+  { label: 'Yes', count: counts.yes, color: 'bg-emerald-500' },
+  { label: 'No', count: counts.no, color: 'bg-red-500' },
+  { label: 'Not asked', count: counts.unknown, color: 'bg-slate-700' },
+];
+
+const AnswerBar: React.FC<{ label: string; segments: Segment[] }> = ({ label, segments }) => {
+  const total = segments.reduce((sum, s) => sum + s.count, 0);
+  return (
+    <div>
+      <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">{label}</p>
+      <div className="h-3 rounded-full bg-slate-800 overflow-hidden flex">
+        {total > 0 && segments.map(s => s.count > 0 && (
+          <div key={s.label} className={s.color} style={{ width: `${(s.count / total) * 100}%` }} title={`${s.label}: ${s.count}`} />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-3 mt-2">
+        {segments.map(s => (
+          <span key={s.label} className="text-[10px] text-slate-400 uppercase flex items-center gap-1.5">
+            <span className={`w-2 h-2 rounded-full ${s.color}`} />
+            {s.label} ({s.count})
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 interface StatCardProps {
   icon: React.FC<{ className?: string }>;
   label: string;
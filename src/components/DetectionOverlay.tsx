@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { Eye, EyeOff } from 'lucide-react';
+import { BoundingBox, PhotoPoint } from '../types';
+import { AnnotatedDetection, SEVERITY_BOX_COLORS, boxFromCorners, boxFromPolygon } from '../services/annotationService';
+
+interface DetectionOverlayProps {
+  imageData: string;
+  detections: AnnotatedDetection[]; // Boxed detections on this photo
+  imageClassName?: string;
+  highlight?: number; // Detection index to emphasise
+  drawing?: boolean; // Dragging on the photo draws a box
+  shape?: 'box' | 'polygon'; // In polygon mode clicks place outline points instead
+  onDraw?: (box: BoundingBox) => void;
+}
+
+// Clicking this close to the first point closes the outline
+const CLOSE_DISTANCE = 0.02;
+
+// SVG points in a 0-100 viewBox stretched over the photo
+const svgPoints = (points: PhotoPoint[]) => points.map(p => `${p.x * 100},${p.y * 100}`).join(' ');
+
+const boxStyle = (box: BoundingBox): React.CSSProperties => ({
+  left: `${box.x * 100}%`,
+  top: `${box.y * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`,
+});
+
+/**
+ * A photo with its detection boxes and outlines drawn over it. Boxes can be
+ * hidden. In drawing mode a drag on the photo reports a new box; in polygon
+ * mode clicks place outline points, and a double-click or a click on the
+ * first point reports the outline.
+ */
+export const DetectionOverlay: React.FC<DetectionOverlayProps> = ({
+  imageData,
+  detections,
+  imageClassName = '',
+  highlight,
+  drawing = false,
+  shape = 'box',
+  onDraw,
+}) => {
+  const [visible, setVisible] = useState(true);
+  const [draft, setDraft] = useState<{ start: PhotoPoint; end: PhotoPoint } | null>(null);
+  const [outline, setOutline] = useState<PhotoPoint[]>([]);
+
+  const pointAt = (e: React.MouseEvent<HTMLDivElement>): PhotoPoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const finishOutline = (points: PhotoPoint[]) => {
+    const box = boxFromPolygon(points);
+    if (!box) return;
+    setOutline([]);
+    onDraw?.(box);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drawing) return;
+    const point = pointAt(e);
+    if (shape === 'polygon') {
+      const first = outline[0];
+      if (first && Math.hypot(point.x - first.x, point.y - first.y) < CLOSE_DISTANCE) {
+        finishOutline(outline);
+      } else {
+        setOutline([...outline, point]);
+      }
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft({ start: point, end: point });
+  };
+
+  // The double-click's own clicks already placed its point
+  const handleDoubleClick = () => {
+    if (drawing && shape === 'polygon') finishOutline(outline);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!draft) return;
+    const end = pointAt(e);
+    setDraft(current => current && { ...current, end });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    const box = boxFromCorners(draft.start, draft.end);
+    setDraft(null);
+    if (box) onDraw?.(box);
+  };
+
+  const draftBox = draft ? boxFromCorners(draft.start, draft.end) : undefined;
+  const showBoxes = visible || drawing;
+
+  return (
+    <div className="relative inline-block max-w-full">
+      <img src={imageData} alt="Damage" draggable={false} className={`block max-w-full select-none ${imageClassName}`} />
+      <div
+        className={`absolute inset-0 ${drawing ? 'cursor-crosshair touch-none' : 'pointer-events-none'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDraft(null)}
+        onDoubleClick={handleDoubleClick}
+      >
+        <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+          {showBoxes && detections.map(detection => detection.box?.polygon && (
+            <polygon
+              key={detection.index}
+              points={svgPoints(detection.box.polygon)}
+              fill="none"
+              stroke={SEVERITY_BOX_COLORS[detection.severity]}
+              strokeWidth={highlight === detection.index ? 4 : 2}
+              strokeOpacity={drawing && highlight === detection.index ? 0.4 : 1}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {outline.length > 0 && (
+            <polyline
+              points={svgPoints(outline)}
+              fill="none"
+              stroke="white"
+              strokeWidth={2}
+              strokeDasharray="4 3"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+        {showBoxes && detections.map(detection => detection.box && (
+          <div
+            key={detection.index}
+            className={`absolute ${detection.box.polygon ? '' : highlight === detection.index ? 'border-4' : 'border-2'} ${drawing && highlight === detection.index ? 'opacity-40' : ''}`}
+            style={{ ...boxStyle(detection.box), borderColor: SEVERITY_BOX_COLORS[detection.severity] }}
+            title={`${detection.object} · ${detection.severity.replace(/_/g, ' ')}${detection.boxSource === 'reviewer' ? ' · reviewer box' : ''}`}
+          >
+            <span
+              className="absolute left-0 top-0 px-1 text-[10px] font-bold text-white leading-tight"
+              style={{ backgroundColor: SEVERITY_BOX_COLORS[detection.severity] }}
+            >
+              {detection.index + 1}
+            </span>
+          </div>
+        ))}
+        {draftBox && <div className="absolute border-2 border-dashed border-white" style={boxStyle(draftBox)} />}
+      </div>
+      {detections.length > 0 && !drawing && (
+        <button
+          onClick={() => setVisible(!visible)}
+          className="absolute top-2 right-2 px-2 py-1 bg-black/70 hover:bg-black text-slate-200 rounded text-[10px] font-bold uppercase flex items-center gap-1"
+          title={visible ? 'Hide detection boxes' : 'Show detection boxes'}
+        >
+          {visible ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+          Boxes
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DetectionOverlay;
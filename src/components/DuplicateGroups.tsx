@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Copy, Merge, Loader2, X } from 'lucide-react';
+import { DamageReport } from '../types';
+import { DuplicateGroup, DUPLICATE_SIGNAL_LABELS } from '../services/duplicateService';
+import { finalSeverity } from '../services/reviewService';
+import { formatAddress } from '../services/locationService';
+
+interface DuplicateGroupsProps {
+  groups: DuplicateGroup[];
+  reports: DamageReport[];
+  onMerge: (primaryId: string, duplicateIds: string[]) => Promise<unknown>;
+  onDismiss: (reportIds: string[]) => Promise<unknown>;
+}
+
+// A reviewed report is the better survivor; otherwise the oldest one
+function defaultPrimary(members: DamageReport[]): string {
+  const reviewed = members.find(r => r.review);
+  if (reviewed) return reviewed.id;
+  return [...members].sort((a, b) => a.createdAt - b.createdAt)[0].id;
+}
+
+const GroupCard: React.FC<{
+  group: DuplicateGroup;
+  members: DamageReport[];
+  onMerge: DuplicateGroupsProps['onMerge'];
+  onDismiss: DuplicateGroupsProps['onDismiss'];
+}> = ({ group, members, onMerge, onDismiss }) => {
+  const [primaryId, setPrimaryId] = useState(() => defaultPrimary(members));
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const act = async (action: () => Promise<unknown>) => {
+    setError(null);
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const merge = () => {
+    const others = members.filter(r => r.id !== primaryId).map(r => r.id);
+    if (!confirm(`Merge ${others.length} report${others.length === 1 ? '' : 's'} into the selected one? All photos and analyses are kept on it.`)) return;
+    act(() => onMerge(primaryId, others));
+  };
+
+  return (
+    <div className="p-3 bg-slate-800/50 rounded-lg border border-slate-700/50 space-y-2">
+      <div className="flex flex-wrap items-center gap-1">
+        {group.signals.map(signal => (
+          <span key={signal} className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-400 uppercase">
+            {DUPLICATE_SIGNAL_LABELS[signal]}
+          </span>
+        ))}
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-2">
+        {members.map(report => {
+          const severity = finalSeverity(report);
+          return (
+            <label
+              key={report.id}
+              className={`flex items-center gap-2 p-2 rounded-lg border cursor-pointer ${
+                report.id === primaryId ? 'border-red-500/60 bg-slate-900' : 'border-slate-700 hover:border-slate-600'
+              }`}
+            >
+              <input
+                type="radio"
+                name={`primary-${group.reportIds[0]}`}
+                checked={report.id === primaryId}
+                onChange={() => setPrimaryId(report.id)}
+                className="accent-red-600"
+              />
+              <img src={report.imageData} alt="" className="w-10 h-10 rounded object-cover border border-slate-700" />
+              <div className="min-w-0 text-[11px]">
+                <p className="text-slate-200 truncate">{formatAddress(report.location)}</p>
+                <p className="text-slate-500">
+                  {severity ? severity.replace(/_/g, ' ') : 'Not graded'}
+                  {report.review && ' · reviewed'}
+                  {' · '}
+                  {new Date(report.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+            </label>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex items-center justify-end gap-2">
+        <button
+          onClick={() => act(() => onDismiss(group.reportIds))}
+          disabled={busy}
+          className="px-3 py-1.5 text-slate-400 hover:text-white text-xs font-bold uppercase flex items-center gap-1 disabled:opacity-50"
+        >
+          <X className="w-3 h-3" />
+          Not duplicates
+        </button>
+        <button
+          onClick={merge}
+          disabled={busy}
+          className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white rounded-lg text-xs font-bold uppercase flex items-center gap-1 disabled:opacity-50"
+        >
+          {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Merge className="w-3 h-3" />}
+          Merge into selected
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Likely duplicate reports of the same property, as merge candidates.
+ */
+export const DuplicateGroups: React.FC<DuplicateGroupsProps> = ({ groups, reports, onMerge, onDismiss }) => {
+  const [open, setOpen] = useState(true);
+  const byId = new Map(reports.map(r => [r.id, r]));
+  const resolved = groups
+    .map(group => ({ group, members: group.reportIds.map(id => byId.get(id)).filter((r): r is DamageReport => r !== undefined) }))
+    .filter(({ members }) => members.length > 1);
+
+  if (resolved.length === 0) return null;
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-amber-500/30 p-4 space-y-3">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between">
+        <span className="text-xs font-black text-amber-400 uppercase tracking-widest flex items-center gap-2">
+          <Copy className="w-4 h-4" />
+          Possible duplicates ({resolved.length} {resolved.length === 1 ? 'property' : 'properties'})
+        </span>
+        <span className="text-[10px] text-slate-500 uppercase">{open ? 'Hide' : 'Show'}</span>
+      </button>
+      {open && (
+        <>
+          <p className="text-[11px] text-slate-500">
+            Pick the report to keep. The others are merged into it: their photos are added and their analyses kept
+            alongside. Re-analyze the merged report to grade all photos together.
+          </p>
+          {resolved.map(({ group, members }) => (
+            <GroupCard key={group.reportIds.join('|')} group={group} members={members} onMerge={onMerge} onDismiss={onDismiss} />
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateGroups;
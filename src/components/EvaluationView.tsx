@@ -0,0 +1,444 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { FlaskConical, Upload, Download, Play, Square, Loader2, CheckCircle2, XCircle, AlertTriangle, Star, Trash2 } from 'lucide-react';
+import { AnalysisProviderId, DamageReport, DamageSeverity } from '../types';
+import { getProviders, getActiveProvider } from '../services/providers';
+import { getActivePromptVersion, getPromptTemplates, renderPrompt } from '../services/prompts';
+import { deleteEvaluationRun, getEvaluationRuns, getSettings, saveEvaluationRun, saveSettings } from '../services/storageService';
+import {
+  checkGate,
+  datasetFromReports,
+  EvaluationRun,
+  GroundTruthDataset,
+  parseDataset,
+  promptHasPassed,
+  runEvaluation,
+  SeverityMetrics,
+} from '../services/evaluation';
+
+interface EvaluationViewProps {
+  reports: DamageReport[];
+}
+
+const SEVERITY_ABBREV: Record<DamageSeverity, string> = {
+  [DamageSeverity.INACCESSIBLE]: 'INAC',
+  [DamageSeverity.DESTROYED]: 'DEST',
+  [DamageSeverity.MAJOR]: 'MAJ',
+  [DamageSeverity.MINOR]: 'MIN',
+  [DamageSeverity.AFFECTED]: 'AFF',
+  [DamageSeverity.NO_VISIBLE_DAMAGE]: 'NVD',
+  [DamageSeverity.UNKNOWN]: 'UNK',
+};
+
+const percent = (value?: number) => (value === undefined ? '—' : `${Math.round(value * 1000) / 10}%`);
+
+function downloadJson(data: unknown, filename: string): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const ConfusionMatrixTable: React.FC<{ metrics: SeverityMetrics }> = ({ metrics }) => {
+  const severities = Object.values(DamageSeverity);
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-[10px] font-mono">
+        <thead>
+          <tr>
+            <th className="px-2 py-1 text-left text-slate-500">exp \ pred</th>
+            {severities.map(sev => (
+              <th key={sev} className="px-2 py-1 text-slate-400" title={sev}>{SEVERITY_ABBREV[sev]}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {severities.map(expected => (
+            <tr key={expected}>
+              <th className="px-2 py-1 text-left text-slate-400" title={expected}>{SEVERITY_ABBREV[expected]}</th>
+              {severities.map(predicted => {
+                const count = metrics.matrix[expected][predicted];
+                const style = count === 0
+                  ? 'text-slate-700'
+                  : expected === predicted ? 'bg-emerald-500/20 text-emerald-300' : 'bg-red-500/20 text-red-300';
+                return (
+                  <td key={predicted} className={`px-2 py-1 text-center ${style}`}>{count}</td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-1 text-[10px] text-slate-500">
+        {metrics.correct}/{metrics.cases} correct ({percent(metrics.accuracy)}) · {metrics.underGraded} under-graded · {metrics.overGraded} over-graded
+      </p>
+    </div>
+  );
+};
+
+export const EvaluationView: React.FC<EvaluationViewProps> = ({ reports }) => {
+  const [dataset, setDataset] = useState<GroundTruthDataset | null>(null);
+  const [providerId, setProviderId] = useState<AnalysisProviderId>(getActiveProvider().id);
+  const [promptVersion, setPromptVersion] = useState(getActivePromptVersion());
+  const [runs, setRuns] = useState<EvaluationRun[]>([]);
+  const [baselineId, setBaselineId] = useState<string | undefined>();
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [breakdown, setBreakdown] = useState('all');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    Promise.all([getEvaluationRuns(), getSettings()])
+      .then(([stored, settings]) => {
+        setRuns(stored);
+        setBaselineId(settings.evaluationBaselineId);
+        setSelectedRunId(stored[0]?.id || null);
+      })
+      .catch(err => console.error('Failed to load evaluation runs:', err));
+  }, []);
+
+  const reviewedCount = reports.filter(r => r.review && r.analysis).length;
+  const baseline = runs.find(r => r.id === baselineId);
+  const selectedRun = runs.find(r => r.id === selectedRunId);
+  const gate = selectedRun ? checkGate(selectedRun, baseline && baseline.id !== selectedRun.id ? baseline : undefined) : null;
+  const activePrompt = renderPrompt();
+  const promptChanged = baseline && baseline.promptFingerprint !== activePrompt.fingerprint;
+  const promptPassed = promptHasPassed(runs, activePrompt.fingerprint, baselineId);
+
+  const handleDatasetFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      setDataset(parseDataset(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid dataset file');
+    }
+  };
+
+  const handleRun = async () => {
+    if (!dataset) return;
+    setError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: dataset.cases.length });
+    try {
+      const run = await runEvaluation(dataset, providerId, {
+        promptVersion,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      await saveEvaluationRun(run);
+      setRuns(prev => [run, ...prev]);
+      setSelectedRunId(run.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Evaluation failed');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const makeBaseline = async (run: EvaluationRun) => {
+    const result = checkGate(run, baseline && baseline.id !== run.id ? baseline : undefined);
+    if (!result.passed && !confirm(`This run fails the gate:\n${result.reasons.join('\n')}\n\nMake it the baseline anyway?`)) {
+      return;
+    }
+    try {
+      const settings = await getSettings();
+      await saveSettings({ ...settings, evaluationBaselineId: run.id });
+      setBaselineId(run.id);
+    } catch (err) {
+      console.error('Failed to save baseline:', err);
+      setError('Failed to save baseline');
+    }
+  };
+
+  const removeRun = async (run: EvaluationRun) => {
+    if (!confirm('Delete this evaluation run?')) return;
+    await deleteEvaluationRun(run.id);
+    setRuns(prev => prev.filter(r => r.id !== run.id));
+    if (selectedRunId === run.id) setSelectedRunId(null);
+  };
+
+  const breakdownMetrics = (run: EvaluationRun): SeverityMetrics | undefined => {
+    if (breakdown === 'all') return run.metrics.severity;
+    const [kind, value] = breakdown.split(':');
+    const groups = kind === 'home' ? run.metrics.byHomeType : run.metrics.byIncidentType;
+    return (groups as Record<string, SeverityMetrics | undefined>)[value];
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Prompt gate status */}
+      <div className={`rounded-xl border p-4 flex items-start gap-3 ${
+        promptPassed ? 'bg-emerald-500/5 border-emerald-500/30' : 'bg-amber-500/5 border-amber-500/30'
+      }`}>
+        {promptPassed ? <CheckCircle2 className="w-5 h-5 text-emerald-400 shrink-0" /> : <AlertTriangle className="w-5 h-5 text-amber-400 shrink-0" />}
+        <div className="text-xs">
+          <p className={`font-bold ${promptPassed ? 'text-emerald-400' : 'text-amber-400'}`}>
+            Prompt {activePrompt.version} ({activePrompt.fingerprint}): {promptPassed ? 'evaluated and passing' : 'not yet evaluated against the baseline'}
+          </p>
+          <p className="text-slate-400 mt-1">
+            {promptChanged
+              ? `The analysis prompt changed since the baseline (${baseline!.promptFingerprint}). Run the baseline dataset and pass the gate before shipping the change.`
+              : baseline
+                ? `Baseline: ${baseline.datasetName}, ${percent(baseline.metrics.severity.accuracy)} severity accuracy.`
+                : 'No baseline yet. Run a labeled dataset and mark the run as baseline.'}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        {/* Dataset & run */}
+        <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 space-y-4">
+          <h2 className="text-sm font-black text-slate-100 uppercase tracking-widest flex items-center gap-2">
+            <FlaskConical className="w-4 h-4 text-red-500" />
+            Ground Truth
+          </h2>
+
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleDatasetFile} className="hidden" />
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg text-xs font-bold flex items-center justify-center gap-1"
+            >
+              <Upload className="w-3 h-3" />
+              Load dataset
+            </button>
+            <button
+              onClick={() => setDataset(datasetFromReports(reports, `Reviewed reports ${new Date().toISOString().split('T')[0]}`))}
+              disabled={reviewedCount === 0}
+              className="py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg text-xs font-bold disabled:opacity-50"
+              title="Use supervisor-reviewed grades as labels"
+            >
+              From reviews ({reviewedCount})
+            </button>
+          </div>
+
+          {dataset && (
+            <div className="p-3 bg-slate-800/50 rounded-lg text-xs flex items-center justify-between">
+              <div>
+                <p className="text-slate-200 font-bold">{dataset.name}</p>
+                <p className="text-slate-500">
+                  {dataset.cases.length} cases{dataset.recordings?.length ? ` · ${dataset.recordings.length} recordings` : ''}
+                </p>
+              </div>
+              <button
+                onClick={() => downloadJson(dataset, `${dataset.name.replace(/\W+/g, '_')}.json`)}
+                className="p-2 text-slate-400 hover:text-white"
+                title="Download dataset"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          <label className="block text-[10px] text-slate-500 uppercase">
+            Provider
+            <select
+              value={providerId}
+              onChange={(e) => setProviderId(e.target.value as AnalysisProviderId)}
+              className="mt-1 w-full px-2 py-2 bg-slate-800 border border-slate-700 rounded text-xs text-slate-200"
+            >
+              {getProviders().map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block text-[10px] text-slate-500 uppercase">
+            Prompt version
+            <select
+              value={promptVersion}
+              onChange={(e) => setPromptVersion(e.target.value)}
+              className="mt-1 w-full px-2 py-2 bg-slate-800 border border-slate-700 rounded text-xs text-slate-200"
+            >
+              {getPromptTemplates().map(t => (
+                <option key={t.version} value={t.version}>
+                  {t.version}: {t.label}{t.version === activePrompt.version ? ' (active)' : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {progress ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="w-full py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-bold text-xs uppercase flex items-center justify-center gap-2"
+            >
+              <Loader2 className="w-4 h-4 animate-spin" />
+              {progress.done}/{progress.total} · Stop after current
+              <Square className="w-3 h-3" />
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={!dataset || dataset.cases.length === 0}
+              className="w-full py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg font-bold text-xs uppercase flex items-center justify-center gap-2 disabled:bg-slate-800 disabled:text-slate-600"
+            >
+              <Play className="w-4 h-4" />
+              Run evaluation
+            </button>
+          )}
+
+          {error && (
+            <p className="text-xs text-red-400 flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3" />
+              {error}
+            </p>
+          )}
+
+          {/* Run history */}
+          <div className="space-y-1">
+            <p className="text-[10px] font-black text-slate-500 uppercase">Runs</p>
+            {runs.length === 0 && <p className="text-xs text-slate-600">No runs yet</p>}
+            {runs.map(run => (
+              <button
+                key={run.id}
+                onClick={() => setSelectedRunId(run.id)}
+                className={`w-full text-left p-2 rounded-lg text-[10px] border ${
+                  run.id === selectedRunId ? 'border-red-500/60 bg-slate-800' : 'border-slate-800 hover:border-slate-600'
+                }`}
+              >
+                <div className="flex items-center gap-1 text-slate-200">
+                  {run.id === baselineId && <Star className="w-3 h-3 text-amber-400" />}
+                  <span className="font-bold">{percent(run.metrics.severity.accuracy)}</span>
+                  <span className="text-slate-400 truncate">{run.datasetName}</span>
+                </div>
+                <p className="text-slate-500">
+                  {new Date(run.startedAt).toLocaleString()} · {run.model || run.provider} · prompt {run.promptVersion ? `${run.promptVersion} ` : ''}{run.promptFingerprint}
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Results */}
+        <div className="lg:col-span-2 bg-slate-900 rounded-xl border border-slate-800 p-6 space-y-4">
+          {!selectedRun ? (
+            <p className="text-sm text-slate-500 text-center py-12">Run a dataset to see accuracy results</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <h3 className="text-sm font-black text-slate-100 uppercase tracking-widest mr-auto">{selectedRun.datasetName}</h3>
+                <button
+                  onClick={() => downloadJson(selectedRun.recordings, `recordings_${selectedRun.id}.json`)}
+                  disabled={selectedRun.recordings.length === 0}
+                  className="px-2 py-1 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded text-[10px] font-bold flex items-center gap-1 disabled:opacity-50"
+                  title="Load in Settings → Offline Mock / Replay to rerun without network"
+                >
+                  <Download className="w-3 h-3" />
+                  Recordings
+                </button>
+                <button
+                  onClick={() => downloadJson(selectedRun, `${selectedRun.id}.json`)}
+                  className="px-2 py-1 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded text-[10px] font-bold flex items-center gap-1"
+                >
+                  <Download className="w-3 h-3" />
+                  Results
+                </button>
+                {selectedRun.id !== baselineId && (
+                  <button
+                    onClick={() => makeBaseline(selectedRun)}
+                    className="px-2 py-1 bg-amber-600/20 hover:bg-amber-600/40 text-amber-400 rounded text-[10px] font-bold flex items-center gap-1"
+                  >
+                    <Star className="w-3 h-3" />
+                    Set as baseline
+                  </button>
+                )}
+                <button onClick={() => removeRun(selectedRun)} className="p-1 text-slate-500 hover:text-red-400" title="Delete run">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              {gate && selectedRun.id !== baselineId && (
+                <div className={`p-3 rounded-lg text-xs ${gate.passed ? 'bg-emerald-500/10 text-emerald-300' : 'bg-red-500/10 text-red-300'}`}>
+                  <p className="font-bold flex items-center gap-1">
+                    {gate.passed ? <CheckCircle2 className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+                    Gate {gate.passed ? 'passed' : 'failed'}
+                  </p>
+                  {gate.reasons.map(reason => <p key={reason}>{reason}</p>)}
+                </div>
+              )}
+
+              {/* Headline metrics */}
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+                {[
+                  ['Severity', percent(selectedRun.metrics.severity.accuracy)],
+                  ['Home type', percent(selectedRun.metrics.homeTypeAccuracy)],
+                  ['Incident', percent(selectedRun.metrics.incidentTypeAccuracy)],
+                  ['Reason codes P/R', selectedRun.metrics.reasonCodes
+                    ? `${percent(selectedRun.metrics.reasonCodes.precision)} / ${percent(selectedRun.metrics.reasonCodes.recall)}`
+                    : '—'],
+                ].map(([label, value]) => (
+                  <div key={label} className="p-2 bg-slate-800/50 rounded-lg">
+                    <p className="text-lg font-black text-white">{value}</p>
+                    <p className="text-[10px] text-slate-500 uppercase">{label}</p>
+                  </div>
+                ))}
+              </div>
+              {selectedRun.metrics.errors > 0 && (
+                <p className="text-xs text-amber-400">{selectedRun.metrics.errors} case(s) failed to analyze and are not scored</p>
+              )}
+
+              {/* Confusion matrix with breakdowns */}
+              <div>
+                <div className="flex flex-wrap gap-1 mb-2">
+                  {[
+                    ['all', 'All'],
+                    ...Object.keys(selectedRun.metrics.byHomeType).map(k => [`home:${k}`, k.replace(/_/g, ' ')]),
+                    ...Object.keys(selectedRun.metrics.byIncidentType).map(k => [`incident:${k}`, k.replace(/_/g, ' ')]),
+                  ].map(([key, label]) => (
+                    <button
+                      key={key}
+                      onClick={() => setBreakdown(key)}
+                      className={`px-2 py-1 rounded text-[10px] font-bold ${
+                        breakdown === key ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {breakdownMetrics(selectedRun)
+                  ? <ConfusionMatrixTable metrics={breakdownMetrics(selectedRun)!} />
+                  : <p className="text-xs text-slate-500">No cases in this group</p>}
+              </div>
+
+              {/* Misses */}
+              <div>
+                <p className="text-[10px] font-black text-slate-500 uppercase mb-2">Misses and failures</p>
+                <div className="space-y-1 max-h-64 overflow-y-auto">
+                  {selectedRun.results
+                    .filter(r => r.error || r.predicted?.overallSeverity !== r.expected.overallSeverity)
+                    .map(r => (
+                      <div key={r.caseId} className="flex items-center justify-between text-xs py-1 border-b border-slate-800">
+                        <span className="font-mono text-slate-400 truncate">{r.caseId}</span>
+                        {r.error ? (
+                          <span className="text-red-400 truncate ml-2">{r.error}</span>
+                        ) : (
+                          <span className="text-slate-300 ml-2">
+                            expected {r.expected.overallSeverity.replace(/_/g, ' ')} · got{' '}
+                            <span className="text-red-300">{r.predicted!.overallSeverity.replace(/_/g, ' ')}</span>{' '}
+                            <span className="text-slate-500">({r.predicted!.confidence}%)</span>
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EvaluationView;
@@ -1,11 +1,36 @@
-import React, { useState } from 'react';
-import { Trash2, MapPin, Calendar, ChevronDown, ChevronUp, AlertTriangle, CheckCircle2, Building2, FileText, Download } from 'lucide-react';
-import { DamageReport, DamageSeverity } from '../types';
-import { exportCaseReport, generateSampleClientInfo } from '../services/pdfService';
+import React, { useState, useEffect, useRef } from 'react';
+import { Trash2, MapPin, Calendar, ChevronDown, ChevronUp, AlertTriangle, CheckCircle2, Building2, FileText, Download, Square, Pentagon, RotateCcw, X, Pencil } from 'lucide-react';
+import { BoundingBox, ChangeContext, DamageReport, DamageSeverity, Incident } from '../types';
+import { getSettings } from '../services/storageService';
+import { finalHomeType, finalSeverity } from '../services/reviewService';
+import { ReviewPanel } from './ReviewPanel';
+import { ReportHistory } from './ReportHistory';
+import { ReanalyzePanel } from './ReanalyzePanel';
+import { DuplicateGroups } from './DuplicateGroups';
+import { collectPhotoHashes, findDuplicateGroups } from '../services/duplicateService';
+import { exportCaseReport } from '../services/pdfService';
+import { exportBlocker } from '../services/intakeService';
+import { RuleCheck, ValidationFlags } from './RuleCheck';
+import { hasBlockingViolations } from '../services/ruleEngine';
+import { analysisWithWaterline } from '../services/waterlineService';
+import { WaterlineTool } from './WaterlineTool';
+import { DetectionOverlay } from './DetectionOverlay';
+import { LocationPicker } from './LocationPicker';
+import { OccupancyPanel } from './OccupancyPanel';
+import { ClientIntakePanel } from './ClientIntakePanel';
+import { NarrativePanel } from './NarrativePanel';
+import { annotatedDetections, boxesOnPhoto, withBoxEdit } from '../services/annotationService';
+import { describeReasonCode } from '../services/reasonCodeService';
+import { formatAddress, formatCoordinates, hasCoordinates, LOCATION_SOURCE_LABELS } from '../services/locationService';
 
 interface HistoryViewProps {
   reports: DamageReport[];
+  incident?: Incident; // Named in exported narratives
   onDelete: (id: string) => void;
+  onUpdate: (id: string, updates: Partial<DamageReport>, context?: ChangeContext) => Promise<unknown>;
+  onRestore: (id: string, version: number, context: ChangeContext) => Promise<unknown>;
+  onReanalyze: (id: string) => Promise<unknown>;
+  onMerge: (primaryId: string, duplicateIds: string[]) => Promise<unknown>;
 }
 
 const SEVERITY_COLORS: Record<DamageSeverity, string> = {
@@ -28,16 +53,59 @@ const SEVERITY_TEXT: Record<DamageSeverity, string> = {
   [DamageSeverity.UNKNOWN]: 'text-gray-400',
 };
 
-export const HistoryView: React.FC<HistoryViewProps> = ({ reports, onDelete }) => {
+export const HistoryView: React.FC<HistoryViewProps> = ({ reports, incident, onDelete, onUpdate, onRestore, onReanalyze, onMerge }) => {
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [filter, setFilter] = useState<DamageSeverity | 'all'>('all');
+  const [defaultReviewer, setDefaultReviewer] = useState('');
+  const [defaultCaseworkerEmail, setDefaultCaseworkerEmail] = useState('');
+  const [photoHashes, setPhotoHashes] = useState<Map<string, string[]>>(new Map());
+  // Photo hashes by report id and version, so unchanged reports aren't hashed again
+  const hashCacheRef = useRef(new Map<string, string[]>());
+
+  useEffect(() => {
+    getSettings()
+      .then(settings => {
+        setDefaultReviewer(settings.defaultCaseworker || '');
+        setDefaultCaseworkerEmail(settings.defaultCaseworkerEmail || '');
+      })
+      .catch(err => console.error('Failed to load settings:', err));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const cacheKey = (r: DamageReport) => `${r.id}:${r.updatedAt}`;
+    const uncached = reports.filter(r => !hashCacheRef.current.has(cacheKey(r)));
+    collectPhotoHashes(uncached)
+      .then(computed => {
+        for (const report of uncached) hashCacheRef.current.set(cacheKey(report), computed.get(report.id) || []);
+        if (!cancelled) setPhotoHashes(new Map(reports.map(r => [r.id, hashCacheRef.current.get(cacheKey(r)) || []])));
+      })
+      .catch(err => console.error('Failed to hash photos for duplicate detection:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [reports]);
+
+  const duplicateGroups = findDuplicateGroups(reports, photoHashes);
+
+  const dismissDuplicates = async (reportIds: string[]) => {
+    for (const id of reportIds) {
+      const report = reports.find(r => r.id === id);
+      if (!report) continue;
+      const others = reportIds.filter(other => other !== id);
+      await onUpdate(id, { notDuplicateOf: [...new Set([...(report.notDuplicateOf || []), ...others])] }, {
+        author: defaultReviewer || undefined,
+        reason: `Marked as a different property from ${others.join(', ')}`,
+      });
+    }
+  };
 
   const filteredReports = filter === 'all'
     ? reports
-    : reports.filter(r => r.analysis?.overallSeverity === filter);
+    : reports.filter(r => finalSeverity(r) === filter);
 
   const severityCounts = reports.reduce((acc, r) => {
-    const sev = r.analysis?.overallSeverity || DamageSeverity.NO_VISIBLE_DAMAGE;
+    const sev = finalSeverity(r) || DamageSeverity.NO_VISIBLE_DAMAGE;
     acc[sev] = (acc[sev] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
@@ -75,6 +143,8 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ reports, onDelete }) =
         </div>
       </div>
 
+      <DuplicateGroups groups={duplicateGroups} reports={reports} onMerge={onMerge} onDismiss={dismissDuplicates} />
+
       {/* Reports List */}
       {filteredReports.length === 0 ? (
         <div className="bg-slate-900 rounded-xl border border-slate-800 p-12 text-center">
@@ -89,12 +159,18 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ reports, onDelete }) =
               key={report.id}
               report={report}
               expanded={expandedId === report.id}
+              incident={incident}
+              defaultReviewer={defaultReviewer}
+              defaultCaseworkerEmail={defaultCaseworkerEmail}
               onToggle={() => setExpandedId(expandedId === report.id ? null : report.id)}
               onDelete={() => {
                 if (confirm('Delete this report? This cannot be undone.')) {
                   onDelete(report.id);
                 }
               }}
+              onUpdate={(updates, context) => onUpdate(report.id, updates, context)}
+              onRestore={(version, context) => onRestore(report.id, version, context)}
+              onReanalyze={() => onReanalyze(report.id)}
             />
           ))}
         </div>
@@ -106,14 +182,71 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ reports, onDelete }) =
 interface ReportCardProps {
   report: DamageReport;
   expanded: boolean;
+  incident?: Incident;
+  defaultReviewer: string;
+  defaultCaseworkerEmail: string;
   onToggle: () => void;
   onDelete: () => void;
+  onUpdate: (updates: Partial<DamageReport>, context?: ChangeContext) => Promise<unknown>;
+  onRestore: (version: number, context: ChangeContext) => Promise<unknown>;
+  onReanalyze: () => Promise<unknown>;
 }
 
-const ReportCard: React.FC<ReportCardProps> = ({ report, expanded, onToggle, onDelete }) => {
-  const severity = report.analysis?.overallSeverity || DamageSeverity.NO_VISIBLE_DAMAGE;
+const ReportCard: React.FC<ReportCardProps> = ({ report, expanded, incident, defaultReviewer, defaultCaseworkerEmail, onToggle, onDelete, onUpdate, onRestore, onReanalyze }) => {
+  const severity = finalSeverity(report) || DamageSeverity.NO_VISIBLE_DAMAGE;
+  const homeType = finalHomeType(report);
   const colorClass = SEVERITY_COLORS[severity];
   const textClass = SEVERITY_TEXT[severity];
+  // A supervisor's decision stands in for the explicit export override
+  // Rules run on the measured water line when there is one
+  const ruled = analysisWithWaterline(report);
+  const blocked = !report.review && hasBlockingViolations(ruled);
+  const photos = report.photos || [];
+  const [photoIndex, setPhotoIndex] = useState(0);
+  const shownImage = photos[photoIndex]?.imageData || report.imageData;
+  const shownQuality = photos[photoIndex]?.quality || (photoIndex === 0 ? report.imageQuality : undefined);
+  const detections = annotatedDetections(report);
+  // Detection whose box is being drawn; drawing only works on that detection's photo
+  const [boxEditing, setBoxEditing] = useState<number | null>(null);
+  const [boxShape, setBoxShape] = useState<'box' | 'polygon'>('box');
+  const [boxError, setBoxError] = useState<string | null>(null);
+  const [editingLocation, setEditingLocation] = useState(false);
+  const drawingBox = boxEditing !== null && (detections[boxEditing]?.photoIndex ?? 0) === photoIndex;
+
+  const startBoxEdit = (index: number, shape: 'box' | 'polygon') => {
+    setBoxError(null);
+    setPhotoIndex(detections[index].photoIndex ?? 0);
+    setBoxEditing(index);
+    setBoxShape(shape);
+  };
+
+  // undefined restores the model's box, null removes the box
+  const saveBox = async (index: number, box: BoundingBox | null | undefined, reason: string) => {
+    setBoxError(null);
+    try {
+      await onUpdate({ boxEdits: withBoxEdit(report, index, box) }, { reason });
+      setBoxEditing(null);
+    } catch (err) {
+      setBoxError(err instanceof Error ? err.message : 'Failed to save box');
+    }
+  };
+
+  const handleExport = () => {
+    // Grades that fail an excluded condition need an explicit override
+    if (blocked && !confirm('This grade failed a FEMA validation rule and is blocked. Export anyway?')) {
+      return;
+    }
+    // The case report names the client, so it waits for the intake
+    const blocker = exportBlocker(report);
+    if (blocker) {
+      alert(blocker);
+      if (!expanded) onToggle();
+      return;
+    }
+    exportCaseReport(report, incident).catch(err => {
+      alert(err instanceof Error ? err.message : 'Failed to export case report');
+    });
+  };
 
   return (
     <div className="bg-slate-900 rounded-xl border border-slate-800 overflow-hidden">
@@ -138,10 +271,24 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, expanded, onToggle, onD
             <span className={`text-sm font-bold ${textClass}`}>
               {severity.replace(/_/g, ' ')}
             </span>
-            {report.analysis?.homeType && (
+            {blocked && (
+              <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-red-500/20 text-red-400 uppercase">
+                Blocked
+              </span>
+            )}
+            {report.review && (
+              <span
+                className={`text-[10px] font-bold px-1.5 py-0.5 rounded uppercase ${
+                  report.review.action === 'overridden' ? 'bg-amber-500/20 text-amber-400' : 'bg-emerald-500/20 text-emerald-400'
+                }`}
+              >
+                {report.review.action === 'overridden' ? 'Overridden' : 'Reviewed'}
+              </span>
+            )}
+            {homeType && (
               <span className="text-xs text-slate-500 flex items-center gap-1">
                 <Building2 className="w-3 h-3" />
-                {report.analysis.homeType}
+                {homeType}
               </span>
             )}
           </div>
@@ -151,7 +298,7 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, expanded, onToggle, onD
           <div className="flex items-center gap-3 mt-1 text-[10px] text-slate-500">
             <span className="flex items-center gap-1">
               <MapPin className="w-3 h-3" />
-              {report.location.address}, {report.location.city}
+              {formatAddress(report.location)}
             </span>
             <span className="flex items-center gap-1">
               <Calendar className="w-3 h-3" />
@@ -165,12 +312,7 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, expanded, onToggle, onD
           <button
             onClick={(e) => {
               e.stopPropagation();
-              // Add sample client info if not present
-              const reportWithClient = {
-                ...report,
-                clientInfo: report.clientInfo?.name ? report.clientInfo : generateSampleClientInfo(),
-              };
-              exportCaseReport(reportWithClient);
+              handleExport();
             }}
             className="px-2 py-1 bg-red-600/20 hover:bg-red-600/40 text-red-400 rounded-lg transition-colors flex items-center gap-1 text-[10px] font-bold"
             title="Export Case Report PDF"
@@ -198,13 +340,145 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, expanded, onToggle, onD
         <div className="border-t border-slate-800 p-4 bg-slate-950/50 space-y-4">
           {/* Full Image */}
           <div className="rounded-lg overflow-hidden">
-            <img
-              src={report.imageData}
-              alt="Damage"
-              className="w-full max-h-96 object-contain bg-black"
+            {boxEditing !== null && (
+              <div className="flex items-center justify-between gap-2 bg-slate-800 px-3 py-2 text-xs text-slate-300">
+                <span>
+                  {!drawingBox
+                    ? `Switch to photo ${(detections[boxEditing].photoIndex ?? 0) + 1} to draw this box`
+                    : boxShape === 'polygon'
+                      ? `Click around ${boxEditing + 1}. ${detections[boxEditing].object} to outline it; double-click or click the first point to finish`
+                      : `Drag on the photo to draw the box for ${boxEditing + 1}. ${detections[boxEditing].object}`}
+                </span>
+                <button onClick={() => setBoxEditing(null)} className="text-slate-400 hover:text-white uppercase text-[10px] font-bold">
+                  Cancel
+                </button>
+              </div>
+            )}
+            <div className="flex justify-center bg-black">
+              <DetectionOverlay
+                // A fresh overlay per edit drops any half-drawn outline
+                key={boxEditing === null ? 'view' : `${boxEditing}-${boxShape}`}
+                imageData={shownImage}
+                detections={boxesOnPhoto(detections, photoIndex)}
+                imageClassName="max-h-96"
+                highlight={boxEditing ?? undefined}
+                drawing={drawingBox}
+                shape={boxShape}
+                onDraw={box => saveBox(
+                  boxEditing!,
+                  box,
+                  `${box.polygon ? 'Outline' : 'Box'} drawn for detection ${boxEditing! + 1}`
+                )}
+              />
+            </div>
+            {photos[photoIndex]?.caption && (
+              <p className="text-xs text-slate-400 bg-black px-3 py-2">{photos[photoIndex].caption}</p>
+            )}
+          </div>
+
+          {/* Photo Set */}
+          {photos.length > 1 && (
+            <div className="flex gap-2 overflow-x-auto">
+              {photos.map((photo, i) => (
+                <button
+                  key={photo.id}
+                  onClick={() => setPhotoIndex(i)}
+                  className={`shrink-0 w-24 text-left rounded-lg overflow-hidden border-2 transition-colors ${
+                    i === photoIndex ? 'border-red-500' : 'border-slate-700 hover:border-slate-500'
+                  }`}
+                >
+                  <img src={photo.imageData} alt="" className="w-full h-16 object-cover" />
+                  <p className="text-[10px] text-slate-400 px-1 py-0.5 truncate">
+                    {i + 1}. {photo.caption || 'No caption'}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {editingLocation && (
+            <LocationPicker
+              initial={report.location}
+              title={`Location: ${report.id}`}
+              onSave={async (location) => {
+                await onUpdate({ location }, { reason: 'Location corrected' });
+                setEditingLocation(false);
+              }}
+              onCancel={() => setEditingLocation(false)}
             />
+          )}
+
+          {/* Photo & Location Provenance */}
+          <div className="bg-slate-800/50 p-4 rounded-lg grid sm:grid-cols-2 gap-3 text-xs">
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-[10px] font-black text-slate-500 uppercase">Location</p>
+                <button
+                  onClick={() => setEditingLocation(true)}
+                  className="text-[10px] font-bold uppercase text-slate-500 hover:text-white flex items-center gap-1"
+                >
+                  <Pencil className="w-3 h-3" />
+                  Edit
+                </button>
+              </div>
+              <p className="text-slate-300">{report.location.county ? `${report.location.county} County` : 'County not recorded'}</p>
+              <p className="text-slate-300">
+                {hasCoordinates(report.location) ? formatCoordinates(report.location) : 'No coordinates'}
+                {report.location.heading !== undefined && ` · facing ${Math.round(report.location.heading)}°`}
+              </p>
+              <p className={report.location.source === 'demo' ? 'text-amber-400' : 'text-slate-500'}>
+                {report.location.source ? LOCATION_SOURCE_LABELS[report.location.source] : 'Source not recorded'}
+              </p>
+              {report.location.geocoded && (
+                <p className="text-slate-500">
+                  {report.location.geocoded.precision === 'address' ? 'Address' : 'ZIP area'} from{' '}
+                  {report.location.geocoded.dataset || (report.location.geocoded.geocoder === 'http' ? 'online geocoder' : 'local dataset')}
+                  {report.location.geocoded.distanceMeters !== undefined && ` (${report.location.geocoded.distanceMeters} m away)`}
+                </p>
+              )}
+            </div>
+            <div>
+              <p className="text-[10px] font-black text-slate-500 uppercase mb-1">Photo</p>
+              <p className="text-slate-300">
+                {report.photoMetadata?.capturedAt
+                  ? `Taken ${new Date(report.photoMetadata.capturedAt).toLocaleString()}`
+                  : 'Capture time not recorded'}
+              </p>
+              {(report.photoMetadata?.cameraMake || report.photoMetadata?.cameraModel) && (
+                <p className="text-slate-500">
+                  {[report.photoMetadata.cameraMake, report.photoMetadata.cameraModel].filter(Boolean).join(' ')}
+                </p>
+              )}
+              {shownQuality && (
+                shownQuality.issues.length === 0 ? (
+                  <p className="text-emerald-400/80" title={`Sharpness ${shownQuality.sharpness} · brightness ${shownQuality.brightness}`}>
+                    Quality check passed ({shownQuality.width}x{shownQuality.height})
+                  </p>
+                ) : (
+                  shownQuality.issues.map(issue => (
+                    <p key={issue.id} className="text-amber-400 flex items-start gap-1">
+                      <AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" />
+                      {issue.message}
+                    </p>
+                  ))
+                )
+              )}
+            </div>
           </div>
 
+          <ClientIntakePanel
+            report={report}
+            defaultCaseworker={defaultReviewer}
+            defaultCaseworkerEmail={defaultCaseworkerEmail}
+            onUpdate={onUpdate}
+          />
+
+          <OccupancyPanel report={report} defaultCaseworker={defaultReviewer} onUpdate={onUpdate} />
+
+          <ReviewPanel report={report} defaultReviewer={defaultReviewer} onUpdate={onUpdate} />
+
+          <NarrativePanel report={report} incident={incident} defaultCaseworker={defaultReviewer} onUpdate={onUpdate} />
+
           {/* Analysis Details */}
           <div className="grid md:grid-cols-2 gap-4">
             <div className="bg-slate-800/50 p-4 rounded-lg">
@@ -222,26 +496,109 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, expanded, onToggle, onD
             <p className="text-sm text-slate-300 leading-relaxed">{report.analysis.pdaJustification}</p>
           </div>
 
+          <WaterlineTool
+            report={report}
+            photoIndex={photoIndex}
+            imageData={shownImage}
+            defaultAssessor={defaultReviewer}
+            onUpdate={onUpdate}
+          />
+
+          {ruled?.ruleEvaluation && <RuleCheck evaluation={ruled.ruleEvaluation} />}
+          {ruled?.validationViolations && <ValidationFlags violations={ruled.validationViolations} />}
+
           {/* Detections */}
           {report.analysis.detections.length > 0 && (
             <div className="bg-slate-800/50 p-4 rounded-lg">
               <p className="text-[10px] font-black text-slate-500 uppercase mb-3">Detections</p>
               <div className="space-y-2">
-                {report.analysis.detections.map((det, i) => (
+                {detections.map((det, i) => (
                   <div key={i} className="flex items-center justify-between py-2 border-b border-slate-700 last:border-0">
                     <div>
+                      <span className="text-xs font-mono text-slate-500 mr-1">{i + 1}.</span>
                       <span className="text-sm font-medium text-slate-200">{det.object}</span>
                       <span className="text-xs text-slate-500 ml-2">{det.type}</span>
+                      {photos.length > 1 && det.photoIndex !== undefined && photos[det.photoIndex] && (
+                        <button
+                          onClick={() => setPhotoIndex(det.photoIndex!)}
+                          className="text-[10px] text-blue-400 hover:text-blue-300 ml-2"
+                        >
+                          Photo {det.photoIndex + 1}
+                        </button>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       <span className={`text-xs font-bold ${SEVERITY_TEXT[det.severity]}`}>
                         {det.severity.replace(/_/g, ' ')}
                       </span>
                       <span className="text-[10px] text-slate-500">{det.confidence}%</span>
+                      {det.boxSource === 'reviewer' && (
+                        <span className="text-[10px] font-bold px-1 rounded bg-sky-500/20 text-sky-400 uppercase">Edited box</span>
+                      )}
+                      <button
+                        onClick={() => startBoxEdit(i, 'box')}
+                        className={`p-1 hover:text-white ${boxEditing === i && boxShape === 'box' ? 'text-white' : 'text-slate-500'}`}
+                        title={det.box ? 'Redraw box' : 'Draw box'}
+                      >
+                        <Square className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => startBoxEdit(i, 'polygon')}
+                        className={`p-1 hover:text-white ${boxEditing === i && boxShape === 'polygon' ? 'text-white' : 'text-slate-500'}`}
+                        title="Outline irregular damage"
+                      >
+                        <Pentagon className="w-3 h-3" />
+                      </button>
+                      {report.boxEdits?.some(edit => edit.detectionIndex === i) && (
+                        <button
+                          onClick={() => saveBox(i, undefined, `Box for detection ${i + 1} reset to the model's`)}
+                          className="p-1 text-slate-500 hover:text-white"
+                          title="Restore the model's box"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                        </button>
+                      )}
+                      {det.box && (
+                        <button
+                          onClick={() => saveBox(i, null, `Box removed from detection ${i + 1}`)}
+                          className="p-1 text-slate-500 hover:text-red-400"
+                          title="Remove box"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))}
               </div>
+              {boxError && <p className="text-xs text-red-400 mt-2">{boxError}</p>}
+            </div>
+          )}
+
+          {/* Reason Codes */}
+          {(report.analysis.reasonCodes.length > 0 || report.analysis.unrecognizedReasonCodes) && (
+            <div className="bg-slate-800/50 p-4 rounded-lg">
+              <p className="text-[10px] font-black text-slate-500 uppercase mb-3">Reason Codes</p>
+              <div className="flex flex-wrap gap-2">
+                {report.analysis.reasonCodes.map(code => (
+                  <span
+                    key={code}
+                    title={describeReasonCode(code)}
+                    className="px-2 py-1 rounded bg-slate-700 text-[10px] font-mono text-slate-200"
+                  >
+                    {code}
+                  </span>
+                ))}
+                {report.analysis.unrecognizedReasonCodes?.map(code => (
+                  <span
+                    key={`unrecognized-${code}`}
+                    title="Not in FEMA reason code vocabulary (quarantined)"
+                    className="px-2 py-1 rounded border border-dashed border-slate-600 text-[10px] font-mono text-slate-500 line-through"
+                  >
+                    {code}
+                  </span>
+                ))}
+              </div>
             </div>
           )}
 
@@ -260,15 +617,45 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, expanded, onToggle, onD
             </div>
           )}
 
+          <ReanalyzePanel report={report} onReanalyze={onReanalyze} />
+
+          {/* Duplicates merged into this report */}
+          {report.mergedReports && report.mergedReports.length > 0 && (
+            <div className="bg-slate-800/50 p-4 rounded-lg">
+              <p className="text-[10px] font-black text-slate-500 uppercase mb-3">Merged Reports</p>
+              <div className="space-y-2">
+                {report.mergedReports.map(merged => (
+                  <div key={merged.reportId} className="text-xs border-l-2 border-slate-700 pl-3">
+                    <p className="text-slate-300">
+                      <span className="font-mono text-slate-500">{merged.reportId}</span>
+                      {' · '}
+                      {formatAddress(merged.location)}
+                    </p>
+                    <p className="text-slate-500">
+                      Assessed {new Date(merged.createdAt).toLocaleString()} · merged {new Date(merged.mergedAt).toLocaleString()}
+                    </p>
+                    {merged.analysis && (
+                      <p className="text-slate-400">
+                        Graded{' '}
+                        <span className={`font-bold ${SEVERITY_TEXT[merged.analysis.overallSeverity]}`}>
+                          {merged.analysis.overallSeverity.replace(/_/g, ' ')}
+                        </span>
+                        {' '}({merged.analysis.confidence}%)
+                        {merged.review && ` · ${merged.review.action} by ${merged.review.reviewer}`}
+                        {merged.review?.overallSeverity && ` as ${merged.review.overallSeverity.replace(/_/g, ' ')}`}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <ReportHistory report={report} onRestore={onRestore} />
+
           {/* Export Button */}
           <button
-            onClick={() => {
-              const reportWithClient = {
-                ...report,
-                clientInfo: report.clientInfo?.name ? report.clientInfo : generateSampleClientInfo(),
-              };
-              exportCaseReport(reportWithClient);
-            }}
+            onClick={handleExport}
             className="w-full py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg font-bold text-sm uppercase tracking-widest transition-colors flex items-center justify-center gap-2"
           >
             <Download className="w-4 h-4" />
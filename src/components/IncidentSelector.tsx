@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { Flag, Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+import { Incident, IncidentEventType, IncidentType } from '../types';
+import {
+  DEFAULT_INCIDENT_TYPES,
+  INCIDENT_EVENT_LABELS,
+  buildIncident,
+  incidentTitle,
+  parseCounties,
+} from '../services/incidentService';
+
+interface IncidentSelectorProps {
+  incidents: Incident[];
+  activeIncident?: Incident;
+  reportCounts: Map<string, number>;
+  onSelect: (id: string) => Promise<unknown>;
+  onSave: (incident: Incident) => Promise<unknown>;
+  onDelete: (id: string) => Promise<unknown>;
+}
+
+const EVENT_TYPES = Object.keys(INCIDENT_EVENT_LABELS) as IncidentEventType[];
+
+const inputClass = 'w-full px-2 py-1.5 bg-slate-900 border border-slate-700 rounded text-xs text-slate-200 focus:outline-none focus:border-red-500';
+
+// yyyy-mm-dd in local time, for <input type="date">
+function toDateInput(time?: number): string {
+  if (time === undefined) return '';
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function fromDateInput(value: string): number | undefined {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+}
+
+const IncidentForm: React.FC<{
+  existing?: Incident;
+  reportCount: number;
+  onSave: (incident: Incident) => Promise<unknown>;
+  onDelete?: () => Promise<unknown>;
+  onClose: () => void;
+}> = ({ existing, reportCount, onSave, onDelete, onClose }) => {
+  const [name, setName] = useState(existing?.name || '');
+  const [drNumber, setDrNumber] = useState(existing?.drNumber || '');
+  const [declared, setDeclared] = useState(toDateInput(existing?.declaredAt));
+  const [eventType, setEventType] = useState<IncidentEventType>(existing?.eventType || 'HURRICANE');
+  const [defaultIncidentType, setDefaultIncidentType] = useState<IncidentType>(
+    existing?.defaultIncidentType || DEFAULT_INCIDENT_TYPES.HURRICANE
+  );
+  const [counties, setCounties] = useState(existing?.counties.join(', ') || '');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const chooseEventType = (type: IncidentEventType) => {
+    setEventType(type);
+    // Follow the event type until the incident exists; after that the choice is deliberate
+    if (!existing) setDefaultIncidentType(DEFAULT_INCIDENT_TYPES[type]);
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    setSaving(true);
+    try {
+      await action();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save incident');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const save = () => run(async () => {
+    const incident = buildIncident({
+      name,
+      drNumber,
+      declaredAt: fromDateInput(declared),
+      eventType,
+      counties: parseCounties(counties),
+      defaultIncidentType,
+    }, existing);
+    await onSave(incident);
+  });
+
+  return (
+    <div className="py-3 space-y-2">
+      <div className="grid sm:grid-cols-4 gap-2">
+        <label className="text-[10px] text-slate-500 uppercase sm:col-span-2">
+          Name
+          <input value={name} onChange={e => setName(e.target.value)} placeholder="Hurricane Milton" className={inputClass} />
+        </label>
+        <label className="text-[10px] text-slate-500 uppercase">
+          Declaration number
+          <input value={drNumber} onChange={e => setDrNumber(e.target.value)} placeholder="DR-4834-FL" className={inputClass} />
+        </label>
+        <label className="text-[10px] text-slate-500 uppercase">
+          Declared
+          <input type="date" value={declared} onChange={e => setDeclared(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-[10px] text-slate-500 uppercase">
+          Event type
+          <select value={eventType} onChange={e => chooseEventType(e.target.value as IncidentEventType)} className={inputClass}>
+            {EVENT_TYPES.map(type => (
+              <option key={type} value={type}>{INCIDENT_EVENT_LABELS[type]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-[10px] text-slate-500 uppercase">
+          Default rule set
+          <select value={defaultIncidentType} onChange={e => setDefaultIncidentType(e.target.value as IncidentType)} className={inputClass}>
+            <option value={IncidentType.FLOOD}>Flood</option>
+            <option value={IncidentType.NON_FLOOD}>Non-flood</option>
+          </select>
+        </label>
+        <label className="text-[10px] text-slate-500 uppercase sm:col-span-2">
+          Designated counties
+          <input value={counties} onChange={e => setCounties(e.target.value)} placeholder="Pinellas, Hillsborough, Pasco" className={inputClass} />
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          {onDelete && (
+            <button
+              onClick={() => {
+                if (confirm(`Delete incident "${existing?.name}"?`)) run(onDelete);
+              }}
+              disabled={saving || reportCount > 0}
+              title={reportCount > 0 ? 'Incidents with reports cannot be deleted' : 'Delete incident'}
+              className="px-2 py-1.5 text-slate-500 hover:text-red-400 disabled:opacity-40 disabled:hover:text-slate-500 text-xs font-bold uppercase flex items-center gap-1"
+            >
+              <Trash2 className="w-3 h-3" />
+              Delete
+            </button>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={onClose} className="px-3 py-1.5 text-slate-400 hover:text-white text-xs font-bold uppercase">
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={saving}
+            className="px-3 py-1.5 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white rounded-lg text-xs font-bold uppercase flex items-center gap-1"
+          >
+            {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+            {existing ? 'Save incident' : 'Create incident'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Active incident bar: new reports are filed under the selected incident
+ * and every RescueLens view shows only its reports.
+ */
+export const IncidentSelector: React.FC<IncidentSelectorProps> = ({
+  incidents,
+  activeIncident,
+  reportCounts,
+  onSelect,
+  onSave,
+  onDelete,
+}) => {
+  const [editing, setEditing] = useState<'new' | 'active' | null>(null);
+
+  return (
+    <div className="border-b border-slate-800 bg-slate-950 print:hidden">
+      <div className="max-w-7xl mx-auto px-4">
+        <div className="flex flex-wrap items-center gap-2 py-2">
+          <Flag className="w-3.5 h-3.5 text-red-500" />
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Incident</span>
+          {incidents.length > 0 ? (
+            <select
+              value={activeIncident?.id || ''}
+              onChange={e => onSelect(e.target.value)}
+              className="px-2 py-1 bg-slate-900 border border-slate-700 rounded text-xs text-slate-200 focus:outline-none focus:border-red-500 max-w-xs"
+            >
+              {!activeIncident && <option value="">Select an incident</option>}
+              {incidents.map(incident => (
+                <option key={incident.id} value={incident.id}>
+                  {incidentTitle(incident)} ({reportCounts.get(incident.id) || 0})
+                </option>
+              ))}
+            </select>
+          ) : (
+            <span className="text-xs text-amber-400">No incidents yet. Create one to start filing reports.</span>
+          )}
+          {activeIncident && (
+            <span className="text-[10px] text-slate-500 hidden md:inline">
+              {INCIDENT_EVENT_LABELS[activeIncident.eventType]}
+              {activeIncident.counties.length > 0 && ` · ${activeIncident.counties.join(', ')}`}
+            </span>
+          )}
+          <div className="ml-auto flex items-center gap-1">
+            {activeIncident && (
+              <button
+                onClick={() => setEditing(editing === 'active' ? null : 'active')}
+                className="p-1.5 text-slate-500 hover:text-white"
+                title="Edit incident"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+            )}
+            <button
+              onClick={() => setEditing(editing === 'new' ? null : 'new')}
+              className="px-2 py-1 text-slate-400 hover:text-white text-[10px] font-bold uppercase flex items-center gap-1"
+            >
+              <Plus className="w-3 h-3" />
+              New incident
+            </button>
+          </div>
+        </div>
+        {editing && (
+          <IncidentForm
+            key={editing === 'active' ? activeIncident?.id : 'new'}
+            existing={editing === 'active' ? activeIncident : undefined}
+            reportCount={editing === 'active' && activeIncident ? reportCounts.get(activeIncident.id) || 0 : 0}
+            onSave={onSave}
+            onDelete={editing === 'active' && activeIncident ? () => onDelete(activeIncident.id) : undefined}
+            onClose={() => setEditing(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IncidentSelector;
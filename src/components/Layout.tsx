@@ -1,5 +1,5 @@
 import React from 'react';
-import { Camera, History, Map, BarChart3, Shield, Phone, Radar, Home, FileText } from 'lucide-react';
+import { Camera, History, Map, BarChart3, Shield, Phone, Radar, Home, FileText, Settings as SettingsIcon, ClipboardCheck, FlaskConical, GitCompare, FileSpreadsheet } from 'lucide-react';
 import { tools, homeTool } from '../tools/registry';
 
 interface LayoutProps {
@@ -8,15 +8,21 @@ interface LayoutProps {
   activeTab: string;
   onToolChange: (tool: string) => void;
   onTabChange: (tab: string) => void;
+  incidentBar?: React.ReactNode; // Active incident selector, shown under the RescueLens tabs
 }
 
 // RescueLens sub-tabs
 const rescuelensTabs = [
   { id: 'analyze', label: 'Analyze', icon: Camera },
   { id: 'history', label: 'History', icon: History },
+  { id: 'review', label: 'Review', icon: ClipboardCheck },
   { id: 'map', label: 'Map', icon: Map },
   { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
+  { id: 'pda', label: 'PDA Summary', icon: FileSpreadsheet },
+  { id: 'evaluate', label: 'Evaluate', icon: FlaskConical },
+  { id: 'prompts', label: 'Prompts', icon: GitCompare },
   { id: 'example', label: 'Example Report', icon: FileText },
+  { id: 'settings', label: 'Settings', icon: SettingsIcon },
 ];
 
 // Tool icons mapping
@@ -33,14 +39,15 @@ export const Layout: React.FC<LayoutProps> = ({
   activeTab,
   onToolChange,
   onTabChange,
+  incidentBar,
 }) => {
   // Home first, then other tools
   const allTools = [homeTool, ...tools];
 
   return (
-    <div className="min-h-screen bg-slate-950 text-white flex flex-col">
+    <div className="min-h-screen bg-slate-950 text-white flex flex-col print:bg-white print:text-black">
       {/* Top Header */}
-      <header className="bg-[#ce1126] text-white">
+      <header className="bg-[#ce1126] text-white print:hidden">
         <div className="max-w-7xl mx-auto px-4 py-3">
           <div className="flex items-center justify-between">
             {/* Logo & Title - Clickable to go Home */}
@@ -79,7 +86,7 @@ export const Layout: React.FC<LayoutProps> = ({
       </header>
 
       {/* Tool Navigation */}
-      <nav className="bg-slate-900 border-b border-slate-800">
+      <nav className="bg-slate-900 border-b border-slate-800 print:hidden">
         <div className="max-w-7xl mx-auto px-4">
           <div className="flex gap-1">
             {allTools.map((tool) => {
@@ -107,7 +114,7 @@ export const Layout: React.FC<LayoutProps> = ({
 
       {/* Sub-Navigation for RescueLens */}
       {activeTool === 'rescuelens' && (
-        <nav className="bg-slate-900/50 border-b border-slate-800">
+        <nav className="bg-slate-900/50 border-b border-slate-800 print:hidden">
           <div className="max-w-7xl mx-auto px-4">
             <div className="flex gap-1">
               {rescuelensTabs.map(({ id, label, icon: Icon }) => (
@@ -129,13 +136,15 @@ export const Layout: React.FC<LayoutProps> = ({
         </nav>
       )}
 
+      {activeTool === 'rescuelens' && incidentBar}
+
       {/* Main Content */}
-      <main className="flex-1 max-w-7xl mx-auto w-full px-4 py-8">
+      <main className="flex-1 max-w-7xl mx-auto w-full px-4 py-8 print:p-0">
         {children}
       </main>
 
       {/* Footer */}
-      <footer className="border-t border-slate-800 py-4 mt-auto">
+      <footer className="border-t border-slate-800 py-4 mt-auto print:hidden">
         <div className="max-w-7xl mx-auto px-4 text-center">
           <p className="text-xs text-slate-600">
             Disaster Response Innovation Suite | AI-Powered Emergency Tools
@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { MapPin, X, Check, Search, Loader2 } from 'lucide-react';
+import { GeocodeMatch, Location } from '../types';
+import { formatCoordinates, hasCoordinates, isValidCoordinate, normalizeCounty } from '../services/locationService';
+import { reverseGeocode } from '../services/geocoding';
+
+interface LocationPickerProps {
+  initial?: Location;
+  title?: string;
+  onSave: (location: Location) => void;
+  onCancel: () => void;
+}
+
+// Tampa Bay, matching the MapView default
+const DEFAULT_CENTER: [number, number] = [27.85, -82.75];
+
+const PIN_ICON = L.divIcon({
+  className: 'custom-marker',
+  html: `<div style="width: 20px; height: 20px; background: #dc2626; border: 3px solid white; border-radius: 50%; box-shadow: 0 2px 8px rgba(0,0,0,0.4);"></div>`,
+  iconSize: [20, 20],
+  iconAnchor: [10, 10],
+});
+
+/**
+ * Manual location entry for photos without GPS: drop a pin on the map,
+ * type an address, or both.
+ */
+export const LocationPicker: React.FC<LocationPickerProps> = ({ initial, title, onSave, onCancel }) => {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const mapInstanceRef = useRef<L.Map | null>(null);
+  const markerRef = useRef<L.Marker | null>(null);
+  const initialRef = useRef(initial);
+
+  const [pin, setPin] = useState<{ lat: number; lng: number } | null>(
+    initial && hasCoordinates(initial) ? { lat: initial.lat, lng: initial.lng } : null
+  );
+  const [address, setAddress] = useState(initial?.address || '');
+  const [city, setCity] = useState(initial?.city || '');
+  const [county, setCounty] = useState(initial?.county || '');
+  const [state, setState] = useState(initial?.state || '');
+  const [zip, setZip] = useState(initial?.zip || '');
+  const [geocoded, setGeocoded] = useState<GeocodeMatch | undefined>(initial?.geocoded);
+  const [lookingUp, setLookingUp] = useState(false);
+  const [lookupMessage, setLookupMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!mapRef.current || mapInstanceRef.current) return;
+
+    // Open on the existing pin if there is one, otherwise the default area
+    const start = initialRef.current;
+    const map = start && hasCoordinates(start)
+      ? L.map(mapRef.current).setView([start.lat, start.lng], 16)
+      : L.map(mapRef.current).setView(DEFAULT_CENTER, 10);
+
+    L.tileLayer('https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png', {
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> &copy; <a href="https://carto.com/attributions">CARTO</a>',
+      maxZoom: 19,
+    }).addTo(map);
+
+    map.on('click', (e: L.LeafletMouseEvent) => {
+      setPin({ lat: e.latlng.lat, lng: e.latlng.lng });
+    });
+
+    mapInstanceRef.current = map;
+
+    return () => {
+      map.remove();
+      mapInstanceRef.current = null;
+      markerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    if (!pin) {
+      markerRef.current?.remove();
+      markerRef.current = null;
+      return;
+    }
+
+    if (markerRef.current) {
+      markerRef.current.setLatLng([pin.lat, pin.lng]);
+    } else {
+      const marker = L.marker([pin.lat, pin.lng], { icon: PIN_ICON, draggable: true }).addTo(map);
+      marker.on('dragend', () => {
+        const { lat, lng } = marker.getLatLng();
+        setPin({ lat, lng });
+      });
+      markerRef.current = marker;
+    }
+  }, [pin]);
+
+  const handleLookup = async () => {
+    if (!pin) return;
+    setLookingUp(true);
+    setLookupMessage(null);
+    try {
+      const result = await reverseGeocode(pin.lat, pin.lng);
+      if (!result) {
+        setLookupMessage('No address found near this pin. Load a dataset in Settings or enter it manually.');
+        return;
+      }
+      setAddress(result.address);
+      setCity(result.city || '');
+      setCounty(result.county || '');
+      setState(result.state || '');
+      setZip(result.zip || '');
+      setGeocoded(result.match);
+      if (result.match.precision === 'zip') {
+        setLookupMessage('Only the ZIP area matched. Please enter the street address.');
+      }
+    } catch (err) {
+      setLookupMessage(err instanceof Error ? err.message : 'Address lookup failed');
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  const canSave = (pin && isValidCoordinate(pin.lat, pin.lng)) || address.trim() !== '';
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      lat: pin?.lat ?? 0,
+      lng: pin?.lng ?? 0,
+      address: address.trim(),
+      city: city.trim() || undefined,
+      county: normalizeCounty(county),
+      state: state.trim() || undefined,
+      zip: zip.trim() || undefined,
+      source: 'manual',
+      heading: initial?.heading,
+      geocoded,
+    });
+  };
+
+  const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder:text-slate-600 focus:border-red-500 outline-none';
+
+  return (
+    <div className="fixed inset-0 z-[2000] bg-black/70 flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden">
+        <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+          <h3 className="text-sm font-black text-white uppercase tracking-widest flex items-center gap-2">
+            <MapPin className="w-4 h-4 text-red-500" />
+            {title || 'Set Property Location'}
+          </h3>
+          <button onClick={onCancel} className="p-1 text-slate-500 hover:text-slate-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <div ref={mapRef} className="h-72 rounded-lg border border-slate-700" />
+            <div className="flex items-center justify-between mt-2 gap-2">
+              <p className="text-[10px] text-slate-500">
+                {pin
+                  ? `Pin: ${formatCoordinates(pin)} (drag to adjust)`
+                  : 'Click the map to drop a pin at the property'}
+              </p>
+              {pin && (
+                <button
+                  onClick={handleLookup}
+                  disabled={lookingUp}
+                  className="text-[10px] font-bold uppercase text-blue-400 hover:text-blue-300 flex items-center gap-1 shrink-0"
+                >
+                  {lookingUp ? <Loader2 className="w-3 h-3 animate-spin" /> : <Search className="w-3 h-3" />}
+                  Look up address
+                </button>
+              )}
+            </div>
+            {lookupMessage && <p className="text-[10px] text-amber-400 mt-1">{lookupMessage}</p>}
+          </div>
+
+          <div className="grid grid-cols-12 gap-2">
+            <input
+              className={`${inputClass} col-span-12`}
+              placeholder="Street address"
+              value={address}
+              onChange={(e) => { setAddress(e.target.value); setGeocoded(undefined); }}
+            />
+            <input
+              className={`${inputClass} col-span-4`}
+              placeholder="City"
+              value={city}
+              onChange={(e) => setCity(e.target.value)}
+            />
+            <input
+              className={`${inputClass} col-span-3`}
+              placeholder="County"
+              value={county}
+              onChange={(e) => setCounty(e.target.value)}
+            />
+            <input
+              className={`${inputClass} col-span-2`}
+              placeholder="State"
+              value={state}
+              onChange={(e) => setState(e.target.value)}
+            />
+            <input
+              className={`${inputClass} col-span-3`}
+              placeholder="ZIP"
+              value={zip}
+              onChange={(e) => setZip(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg text-xs font-bold uppercase text-slate-400 hover:text-slate-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className={`px-4 py-2 rounded-lg text-xs font-bold uppercase flex items-center gap-1 ${
+              canSave ? 'bg-red-600 hover:bg-red-700 text-white' : 'bg-slate-800 text-slate-600 cursor-not-allowed'
+            }`}
+          >
+            <Check className="w-4 h-4" />
+            Save Location
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocationPicker;
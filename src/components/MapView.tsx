@@ -2,6 +2,8 @@ import React, { useEffect, useRef } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { DamageReport, DamageSeverity } from '../types';
+import { formatAddress } from '../services/locationService';
+import { finalSeverity } from '../services/reviewService';
 
 interface MapViewProps {
   reports: DamageReport[];
@@ -52,7 +54,7 @@ export const MapView: React.FC<MapViewProps> = ({ reports }) => {
     reports.forEach(report => {
       if (!report.location.lat || !report.location.lng) return;
 
-      const severity = report.analysis?.overallSeverity || DamageSeverity.NO_VISIBLE_DAMAGE;
+      const severity = finalSeverity(report) || DamageSeverity.NO_VISIBLE_DAMAGE;
       const color = SEVERITY_COLORS[severity];
 
       // Create custom icon
@@ -114,7 +116,7 @@ export const MapView: React.FC<MapViewProps> = ({ reports }) => {
             font-weight: 700;
             color: #f1f5f9;
           ">
-            ${report.location.address}
+            ${formatAddress(report.location)}
           </h3>
           <p style="
             margin: 0 0 12px 0;
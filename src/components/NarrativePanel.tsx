@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { FileText, Sparkles, Loader2, AlertTriangle } from 'lucide-react';
+import { CaseNarrative, ChangeContext, DamageReport, Incident } from '../types';
+import {
+  approveNarrative,
+  buildNarrative,
+  describeNarrativeApproval,
+  draftNarrativeWithAI,
+  isNarrativeStale,
+} from '../services/narrativeService';
+
+interface NarrativePanelProps {
+  report: DamageReport;
+  incident?: Incident;
+  defaultCaseworker: string;
+  onUpdate: (updates: Partial<DamageReport>, context?: ChangeContext) => Promise<unknown>;
+}
+
+const inputClass = 'w-full px-2 py-1.5 bg-slate-900 border border-slate-700 rounded text-xs text-slate-200 focus:outline-none focus:border-red-500';
+
+/**
+ * The case narrative that goes into the PDF. The template is built from the
+ * report's data; an AI draft replaces it only after a caseworker approves it.
+ */
+export const NarrativePanel: React.FC<NarrativePanelProps> = ({ report, incident, defaultCaseworker, onUpdate }) => {
+  const template = useMemo(() => buildNarrative(report, incident), [report, incident]);
+  const stale = isNarrativeStale(report, incident);
+  const approved = report.narrative && !stale ? report.narrative : undefined;
+  const [draft, setDraft] = useState<CaseNarrative | null>(null);
+  const [text, setText] = useState('');
+  const [approver, setApprover] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const requestDraft = async () => {
+    setError(null);
+    setBusy(true);
+    try {
+      const drafted = await draftNarrativeWithAI(report, incident);
+      setDraft(drafted);
+      setText(drafted.text);
+      setApprover(defaultCaseworker);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to draft narrative');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const approve = async () => {
+    if (!draft) return;
+    setError(null);
+    try {
+      const narrative = approveNarrative(draft, text, approver);
+      setBusy(true);
+      await onUpdate({ narrative }, { author: narrative.approvedBy, reason: 'AI case narrative approved' });
+      setDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save narrative');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const withdraw = async () => {
+    setError(null);
+    setBusy(true);
+    try {
+      await onUpdate({ narrative: undefined }, {
+        author: defaultCaseworker || undefined,
+        reason: 'AI case narrative withdrawn; PDF uses the template narrative',
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to withdraw narrative');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-[10px] font-black text-slate-500 uppercase flex items-center gap-1">
+          <FileText className="w-3 h-3" />
+          Case Narrative
+        </p>
+        <div className="flex items-center gap-2">
+          {report.narrative && !draft && (
+            <button
+              onClick={withdraw}
+              disabled={busy}
+              className="px-3 py-1.5 text-slate-400 hover:text-white disabled:opacity-50 text-xs font-bold uppercase"
+            >
+              Use template
+            </button>
+          )}
+          {!draft && (
+            <button
+              onClick={requestDraft}
+              disabled={busy}
+              className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg text-xs font-bold uppercase tracking-widest flex items-center gap-1"
+            >
+              {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+              {report.narrative ? 'Redraft with AI' : 'Draft with AI'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {draft ? (
+        <div className="space-y-2">
+          <p className="text-[10px] text-slate-500">
+            Drafted by {draft.model || 'the AI provider'} from the facts below. Check it against the report and correct it
+            before approving; it is not used in the PDF until then.
+          </p>
+          <textarea value={text} onChange={e => setText(e.target.value)} rows={6} className={inputClass} />
+          <details className="text-[10px] text-slate-500">
+            <summary className="cursor-pointer uppercase font-bold">Facts given to the model</summary>
+            <ul className="list-disc pl-4 mt-1 space-y-0.5">
+              {draft.facts.map((fact, i) => <li key={i}>{fact}</li>)}
+            </ul>
+          </details>
+          <div className="flex flex-wrap items-end justify-end gap-2">
+            <label className="text-[10px] text-slate-500 uppercase flex-1 min-w-[12rem]">
+              Approved by
+              <input value={approver} onChange={e => setApprover(e.target.value)} className={inputClass} />
+            </label>
+            <button onClick={() => setDraft(null)} className="px-3 py-1.5 text-slate-400 hover:text-white text-xs font-bold uppercase">
+              Discard
+            </button>
+            <button
+              onClick={approve}
+              disabled={busy}
+              className="px-3 py-1.5 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white rounded-lg text-xs font-bold uppercase flex items-center gap-1"
+            >
+              {busy && <Loader2 className="w-3 h-3 animate-spin" />}
+              Approve
+            </button>
+          </div>
+        </div>
+      ) : approved ? (
+        <div>
+          <p className="text-xs text-slate-300 whitespace-pre-line">{approved.text}</p>
+          <p className="text-[10px] text-slate-500 mt-1">{describeNarrativeApproval(approved)}</p>
+        </div>
+      ) : (
+        <div>
+          {stale && (
+            <p className="text-xs text-amber-400 flex items-start gap-1 mb-2">
+              <AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" />
+              The report changed after the AI narrative was approved.
+              The PDF uses the template below until a new draft is approved.
+            </p>
+          )}
+          <p className="text-xs text-slate-300">{template}</p>
+          <p className="text-[10px] text-slate-500 mt-1">Built from the report's recorded data</p>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default NarrativePanel;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Home, Loader2 } from 'lucide-react';
+import { ChangeContext, DamageReport, Ownership } from '../types';
+import { OWNERSHIP_LABELS, describeOccupancy, recordOccupancy } from '../services/occupancyService';
+
+interface OccupancyPanelProps {
+  report: DamageReport;
+  defaultCaseworker: string;
+  onUpdate: (updates: Partial<DamageReport>, context?: ChangeContext) => Promise<unknown>;
+}
+
+const inputClass = 'w-full px-2 py-1.5 bg-slate-900 border border-slate-700 rounded text-xs text-slate-200 focus:outline-none focus:border-red-500';
+
+// <select> values for a yes/no question that may not have been asked
+const toChoice = (value?: boolean) => (value === undefined ? '' : value ? 'yes' : 'no');
+const fromChoice = (choice: string) => (choice === '' ? undefined : choice === 'yes');
+
+const YesNoSelect: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <label className="text-[10px] text-slate-500 uppercase">
+    {label}
+    <select value={value} onChange={e => onChange(e.target.value)} className={inputClass}>
+      <option value="">Not asked</option>
+      <option value="yes">Yes</option>
+      <option value="no">No</option>
+    </select>
+  </label>
+);
+
+/**
+ * Owner/renter, primary residence and insurance status as told to the
+ * caseworker. Feeds the PDA roll-up and the case PDF.
+ */
+export const OccupancyPanel: React.FC<OccupancyPanelProps> = ({ report, defaultCaseworker, onUpdate }) => {
+  const saved = report.occupancy;
+  const [editing, setEditing] = useState(false);
+  const [ownership, setOwnership] = useState('');
+  const [primaryResidence, setPrimaryResidence] = useState('');
+  const [homeownersInsurance, setHomeownersInsurance] = useState('');
+  const [floodInsurance, setFloodInsurance] = useState('');
+  const [caseworker, setCaseworker] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const start = () => {
+    setOwnership(saved?.ownership || '');
+    setPrimaryResidence(toChoice(saved?.primaryResidence));
+    setHomeownersInsurance(toChoice(saved?.homeownersInsurance));
+    setFloodInsurance(toChoice(saved?.floodInsurance));
+    setCaseworker(saved?.recordedBy || defaultCaseworker);
+    setError(null);
+    setEditing(true);
+  };
+
+  const save = async () => {
+    setError(null);
+    try {
+      const occupancy = recordOccupancy({
+        ownership: (ownership || undefined) as Ownership | undefined,
+        primaryResidence: fromChoice(primaryResidence),
+        homeownersInsurance: fromChoice(homeownersInsurance),
+        floodInsurance: fromChoice(floodInsurance),
+        recordedBy: caseworker,
+      });
+      setSaving(true);
+      await onUpdate({ occupancy }, {
+        author: occupancy.recordedBy,
+        reason: saved ? 'Occupancy and insurance updated' : 'Occupancy and insurance recorded',
+      });
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save occupancy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <div className="bg-slate-800/50 p-4 rounded-lg">
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-[10px] font-black text-slate-500 uppercase flex items-center gap-1">
+            <Home className="w-3 h-3" />
+            Occupancy &amp; Insurance
+          </p>
+          <button
+            onClick={start}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-xs font-bold uppercase tracking-widest"
+          >
+            {saved ? 'Edit' : 'Record'}
+          </button>
+        </div>
+        <p className={`text-xs mt-2 ${saved ? 'text-slate-300' : 'text-slate-500'}`}>
+          {saved ? describeOccupancy(saved) : 'Not recorded. Ask whether the household owns or rents, lives here full time and is insured.'}
+        </p>
+        {saved && (
+          <p className="text-[10px] text-slate-500 mt-1">
+            {saved.recordedBy} · {new Date(saved.recordedAt).toLocaleString()}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-lg space-y-3">
+      <p className="text-[10px] font-black text-slate-500 uppercase flex items-center gap-1">
+        <Home className="w-3 h-3" />
+        Occupancy &amp; Insurance
+      </p>
+      <div className="grid sm:grid-cols-4 gap-2">
+        <label className="text-[10px] text-slate-500 uppercase">
+          Owner or renter
+          <select value={ownership} onChange={e => setOwnership(e.target.value)} className={inputClass}>
+            <option value="">Not asked</option>
+            {(Object.keys(OWNERSHIP_LABELS) as Ownership[]).map(value => (
+              <option key={value} value={value}>{OWNERSHIP_LABELS[value]}</option>
+            ))}
+          </select>
+        </label>
+        <YesNoSelect label="Primary residence" value={primaryResidence} onChange={setPrimaryResidence} />
+        <YesNoSelect
+          label={ownership === 'RENTER' ? 'Renters insurance' : 'Homeowners insurance'}
+          value={homeownersInsurance}
+          onChange={setHomeownersInsurance}
+        />
+        <YesNoSelect label="Flood insurance" value={floodInsurance} onChange={setFloodInsurance} />
+        <label className="text-[10px] text-slate-500 uppercase sm:col-span-2">
+          Caseworker
+          <input value={caseworker} onChange={e => setCaseworker(e.target.value)} className={inputClass} />
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex items-center justify-end gap-2">
+        <button onClick={() => setEditing(false)} className="px-3 py-1.5 text-slate-400 hover:text-white text-xs font-bold uppercase">
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          disabled={saving}
+          className="px-3 py-1.5 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white rounded-lg text-xs font-bold uppercase flex items-center gap-1"
+        >
+          {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OccupancyPanel;
@@ -0,0 +1,179 @@
+import React, { useMemo } from 'react';
+import { FileSpreadsheet, Printer, Download, AlertTriangle } from 'lucide-react';
+import { DamageReport, Incident } from '../types';
+import {
+  HOME_TYPE_LABELS,
+  PDA_SEVERITIES,
+  PDA_SEVERITY_LABELS,
+  PdaCountyRollup,
+  UNRECORDED_COUNTY,
+  buildPdaRollup,
+  rollupFileName,
+  rollupSheets,
+  rollupTable,
+} from '../services/pdaRollupService';
+import { CSV_MIME, XLSX_MIME, toCsv, toXlsx } from '../services/spreadsheetService';
+import { describeIncident } from '../services/incidentService';
+import { ownershipLabel } from '../services/occupancyService';
+
+interface PdaSummaryProps {
+  reports: DamageReport[];
+  incident?: Incident;
+}
+
+function download(data: BlobPart, type: string, filename: string): void {
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const cellClass = 'py-2 px-3 text-right tabular-nums';
+
+const CountyRows: React.FC<{ county: PdaCountyRollup }> = ({ county }) => (
+  <>
+    {county.rows.map((row, i) => (
+      <tr key={`${row.homeType}:${row.ownership}`} className="border-b border-slate-800/50 print:border-slate-300">
+        <td className="py-2 px-3 font-semibold text-white print:text-black">
+          {i === 0 && (
+            <span className="flex items-center gap-1">
+              {county.county}
+              {!county.designated && county.county !== UNRECORDED_COUNTY && (
+                <span title="Not on the incident's declaration">
+                  <AlertTriangle className="w-3 h-3 text-amber-400 print:hidden" />
+                </span>
+              )}
+            </span>
+          )}
+        </td>
+        <td className="py-2 px-3 text-slate-400 print:text-black">{HOME_TYPE_LABELS[row.homeType]}</td>
+        <td className={`py-2 px-3 print:text-black ${row.ownership ? 'text-slate-400' : 'text-slate-600'}`}>{ownershipLabel(row.ownership)}</td>
+        {PDA_SEVERITIES.map(severity => (
+          <td key={severity} className={`${cellClass} text-slate-300 print:text-black`}>{row.counts[severity] || ''}</td>
+        ))}
+        <td className={`${cellClass} text-slate-300 print:text-black`}>{row.total}</td>
+      </tr>
+    ))}
+    <tr className="border-b border-slate-700 bg-slate-800/40 print:bg-transparent print:border-slate-500">
+      <td />
+      <td className="py-2 px-3 text-[10px] font-bold text-slate-500 uppercase print:text-black" colSpan={2}>County total</td>
+      {PDA_SEVERITIES.map(severity => (
+        <td key={severity} className={`${cellClass} font-bold text-white print:text-black`}>{county.totals[severity]}</td>
+      ))}
+      <td className={`${cellClass} font-bold text-white print:text-black`}>{county.total}</td>
+    </tr>
+  </>
+);
+
+/**
+ * FEMA PDA county roll-up for the active incident, with spreadsheet
+ * exports and a print layout.
+ */
+export const PdaSummary: React.FC<PdaSummaryProps> = ({ reports, incident }) => {
+  const rollup = useMemo(() => buildPdaRollup(reports, incident), [reports, incident]);
+  const fileName = rollupFileName(rollup);
+  const undesignated = incident && incident.counties.length > 0
+    ? rollup.counties.filter(c => !c.designated && c.county !== UNRECORDED_COUNTY)
+    : [];
+  const unrecorded = rollup.counties.find(c => c.county === UNRECORDED_COUNTY);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-black text-white uppercase tracking-widest flex items-center gap-2 print:text-black">
+            <FileSpreadsheet className="w-4 h-4 text-red-500 print:hidden" />
+            PDA Summary by County
+          </h2>
+          <p className="text-xs text-slate-500 mt-1 print:text-black">
+            {incident ? describeIncident(incident) : 'No incident selected'}
+            {' · '}generated {new Date(rollup.generatedAt).toLocaleString()}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 print:hidden">
+          <button
+            onClick={() => download(toCsv(rollupTable(rollup)), CSV_MIME, `${fileName}.csv`)}
+            disabled={rollup.total === 0}
+            className="px-3 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-slate-200 rounded-lg text-xs font-bold uppercase flex items-center gap-1"
+          >
+            <Download className="w-3.5 h-3.5" />
+            CSV
+          </button>
+          <button
+            onClick={() => download(toXlsx(rollupSheets(rollup)), XLSX_MIME, `${fileName}.xlsx`)}
+            disabled={rollup.total === 0}
+            className="px-3 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-slate-200 rounded-lg text-xs font-bold uppercase flex items-center gap-1"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Excel
+          </button>
+          <button
+            onClick={() => window.print()}
+            disabled={rollup.total === 0}
+            className="px-3 py-2 bg-red-600 hover:bg-red-700 disabled:opacity-40 text-white rounded-lg text-xs font-bold uppercase flex items-center gap-1"
+          >
+            <Printer className="w-3.5 h-3.5" />
+            Print
+          </button>
+        </div>
+      </div>
+
+      {(undesignated.length > 0 || unrecorded) && (
+        <div className="space-y-1 print:hidden">
+          {undesignated.length > 0 && (
+            <p className="text-xs text-amber-400">
+              Reports in counties not on the declaration: {undesignated.map(c => c.county).join(', ')}.
+            </p>
+          )}
+          {unrecorded && (
+            <p className="text-xs text-amber-400">
+              {unrecorded.total} report{unrecorded.total === 1 ? ' has' : 's have'} no county. Set it from the report's location in History.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="bg-slate-900 rounded-xl border border-slate-800 p-4 overflow-x-auto print:bg-white print:border-slate-400 print:p-0">
+        {rollup.total > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500 text-[10px] uppercase tracking-widest border-b border-slate-700 print:text-black print:border-slate-500">
+                <th className="py-2 px-3">County</th>
+                <th className="py-2 px-3">Home type</th>
+                <th className="py-2 px-3">Occupancy</th>
+                {PDA_SEVERITIES.map(severity => (
+                  <th key={severity} className="py-2 px-3 text-right">{PDA_SEVERITY_LABELS[severity]}</th>
+                ))}
+                <th className="py-2 px-3 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rollup.counties.map(county => <CountyRows key={county.county} county={county} />)}
+            </tbody>
+            <tfoot>
+              <tr className="text-white print:text-black">
+                <td className="py-3 px-3 font-black uppercase text-xs" colSpan={3}>All counties</td>
+                {PDA_SEVERITIES.map(severity => (
+                  <td key={severity} className={`${cellClass} font-black`}>{rollup.totals[severity]}</td>
+                ))}
+                <td className={`${cellClass} font-black`}>{rollup.total}</td>
+              </tr>
+            </tfoot>
+          </table>
+        ) : (
+          <p className="text-slate-500 text-center py-8">No graded residences to count for this incident yet.</p>
+        )}
+      </div>
+
+      <p className="text-[10px] text-slate-500 print:text-black">
+        Counts use the supervisor's grade where a report was reviewed. Not counted: {rollup.excluded.noVisibleDamage} with
+        no visible damage, {rollup.excluded.ungraded} not graded.
+      </p>
+    </div>
+  );
+};
+
+export default PdaSummary;
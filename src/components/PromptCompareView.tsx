@@ -0,0 +1,302 @@
+import React, { useState, useRef } from 'react';
+import { GitCompare, Play, Square, Loader2, Download, AlertTriangle, ArrowUp, ArrowDown } from 'lucide-react';
+import { AnalysisProviderId, DamageReport, DamageSeverity } from '../types';
+import { getProviders, getActiveProvider } from '../services/providers';
+import { getActivePromptVersion, getPromptTemplates } from '../services/prompts';
+import { comparePromptVersions, ComparedGrade, PromptComparison, severityShift, summarizeComparison } from '../services/prompts/compare';
+import { finalSeverity } from '../services/reviewService';
+import { formatAddress } from '../services/locationService';
+
+interface PromptCompareViewProps {
+  reports: DamageReport[];
+}
+
+const SEVERITY_TEXT: Record<DamageSeverity, string> = {
+  [DamageSeverity.INACCESSIBLE]: 'text-purple-400',
+  [DamageSeverity.DESTROYED]: 'text-red-400',
+  [DamageSeverity.MAJOR]: 'text-orange-400',
+  [DamageSeverity.MINOR]: 'text-yellow-400',
+  [DamageSeverity.AFFECTED]: 'text-blue-400',
+  [DamageSeverity.NO_VISIBLE_DAMAGE]: 'text-slate-400',
+  [DamageSeverity.UNKNOWN]: 'text-gray-400',
+};
+
+const DEFAULT_MAX_REPORTS = 10;
+
+const GradeSummary: React.FC<{ grade?: ComparedGrade; other?: ComparedGrade }> = ({ grade, other }) => {
+  if (!grade) return <span className="text-slate-600">—</span>;
+  const differs = (field: keyof ComparedGrade) => other !== undefined && grade[field] !== other[field];
+  return (
+    <div>
+      <span className={`font-bold ${SEVERITY_TEXT[grade.overallSeverity]}`}>{grade.overallSeverity.replace(/_/g, ' ')}</span>
+      <span className="text-slate-500 ml-1">{grade.confidence}%</span>
+      <p className="text-[10px] text-slate-500">
+        <span className={differs('homeType') ? 'text-amber-400' : ''}>{grade.homeType || '—'}</span>
+        {' · '}
+        <span className={differs('incidentType') ? 'text-amber-400' : ''}>{grade.incidentType || '—'}</span>
+      </p>
+    </div>
+  );
+};
+
+/**
+ * A/B comparison of two prompt versions: grades the same reports with both
+ * and lists where the severities disagree. Stored analyses are not changed.
+ */
+export const PromptCompareView: React.FC<PromptCompareViewProps> = ({ reports }) => {
+  const templates = getPromptTemplates();
+  const activeVersion = getActivePromptVersion();
+  const [versionA, setVersionA] = useState(activeVersion);
+  const [versionB, setVersionB] = useState(templates.find(t => t.version !== activeVersion)?.version || activeVersion);
+  const [providerId, setProviderId] = useState<AnalysisProviderId>(getActiveProvider().id);
+  const [reviewedOnly, setReviewedOnly] = useState(false);
+  const [maxReports, setMaxReports] = useState(DEFAULT_MAX_REPORTS);
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+  const [comparison, setComparison] = useState<PromptComparison | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const candidates = reports.filter(r => r.analysis && (!reviewedOnly || r.review)).slice(0, maxReports);
+  const reportsById = new Map(reports.map(r => [r.id, r]));
+  const summary = comparison ? summarizeComparison(comparison) : null;
+  const rows = comparison?.rows.filter(row => !differencesOnly || row.error || row.a?.overallSeverity !== row.b?.overallSeverity) || [];
+
+  const handleRun = async () => {
+    setError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: candidates.length });
+    try {
+      setComparison(await comparePromptVersions(candidates, versionA, versionB, providerId, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Comparison failed');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!comparison) return;
+    const blob = new Blob([JSON.stringify(comparison, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `prompt-comparison-${comparison.versionA}-vs-${comparison.versionB}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const versionSelect = (label: string, value: string, onChange: (version: string) => void) => (
+    <label className="block text-[10px] text-slate-500 uppercase">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="mt-1 w-full px-2 py-2 bg-slate-800 border border-slate-700 rounded text-xs text-slate-200 normal-case"
+      >
+        {templates.map(t => (
+          <option key={t.version} value={t.version}>
+            {t.version}{t.version === activeVersion ? ' (active)' : ''}
+          </option>
+        ))}
+      </select>
+      <span className="block mt-1 normal-case text-slate-600">{templates.find(t => t.version === value)?.description}</span>
+    </label>
+  );
+
+  return (
+    <div className="grid lg:grid-cols-3 gap-6">
+      {/* Setup */}
+      <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 space-y-4">
+        <h2 className="text-sm font-black text-slate-100 uppercase tracking-widest flex items-center gap-2">
+          <GitCompare className="w-4 h-4 text-red-500" />
+          Prompt A/B
+        </h2>
+
+        {versionSelect('Version A', versionA, setVersionA)}
+        {versionSelect('Version B', versionB, setVersionB)}
+
+        <label className="block text-[10px] text-slate-500 uppercase">
+          Provider
+          <select
+            value={providerId}
+            onChange={(e) => setProviderId(e.target.value as AnalysisProviderId)}
+            className="mt-1 w-full px-2 py-2 bg-slate-800 border border-slate-700 rounded text-xs text-slate-200"
+          >
+            {getProviders().map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="flex items-center justify-between gap-3 text-xs text-slate-300">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={reviewedOnly}
+              onChange={(e) => setReviewedOnly(e.target.checked)}
+              className="accent-red-600"
+            />
+            Reviewed reports only
+          </label>
+          <label className="flex items-center gap-2">
+            Max
+            <input
+              type="number"
+              min={1}
+              value={maxReports}
+              onChange={(e) => setMaxReports(Math.max(1, Number(e.target.value) || 1))}
+              className="w-16 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-slate-200"
+            />
+          </label>
+        </div>
+        <p className="text-[10px] text-slate-500">
+          {candidates.length} most recent report{candidates.length === 1 ? '' : 's'}, two model calls each (fewer when cached)
+        </p>
+
+        {progress ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="w-full py-3 bg-slate-700 hover:bg-slate-600 text-white rounded-lg font-bold text-xs uppercase flex items-center justify-center gap-2"
+          >
+            <Loader2 className="w-4 h-4 animate-spin" />
+            {progress.done}/{progress.total} · Stop after current
+            <Square className="w-3 h-3" />
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            disabled={candidates.length === 0 || versionA === versionB}
+            className="w-full py-3 bg-red-600 hover:bg-red-700 text-white rounded-lg font-bold text-xs uppercase flex items-center justify-center gap-2 disabled:bg-slate-800 disabled:text-slate-600"
+          >
+            <Play className="w-4 h-4" />
+            Compare
+          </button>
+        )}
+
+        {error && (
+          <p className="text-xs text-red-400 flex items-center gap-1">
+            <AlertTriangle className="w-3 h-3" />
+            {error}
+          </p>
+        )}
+      </div>
+
+      {/* Results */}
+      <div className="lg:col-span-2 bg-slate-900 rounded-xl border border-slate-800 p-6 space-y-4">
+        {!comparison || !summary ? (
+          <p className="text-sm text-slate-500">
+            Pick two prompt versions and compare them on the same reports. Any prompt change must still pass the
+            evaluation gate before it becomes the active version.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-slate-400">
+                <span className="font-mono text-slate-200">{comparison.versionA}</span> vs{' '}
+                <span className="font-mono text-slate-200">{comparison.versionB}</span> · {comparison.provider} ·{' '}
+                {new Date(comparison.startedAt).toLocaleString()}
+              </p>
+              <button onClick={handleDownload} className="p-2 text-slate-400 hover:text-white" title="Download comparison">
+                <Download className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {[
+                { label: 'Compared', value: summary.compared },
+                { label: 'Severity differs', value: summary.severityDiffers },
+                { label: 'Higher in B', value: summary.higherInB },
+                { label: 'Lower in B', value: summary.lowerInB },
+                { label: 'Failed', value: summary.errors },
+              ].map(tile => (
+                <div key={tile.label} className="p-3 bg-slate-800/50 rounded-lg">
+                  <p className="text-[10px] font-black text-slate-500 uppercase">{tile.label}</p>
+                  <p className="text-xl font-black text-white">{tile.value}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-500">
+              Home type differs on {summary.homeTypeDiffers}, incident type on {summary.incidentTypeDiffers}
+            </p>
+
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                checked={differencesOnly}
+                onChange={(e) => setDifferencesOnly(e.target.checked)}
+                className="accent-red-600"
+              />
+              Show severity differences only
+            </label>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-[10px] text-slate-500 uppercase">
+                    <th className="px-3 py-2">Report</th>
+                    <th className="px-3 py-2">Current grade</th>
+                    <th className="px-3 py-2">A</th>
+                    <th className="px-3 py-2">B</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => {
+                    const report = reportsById.get(row.reportId);
+                    const current = report && finalSeverity(report);
+                    const shift = severityShift(row);
+                    return (
+                      <tr key={row.reportId} className={`border-t border-slate-800 ${shift !== 0 ? 'bg-amber-500/5' : ''}`}>
+                        <td className="px-3 py-2">
+                          <div className="flex items-center gap-2">
+                            {report && <img src={report.imageData} alt="" className="w-10 h-10 rounded object-cover border border-slate-700" />}
+                            <div>
+                              <p className="text-slate-200">{report ? formatAddress(report.location) : row.reportId}</p>
+                              <p className="text-[10px] font-mono text-slate-600">{row.reportId}</p>
+                            </div>
+                          </div>
+                        </td>
+                        <td className="px-3 py-2">
+                          {current ? (
+                            <span className={SEVERITY_TEXT[current]}>
+                              {current.replace(/_/g, ' ')}
+                              {report?.review && <span className="text-slate-500"> (reviewed)</span>}
+                            </span>
+                          ) : '—'}
+                        </td>
+                        {row.error ? (
+                          <td colSpan={2} className="px-3 py-2 text-red-400">{row.error}</td>
+                        ) : (
+                          <>
+                            <td className="px-3 py-2">
+                              <GradeSummary grade={row.a} other={row.b} />
+                            </td>
+                            <td className="px-3 py-2">
+                              <div className="flex items-start gap-1">
+                                {shift > 0 && <ArrowUp className="w-3 h-3 text-orange-400 mt-0.5" />}
+                                {shift < 0 && <ArrowDown className="w-3 h-3 text-blue-400 mt-0.5" />}
+                                <GradeSummary grade={row.b} other={row.a} />
+                              </div>
+                            </td>
+                          </>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {rows.length === 0 && <p className="text-xs text-slate-500 mt-2">No severity differences.</p>}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptCompareView;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { RefreshCw, Loader2, Database } from 'lucide-react';
+import { DamageReport } from '../types';
+import { formatChangeValue } from '../services/auditService';
+
+interface ReanalyzePanelProps {
+  report: DamageReport;
+  onReanalyze: () => Promise<unknown>;
+}
+
+/**
+ * Forces a fresh model call for a report (the response cache is bypassed)
+ * and shows what the new answer changed compared to the previous one.
+ */
+export const ReanalyzePanel: React.FC<ReanalyzePanelProps> = ({ report, onReanalyze }) => {
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const last = report.reanalysis;
+
+  const reanalyze = async () => {
+    const reviewNote = report.review ? ' A supervisor review is cleared if the grade changes.' : '';
+    if (!confirm(`Ask the model again, ignoring the cached answer?${reviewNote}`)) return;
+    setError(null);
+    setRunning(true);
+    try {
+      await onReanalyze();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Re-analysis failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-lg">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-[10px] font-black text-slate-500 uppercase flex items-center gap-1">
+          <Database className="w-3 h-3" />
+          {report.analysis?.cached ? 'Answer served from response cache' : 'Answer from a live model call'}
+          {report.analysis?.model && <span className="font-mono normal-case text-slate-600 ml-1">{report.analysis.model}</span>}
+          {report.analysis?.promptVersion && <span className="font-mono normal-case text-slate-600 ml-1">· {report.analysis.promptVersion}</span>}
+        </p>
+        <button
+          onClick={reanalyze}
+          disabled={running}
+          className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg text-xs font-bold uppercase tracking-widest flex items-center gap-1.5"
+        >
+          {running ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+          Re-analyze
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+
+      {last && (
+        <div className="mt-3 border-l-2 border-slate-700 pl-3">
+          <p className="text-[11px] text-slate-400">
+            Re-analyzed {new Date(last.at).toLocaleString()}
+            {last.previousModel && <span className="text-slate-500"> (previous answer: {last.previousModel})</span>}
+            {last.changes.length === 0 && <span className="text-emerald-400"> — same answer</span>}
+          </p>
+          {last.changes.length > 0 && (
+            <ul className="mt-1 space-y-0.5 max-h-48 overflow-y-auto">
+              {last.changes.map(change => (
+                <li key={change.path} className="text-[11px] text-slate-400 font-mono break-all">
+                  {change.path}:{' '}
+                  <span className="text-red-400/80 line-through">{formatChangeValue(change.before)}</span>{' '}
+                  <span className="text-emerald-400/90">{formatChangeValue(change.after)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReanalyzePanel;
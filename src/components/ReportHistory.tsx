@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { History, RotateCcw, Loader2 } from 'lucide-react';
+import { ChangeContext, DamageReport, ReportChange, ReportChangeAction } from '../types';
+import { getReportChanges } from '../services/storageService';
+import { formatChangeValue } from '../services/auditService';
+
+interface ReportHistoryProps {
+  report: DamageReport;
+  onRestore: (version: number, context: ChangeContext) => Promise<unknown>;
+}
+
+const ACTION_STYLES: Record<ReportChangeAction, string> = {
+  created: 'bg-emerald-500/20 text-emerald-400',
+  imported: 'bg-blue-500/20 text-blue-400',
+  updated: 'bg-slate-700 text-slate-300',
+  restored: 'bg-amber-500/20 text-amber-400',
+  deleted: 'bg-red-500/20 text-red-400',
+  merged: 'bg-purple-500/20 text-purple-400',
+};
+
+/**
+ * Version history of a report from the audit log, newest first, with
+ * restore for any earlier version.
+ */
+export const ReportHistory: React.FC<ReportHistoryProps> = ({ report, onRestore }) => {
+  const [log, setLog] = useState<ReportChange[] | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the report is written
+  useEffect(() => {
+    getReportChanges(report.id)
+      .then(setLog)
+      .catch(err => {
+        console.error('Failed to load report history:', err);
+        setError('Failed to load history');
+      });
+  }, [report.id, report.updatedAt]);
+
+  const latestVersion = log?.[log.length - 1]?.version;
+
+  const restore = async (version: number) => {
+    const reason = prompt(`Restore version ${version}? Enter a reason for the case file:`);
+    if (reason === null) return;
+    if (!reason.trim()) {
+      setError('A reason is required to restore a version');
+      return;
+    }
+    setError(null);
+    setRestoring(version);
+    try {
+      await onRestore(version, { reason: reason.trim() });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-lg">
+      <p className="text-[10px] font-black text-slate-500 uppercase mb-3 flex items-center gap-1">
+        <History className="w-3 h-3" />
+        Version History
+      </p>
+
+      {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+
+      {log === null ? (
+        <Loader2 className="w-4 h-4 text-slate-500 animate-spin" />
+      ) : log.length === 0 ? (
+        <p className="text-xs text-slate-500">No changes recorded. This report predates the audit trail.</p>
+      ) : (
+        <div className="space-y-3 max-h-72 overflow-y-auto">
+          {[...log].reverse().map(entry => (
+            <div key={entry.id} className="border-l-2 border-slate-700 pl-3">
+              <div className="flex items-center gap-2 text-[10px]">
+                <span className="font-mono text-slate-400">v{entry.version}</span>
+                <span className={`font-bold px-1.5 py-0.5 rounded uppercase ${ACTION_STYLES[entry.action]}`}>{entry.action}</span>
+                <span className="text-slate-300">{entry.author}</span>
+                <span className="text-slate-500">{new Date(entry.at).toLocaleString()}</span>
+                {entry.version !== latestVersion && (
+                  <button
+                    onClick={() => restore(entry.version)}
+                    disabled={restoring !== null}
+                    className="ml-auto flex items-center gap-1 text-blue-400 hover:text-blue-300 uppercase disabled:opacity-50"
+                  >
+                    {restoring === entry.version ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                    Restore
+                  </button>
+                )}
+              </div>
+              {entry.reason && <p className="text-xs text-slate-400 italic mt-1">{entry.reason}</p>}
+              {entry.changes.length > 0 && (
+                <ul className="mt-1 space-y-0.5">
+                  {entry.changes.map(change => (
+                    <li key={change.path} className="text-[11px] text-slate-400 font-mono break-all">
+                      {change.path}:{' '}
+                      <span className="text-red-400/80 line-through">{formatChangeValue(change.before)}</span>{' '}
+                      <span className="text-emerald-400/90">{formatChangeValue(change.after)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportHistory;
@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, UserCheck, PenLine } from 'lucide-react';
+import { ChangeContext, DamageReport, DamageSeverity, HomeType, IncidentType } from '../types';
+import { acceptAnalysis, finalHomeType, finalIncidentType, finalSeverity, overrideAnalysis } from '../services/reviewService';
+
+const SEVERITY_TEXT: Record<DamageSeverity, string> = {
+  [DamageSeverity.INACCESSIBLE]: 'text-purple-400',
+  [DamageSeverity.DESTROYED]: 'text-red-400',
+  [DamageSeverity.MAJOR]: 'text-orange-400',
+  [DamageSeverity.MINOR]: 'text-yellow-400',
+  [DamageSeverity.AFFECTED]: 'text-blue-400',
+  [DamageSeverity.NO_VISIBLE_DAMAGE]: 'text-slate-400',
+  [DamageSeverity.UNKNOWN]: 'text-gray-400',
+};
+
+interface ReviewPanelProps {
+  report: DamageReport;
+  defaultReviewer: string;
+  onUpdate: (updates: Partial<DamageReport>, context?: ChangeContext) => Promise<unknown>;
+  reasonRef?: React.Ref<HTMLTextAreaElement>; // Lets keyboard triage jump to the override reason
+}
+
+const selectClass = 'w-full px-2 py-1.5 bg-slate-900 border border-slate-700 rounded text-xs text-slate-200 focus:outline-none focus:border-red-500';
+
+/**
+ * Accept or override the AI analysis of a report. Shows the recorded
+ * decision once there is one, with the AI values struck through.
+ */
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({ report, defaultReviewer, onUpdate, reasonRef }) => {
+  const analysis = report.analysis!;
+  const review = report.review;
+  const [editing, setEditing] = useState(false);
+  const [reviewer, setReviewer] = useState(review?.reviewer || defaultReviewer);
+  const [severity, setSeverity] = useState(finalSeverity(report) || analysis.overallSeverity);
+  const [homeType, setHomeType] = useState(finalHomeType(report) || analysis.homeType);
+  const [incidentType, setIncidentType] = useState(finalIncidentType(report) || analysis.incidentType);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Settings load after the card can already be open
+  useEffect(() => {
+    setReviewer(current => current || defaultReviewer);
+  }, [defaultReviewer]);
+
+  const save = async (decide: () => NonNullable<DamageReport['review']>) => {
+    setError(null);
+    try {
+      const decision = decide();
+      setSaving(true);
+      await onUpdate({ review: decision }, { author: decision.reviewer, reason: decision.reason || 'Accepted AI analysis' });
+      setEditing(false);
+      setReason('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (review && !editing) {
+    const overridden = review.action === 'overridden';
+    return (
+      <div className={`p-4 rounded-lg border ${overridden ? 'bg-amber-500/5 border-amber-500/30' : 'bg-emerald-500/5 border-emerald-500/30'}`}>
+        <div className="flex items-center justify-between mb-2">
+          <p className={`text-[10px] font-black uppercase flex items-center gap-1 ${overridden ? 'text-amber-400' : 'text-emerald-400'}`}>
+            {overridden ? <PenLine className="w-3 h-3" /> : <UserCheck className="w-3 h-3" />}
+            {overridden ? 'Overridden' : 'Accepted'} by {review.reviewer} · {new Date(review.reviewedAt).toLocaleString()}
+          </p>
+          <button onClick={() => setEditing(true)} className="text-[10px] text-slate-400 hover:text-slate-200 uppercase">
+            Change review
+          </button>
+        </div>
+        {overridden && (
+          <div className="space-y-1 text-xs">
+            {review.overallSeverity && (
+              <p className="text-slate-300">
+                Severity: <span className="line-through text-slate-500">{analysis.overallSeverity.replace(/_/g, ' ')}</span>{' '}
+                <span className={`font-bold ${SEVERITY_TEXT[review.overallSeverity]}`}>{review.overallSeverity.replace(/_/g, ' ')}</span>
+              </p>
+            )}
+            {review.homeType && (
+              <p className="text-slate-300">
+                Home type: <span className="line-through text-slate-500">{analysis.homeType}</span> {review.homeType}
+              </p>
+            )}
+            {review.incidentType && (
+              <p className="text-slate-300">
+                Incident: <span className="line-through text-slate-500">{analysis.incidentType.replace(/_/g, ' ')}</span>{' '}
+                {review.incidentType.replace(/_/g, ' ')}
+              </p>
+            )}
+            <p className="text-slate-400 italic">Reason: {review.reason}</p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-lg space-y-3">
+      <p className="text-[10px] font-black text-slate-500 uppercase flex items-center gap-1">
+        <UserCheck className="w-3 h-3" />
+        Supervisor Review
+      </p>
+
+      <div className="grid sm:grid-cols-4 gap-2">
+        <label className="text-[10px] text-slate-500 uppercase">
+          Reviewer
+          <input value={reviewer} onChange={(e) => setReviewer(e.target.value)} placeholder="Your name" className={selectClass} />
+        </label>
+        <label className="text-[10px] text-slate-500 uppercase">
+          Severity
+          <select value={severity} onChange={(e) => setSeverity(e.target.value as DamageSeverity)} className={selectClass}>
+            {Object.values(DamageSeverity).map(sev => (
+              <option key={sev} value={sev}>{sev.replace(/_/g, ' ')}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-[10px] text-slate-500 uppercase">
+          Home type
+          <select value={homeType} onChange={(e) => setHomeType(e.target.value as HomeType)} className={selectClass}>
+            {Object.values(HomeType).map(type => (
+              <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-[10px] text-slate-500 uppercase">
+          Incident
+          <select value={incidentType} onChange={(e) => setIncidentType(e.target.value as IncidentType)} className={selectClass}>
+            {Object.values(IncidentType).map(type => (
+              <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <textarea
+        ref={reasonRef}
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason for override (required to change the AI grade)"
+        rows={2}
+        className={selectClass}
+      />
+
+      {error && (
+        <p className="text-xs text-red-400 flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => save(() => acceptAnalysis(reviewer))}
+          disabled={saving}
+          className="flex-1 py-2 bg-emerald-600/20 hover:bg-emerald-600/40 text-emerald-400 rounded-lg text-xs font-bold uppercase disabled:opacity-50"
+        >
+          Accept AI analysis
+        </button>
+        <button
+          onClick={() => save(() => overrideAnalysis(report, { reviewer, reason, overallSeverity: severity, homeType, incidentType }))}
+          disabled={saving}
+          className="flex-1 py-2 bg-amber-600/20 hover:bg-amber-600/40 text-amber-400 rounded-lg text-xs font-bold uppercase disabled:opacity-50"
+        >
+          Save override
+        </button>
+        {review && (
+          <button onClick={() => setEditing(false)} className="px-3 py-2 text-xs text-slate-400 hover:text-slate-200">
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,274 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ClipboardCheck, AlertTriangle, Keyboard, MapPin, Calendar } from 'lucide-react';
+import { ChangeContext, DamageReport, DamageSeverity, Incident } from '../types';
+import { getSettings, saveSettings } from '../services/storageService';
+import { acceptAnalysis, buildReviewQueue, DEFAULT_REVIEW_CONFIDENCE_THRESHOLD, ReviewFlagId } from '../services/reviewService';
+import { formatAddress } from '../services/locationService';
+import { ReviewPanel } from './ReviewPanel';
+
+interface ReviewQueueProps {
+  reports: DamageReport[];
+  onUpdate: (id: string, updates: Partial<DamageReport>, context?: ChangeContext) => Promise<unknown>;
+  incident?: Incident; // Reports are all from this incident
+}
+
+const SEVERITY_TEXT: Record<DamageSeverity, string> = {
+  [DamageSeverity.INACCESSIBLE]: 'text-purple-400',
+  [DamageSeverity.DESTROYED]: 'text-red-400',
+  [DamageSeverity.MAJOR]: 'text-orange-400',
+  [DamageSeverity.MINOR]: 'text-yellow-400',
+  [DamageSeverity.AFFECTED]: 'text-blue-400',
+  [DamageSeverity.NO_VISIBLE_DAMAGE]: 'text-slate-400',
+  [DamageSeverity.UNKNOWN]: 'text-gray-400',
+};
+
+const FLAG_STYLES: Record<ReviewFlagId, string> = {
+  blocking_violation: 'bg-red-500/20 text-red-400',
+  rule_disagreement: 'bg-orange-500/20 text-orange-400',
+  detection_exceeds_grade: 'bg-amber-500/20 text-amber-400',
+  unknown_grade: 'bg-gray-500/20 text-gray-300',
+  low_confidence: 'bg-yellow-500/20 text-yellow-400',
+  inaccessible_grade: 'bg-purple-500/20 text-purple-400',
+  incident_type_mismatch: 'bg-sky-500/20 text-sky-400',
+};
+
+const SHORTCUTS = [
+  ['J / ↓', 'Next'],
+  ['K / ↑', 'Previous'],
+  ['A', 'Accept AI grade'],
+  ['O', 'Override (focus reason)'],
+  ['Esc', 'Leave field'],
+];
+
+function isTyping(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable);
+}
+
+export const ReviewQueue: React.FC<ReviewQueueProps> = ({ reports, onUpdate, incident }) => {
+  const [threshold, setThreshold] = useState(DEFAULT_REVIEW_CONFIDENCE_THRESHOLD);
+  const [reviewer, setReviewer] = useState('');
+  // Index rather than id: after a decision the next report slides into place
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const reasonRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    getSettings()
+      .then(settings => {
+        setThreshold(settings.reviewConfidenceThreshold ?? DEFAULT_REVIEW_CONFIDENCE_THRESHOLD);
+        setReviewer(settings.defaultCaseworker || '');
+      })
+      .catch(err => console.error('Failed to load settings:', err));
+  }, []);
+
+  const queue = buildReviewQueue(reports, threshold, incident);
+  const index = Math.min(selectedIndex, Math.max(0, queue.length - 1));
+  const selected = queue[index];
+
+  const changeThreshold = async (value: number) => {
+    const next = Math.min(100, Math.max(0, Math.round(value) || 0));
+    setThreshold(next);
+    try {
+      const settings = await getSettings();
+      await saveSettings({ ...settings, reviewConfidenceThreshold: next });
+    } catch (err) {
+      console.error('Failed to save review threshold:', err);
+    }
+  };
+
+  // Refs keep the window listener stable while the queue changes underneath it
+  const stateRef = useRef({ queue, index, reviewer });
+  useEffect(() => {
+    stateRef.current = { queue, index, reviewer };
+  });
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        (document.activeElement as HTMLElement | null)?.blur();
+        return;
+      }
+      if (isTyping(e.target) || e.metaKey || e.ctrlKey || e.altKey) return;
+
+      const { queue: items, index: current, reviewer: name } = stateRef.current;
+      switch (e.key) {
+        case 'j':
+        case 'ArrowDown':
+          e.preventDefault();
+          setSelectedIndex(Math.min(current + 1, items.length - 1));
+          break;
+        case 'k':
+        case 'ArrowUp':
+          e.preventDefault();
+          setSelectedIndex(Math.max(current - 1, 0));
+          break;
+        case 'a': {
+          const item = items[current];
+          if (!item) return;
+          setError(null);
+          try {
+            const review = acceptAnalysis(name);
+            onUpdate(item.report.id, { review }, { author: review.reviewer, reason: 'Accepted AI analysis' })
+              .catch(() => setError('Failed to save review'));
+          } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to accept');
+          }
+          break;
+        }
+        case 'o':
+          e.preventDefault();
+          reasonRef.current?.focus();
+          break;
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onUpdate]);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-slate-900 rounded-xl border border-slate-800 p-4 flex flex-wrap items-center gap-4">
+        <h2 className="text-sm font-black text-slate-100 uppercase tracking-widest flex items-center gap-2">
+          <ClipboardCheck className="w-4 h-4 text-red-500" />
+          Review Queue ({queue.length})
+        </h2>
+        <label className="text-xs text-slate-400 flex items-center gap-2">
+          Confidence below
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={threshold}
+            onChange={(e) => changeThreshold(Number(e.target.value))}
+            className="w-16 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white text-xs"
+          />
+          %
+        </label>
+        <label className="text-xs text-slate-400 flex items-center gap-2">
+          Reviewer
+          <input
+            value={reviewer}
+            onChange={(e) => setReviewer(e.target.value)}
+            placeholder="Your name"
+            className="w-40 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white text-xs placeholder-slate-500"
+          />
+        </label>
+        <div className="ml-auto flex flex-wrap items-center gap-3 text-[10px] text-slate-500">
+          <Keyboard className="w-4 h-4" />
+          {SHORTCUTS.map(([key, action]) => (
+            <span key={key}>
+              <kbd className="px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 font-mono text-slate-300">{key}</kbd> {action}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-400 flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3" />
+          {error}
+        </p>
+      )}
+
+      {queue.length === 0 ? (
+        <div className="bg-slate-900 rounded-xl border border-slate-800 p-12 text-center">
+          <ClipboardCheck className="w-12 h-12 text-slate-700 mx-auto mb-4" />
+          <p className="text-slate-500 font-bold">Nothing to review</p>
+          <p className="text-slate-600 text-sm mt-1">Low-confidence and flagged analyses appear here until a supervisor decides them</p>
+        </div>
+      ) : (
+        <div className="grid lg:grid-cols-5 gap-6">
+          {/* Queue */}
+          <div className="lg:col-span-2 space-y-2 max-h-[70vh] overflow-y-auto">
+            {queue.map((item, i) => {
+              const analysis = item.report.analysis!;
+              return (
+                <button
+                  key={item.report.id}
+                  onClick={() => setSelectedIndex(i)}
+                  className={`w-full text-left flex gap-3 p-3 rounded-xl border transition-colors ${
+                    i === index ? 'bg-slate-800 border-red-500/60' : 'bg-slate-900 border-slate-800 hover:border-slate-600'
+                  }`}
+                >
+                  <img src={item.report.imageData} alt="" className="w-14 h-14 rounded-lg object-cover shrink-0 border border-slate-700" />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className={`text-xs font-bold ${SEVERITY_TEXT[analysis.overallSeverity]}`}>
+                        {analysis.overallSeverity.replace(/_/g, ' ')}
+                      </span>
+                      <span className="text-[10px] text-slate-500">{analysis.confidence}%</span>
+                    </div>
+                    <p className="text-[10px] text-slate-400 truncate">{formatAddress(item.report.location)}</p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {item.flags.map(flag => (
+                        <span key={flag.id} className={`text-[9px] font-bold px-1.5 py-0.5 rounded uppercase ${FLAG_STYLES[flag.id]}`}>
+                          {flag.label}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Selected report */}
+          {selected && (
+            <div className="lg:col-span-3 bg-slate-900 rounded-xl border border-slate-800 p-4 space-y-4">
+              <img src={selected.report.imageData} alt="Damage" className="w-full max-h-80 object-contain bg-black rounded-lg" />
+
+              <div className="flex items-center gap-3 text-[10px] text-slate-500">
+                <span className="flex items-center gap-1">
+                  <MapPin className="w-3 h-3" />
+                  {formatAddress(selected.report.location)}
+                </span>
+                <span className="flex items-center gap-1">
+                  <Calendar className="w-3 h-3" />
+                  {new Date(selected.report.createdAt).toLocaleString()}
+                </span>
+              </div>
+
+              <p className="text-sm text-slate-300">{selected.report.analysis!.summary}</p>
+
+              {/* Why it is here */}
+              <div className="bg-slate-800/50 p-3 rounded-lg space-y-1">
+                <p className="text-[10px] font-black text-slate-500 uppercase mb-1">Flagged for</p>
+                {selected.flags.map(flag => (
+                  <p key={flag.id} className="text-xs text-slate-300">
+                    <span className={`text-[9px] font-bold px-1.5 py-0.5 rounded uppercase mr-2 ${FLAG_STYLES[flag.id]}`}>{flag.label}</span>
+                    {flag.detail}
+                  </p>
+                ))}
+              </div>
+
+              {selected.report.analysis!.detections.length > 0 && (
+                <div className="bg-slate-800/50 p-3 rounded-lg">
+                  <p className="text-[10px] font-black text-slate-500 uppercase mb-2">Detections</p>
+                  {selected.report.analysis!.detections.map((det, i) => (
+                    <div key={i} className="flex items-center justify-between text-xs py-1">
+                      <span className="text-slate-300">{det.object}</span>
+                      <span className={`font-bold ${SEVERITY_TEXT[det.severity]}`}>
+                        {det.severity.replace(/_/g, ' ')} <span className="text-slate-500 font-normal">{det.confidence}%</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <ReviewPanel
+                key={selected.report.id}
+                report={selected.report}
+                defaultReviewer={reviewer}
+                onUpdate={(updates, context) => onUpdate(selected.report.id, updates, context)}
+                reasonRef={reasonRef}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewQueue;
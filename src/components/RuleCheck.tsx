@@ -0,0 +1,82 @@
+import React from 'react';
+import { Scale, CheckCircle2, AlertTriangle, HelpCircle, Ban } from 'lucide-react';
+import { RuleEvaluation, ValidationViolation } from '../types';
+
+interface RuleCheckProps {
+  evaluation: RuleEvaluation;
+}
+
+const AGREEMENT_STYLES: Record<RuleEvaluation['agreement'], { box: string; text: string; label: string; icon: React.FC<{ className?: string }> }> = {
+  agree: { box: 'bg-emerald-500/5 border-emerald-500/30', text: 'text-emerald-400', label: 'Rules agree', icon: CheckCircle2 },
+  disagree: { box: 'bg-orange-500/10 border-orange-500/40', text: 'text-orange-400', label: 'Rules disagree', icon: AlertTriangle },
+  unverifiable: { box: 'bg-slate-800/50 border-slate-700', text: 'text-slate-400', label: 'Not verifiable', icon: HelpCircle },
+};
+
+/**
+ * Shows the deterministic FEMA rule result next to the model's label.
+ */
+export const RuleCheck: React.FC<RuleCheckProps> = ({ evaluation }) => {
+  const styles = AGREEMENT_STYLES[evaluation.agreement];
+  const Icon = styles.icon;
+
+  return (
+    <div className={`p-3 rounded-lg border ${styles.box}`}>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-1.5">
+          <Scale className="w-3 h-3" />
+          FEMA Rule Check ({evaluation.ruleSet.toLowerCase()})
+        </span>
+        <span className={`text-[10px] font-bold uppercase flex items-center gap-1 ${styles.text}`}>
+          <Icon className="w-3 h-3" />
+          {styles.label}
+        </span>
+      </div>
+      <p className="text-xs text-slate-300">
+        Computed: <span className="font-bold">{evaluation.computedSeverity.replace(/_/g, ' ')}</span>
+        {evaluation.firedRule && (
+          <span className="text-slate-500"> — {evaluation.firedRule.description}</span>
+        )}
+      </p>
+      {evaluation.agreement === 'disagree' && (
+        <p className={`text-[10px] mt-1 ${styles.text}`}>
+          Model labeled {evaluation.modelSeverity.replace(/_/g, ' ')}; review before submitting to FEMA.
+        </p>
+      )}
+      {evaluation.matches.length > 1 && (
+        <p className="text-[10px] text-slate-500 mt-1 font-mono">
+          {evaluation.matches.map(m => `${m.trigger}→${m.severity}`).join(' · ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+interface ValidationFlagsProps {
+  violations: ValidationViolation[];
+}
+
+/**
+ * Lists VALIDATION_RULES failures; blocking ones mean the grade must be reviewed.
+ */
+export const ValidationFlags: React.FC<ValidationFlagsProps> = ({ violations }) => {
+  if (violations.length === 0) return null;
+  const blocked = violations.some(v => v.blocking);
+
+  return (
+    <div className={`p-3 rounded-lg border ${blocked ? 'bg-red-500/10 border-red-500/40' : 'bg-yellow-500/10 border-yellow-500/30'}`}>
+      <p className={`text-[10px] font-black uppercase tracking-widest mb-1 flex items-center gap-1.5 ${blocked ? 'text-red-400' : 'text-yellow-400'}`}>
+        {blocked ? <Ban className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+        {blocked ? 'Grade Blocked' : 'Grade Flagged'} ({violations.length})
+      </p>
+      <ul className="space-y-0.5">
+        {violations.map(v => (
+          <li key={`${v.kind}-${v.conditionId}`} className="text-[11px] text-slate-300">
+            <span className="font-mono text-slate-500">{v.conditionId}</span> — {v.description}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RuleCheck;
@@ -1,8 +1,33 @@
-import React, { useState, useEffect } from 'react';
-import { Key, User, Mail, Save, CheckCircle2, AlertCircle, Trash2, Download, Shield } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Key, User, Mail, Save, CheckCircle2, AlertCircle, Trash2, Download, Shield, Cpu, WifiOff, Upload, MapPin, Database } from 'lucide-react';
 import { initializeClaude, isClaudeInitialized, getApiKeyFromEnv } from '../services/claudeService';
-import { getSettings, saveSettings, clearAllReports } from '../services/storageService';
-import { AppSettings } from '../types';
+import { getSettings, saveSettings, clearAllReports, getEvaluationRuns } from '../services/storageService';
+import { getProviders, setActiveProvider, DEFAULT_PROVIDER_ID } from '../services/providers';
+import { DEFAULT_CLAUDE_MODEL, setClaudeModel } from '../services/providers/claudeProvider';
+import { loadReplayRecordings, getReplayRecordingCount } from '../services/providers/mockProvider';
+import { getGeocoders, setActiveGeocoder, DEFAULT_GEOCODER_ID } from '../services/geocoding';
+import { setGeocoderUrl } from '../services/geocoding/httpGeocoder';
+import { clearLocalDataset, getLocalDatasetInfo, loadLocalDataset } from '../services/geocoding/localGeocoder';
+import { parseDataset } from '../services/geocoding/datasetParser';
+import {
+  clearCachedResponses,
+  countCachedResponses,
+  exportResponseCache,
+  importResponseCache,
+  setResponseCacheMode,
+} from '../services/responseCache';
+import { DEFAULT_PROMPT_VERSION, getActivePromptVersion, getPromptTemplates, renderPrompt, setActivePromptVersion } from '../services/prompts';
+import { EvaluationRun, promptHasPassed } from '../services/evaluation';
+import { AppSettings, ResponseCacheMode } from '../types';
+
+const CACHE_MODES: { id: ResponseCacheMode; label: string; description: string }[] = [
+  { id: 'record', label: 'Record & reuse', description: 'Identical photo sets are answered from the cache; new answers are cached' },
+  { id: 'replay', label: 'Replay only', description: 'Never calls the model; photos without a cached answer fail. For tests and demos' },
+  { id: 'off', label: 'Off', description: 'Always call the model and cache nothing' },
+];
+
+// Training fixture shipped in public/geocoding
+const SAMPLE_GEO_DATASET = { name: 'Pinellas County sample', url: '/geocoding/pinellas-sample.geojson' };
 
 interface SettingsProps {
   onExport: () => void;
@@ -18,12 +43,22 @@ export const Settings: React.FC<SettingsProps> = ({ onExport, reportCount }) =>
   const [saved, setSaved] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [claudeReady, setClaudeReady] = useState(false);
+  const [replayCount, setReplayCount] = useState(getReplayRecordingCount());
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [geoDataset, setGeoDataset] = useState<{ name: string; count: number } | null>(null);
+  const geoInputRef = useRef<HTMLInputElement>(null);
+  const [cachedResponses, setCachedResponses] = useState(0);
+  const cacheInputRef = useRef<HTMLInputElement>(null);
+  const [evaluationRuns, setEvaluationRuns] = useState<EvaluationRun[]>([]);
 
   const envKey = getApiKeyFromEnv();
 
   useEffect(() => {
     loadSettings();
     setClaudeReady(isClaudeInitialized());
+    getLocalDatasetInfo().then(setGeoDataset).catch(err => console.error('Failed to read geocoding dataset:', err));
+    countCachedResponses().then(setCachedResponses).catch(err => console.error('Failed to count cached responses:', err));
+    getEvaluationRuns().then(setEvaluationRuns).catch(err => console.error('Failed to load evaluation runs:', err));
     // If env key exists, show masked version
     if (envKey) {
       setApiKey('sk-ant-...loaded from .env');
@@ -44,6 +79,10 @@ export const Settings: React.FC<SettingsProps> = ({ onExport, reportCount }) =>
     }
   };
 
+  // The version in use stays selectable; switching needs a passing evaluation run
+  const promptCleared = (version: string, runs: EvaluationRun[], baselineId: string | undefined) =>
+    version === getActivePromptVersion() || promptHasPassed(runs, renderPrompt(version).fingerprint, baselineId);
+
   const handleSave = async () => {
     try {
       setError(null);
@@ -54,17 +93,41 @@ export const Settings: React.FC<SettingsProps> = ({ onExport, reportCount }) =>
         return;
       }
 
+      // Start from what is stored now: other views (the incident selector, the
+      // queue, evaluations) save settings of their own while this tab is open
+      const current = await getSettings();
+      const promptVersion = settings.promptVersion || DEFAULT_PROMPT_VERSION;
+      if (!promptCleared(promptVersion, await getEvaluationRuns(), current.evaluationBaselineId)) {
+        setError(`Prompt ${promptVersion} has no passing evaluation run. Evaluate it against the baseline first.`);
+        return;
+      }
       const newSettings: AppSettings = {
-        ...settings,
+        ...current,
         apiKey: apiKey || undefined,
+        analysisProvider: settings.analysisProvider,
+        claudeModel: settings.claudeModel,
+        promptVersion: settings.promptVersion,
+        responseCacheMode: settings.responseCacheMode,
+        defaultCaseworker: settings.defaultCaseworker,
+        defaultCaseworkerEmail: settings.defaultCaseworkerEmail,
+        demoMode: settings.demoMode,
+        geocoder: settings.geocoder,
+        geocoderUrl: settings.geocoderUrl,
       };
 
       await saveSettings(newSettings);
+      setSettings(newSettings);
 
       if (apiKey) {
         initializeClaude(apiKey);
         setClaudeReady(true);
       }
+      setClaudeModel(newSettings.claudeModel);
+      setActiveProvider(newSettings.analysisProvider);
+      setActiveGeocoder(newSettings.geocoder);
+      setGeocoderUrl(newSettings.geocoderUrl);
+      setResponseCacheMode(newSettings.responseCacheMode);
+      setActivePromptVersion(newSettings.promptVersion);
 
       setSaved(true);
       setTimeout(() => setSaved(false), 2000);
@@ -73,6 +136,83 @@ export const Settings: React.FC<SettingsProps> = ({ onExport, reportCount }) =>
     }
   };
 
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setError(null);
+      const records = JSON.parse(await file.text());
+      setReplayCount(loadReplayRecordings(Array.isArray(records) ? records : []));
+    } catch {
+      setError('Replay file must be a JSON array of { fingerprint, text } recordings');
+    } finally {
+      if (replayInputRef.current) replayInputRef.current.value = '';
+    }
+  };
+
+  const handleExportCache = async () => {
+    const blob = new Blob([await exportResponseCache()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `rescuelens-response-cache-${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCacheFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setError(null);
+      await importResponseCache(await file.text());
+      setCachedResponses(await countCachedResponses());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import response cache');
+    } finally {
+      if (cacheInputRef.current) cacheInputRef.current.value = '';
+    }
+  };
+
+  const handleClearCache = async () => {
+    if (!confirm(`Delete all ${cachedResponses} cached responses? Re-grading the same photos will call the model again.`)) {
+      return;
+    }
+    await clearCachedResponses();
+    setCachedResponses(0);
+  };
+
+  const installGeoDataset = async (name: string, fileName: string, text: string) => {
+    try {
+      setError(null);
+      const dataset = await loadLocalDataset(name, parseDataset(fileName, text));
+      setGeoDataset({ name: dataset.name, count: dataset.records.length });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load geocoding dataset');
+    }
+  };
+
+  const handleGeoFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    await installGeoDataset(file.name.replace(/\.[^.]+$/, ''), file.name, await file.text());
+    if (geoInputRef.current) geoInputRef.current.value = '';
+  };
+
+  const handleLoadSampleGeo = async () => {
+    try {
+      const response = await fetch(SAMPLE_GEO_DATASET.url);
+      await installGeoDataset(SAMPLE_GEO_DATASET.name, SAMPLE_GEO_DATASET.url, await response.text());
+    } catch {
+      setError('Failed to load the sample geocoding dataset');
+    }
+  };
+
+  const handleClearGeo = async () => {
+    await clearLocalDataset();
+    setGeoDataset(null);
+  };
+
   const handleClearData = async () => {
     if (!confirm(`Are you sure you want to delete ALL ${reportCount} reports? This cannot be undone.`)) {
       return;
@@ -90,6 +230,179 @@ export const Settings: React.FC<SettingsProps> = ({ onExport, reportCount }) =>
 
   return (
     <div className="max-w-2xl mx-auto space-y-6">
+      {/* Vision Provider */}
+      <div className="bg-slate-900 rounded-xl border border-slate-800 p-6">
+        <h2 className="text-sm font-black text-white uppercase tracking-widest mb-6 flex items-center gap-2">
+          <Cpu className="w-4 h-4 text-red-500" />
+          Analysis Provider
+        </h2>
+
+        <div className="space-y-3">
+          {getProviders().map(provider => (
+            <label
+              key={provider.id}
+              className={`flex items-start gap-3 p-4 rounded-lg border cursor-pointer transition-colors ${
+                (settings.analysisProvider || DEFAULT_PROVIDER_ID) === provider.id
+                  ? 'bg-red-500/10 border-red-500/40'
+                  : 'bg-slate-800/50 border-slate-700 hover:border-slate-600'
+              }`}
+            >
+              <input
+                type="radio"
+                name="analysisProvider"
+                checked={(settings.analysisProvider || DEFAULT_PROVIDER_ID) === provider.id}
+                onChange={() => setSettings({ ...settings, analysisProvider: provider.id })}
+                className="mt-1 accent-red-600"
+              />
+              <div>
+                <p className="text-sm font-medium text-slate-200 flex items-center gap-2">
+                  {provider.label}
+                  {provider.offline && (
+                    <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-slate-700 text-slate-300 uppercase flex items-center gap-1">
+                      <WifiOff className="w-3 h-3" /> Offline
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-slate-500 mt-0.5">{provider.description}</p>
+              </div>
+            </label>
+          ))}
+
+          <div>
+            <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">
+              Prompt Version
+            </label>
+            <select
+              value={settings.promptVersion || DEFAULT_PROMPT_VERSION}
+              onChange={(e) => setSettings({ ...settings, promptVersion: e.target.value })}
+              className="w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-red-500 font-mono text-sm"
+            >
+              {getPromptTemplates().map(t => {
+                const cleared = promptCleared(t.version, evaluationRuns, settings.evaluationBaselineId);
+                return (
+                  <option key={t.version} value={t.version} disabled={!cleared}>
+                    {t.version}: {t.label}{t.version === DEFAULT_PROMPT_VERSION ? ' (default)' : ''}{cleared ? '' : ' (not evaluated)'}
+                  </option>
+                );
+              })}
+            </select>
+            <p className="text-xs text-slate-500 mt-1">
+              Compare versions in the Prompts tab. A version can be selected once it passes the evaluation gate in the Evaluate tab.
+            </p>
+          </div>
+
+          {(settings.analysisProvider || DEFAULT_PROVIDER_ID) === 'claude' && (
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">
+                Claude Model
+              </label>
+              <input
+                type="text"
+                value={settings.claudeModel || ''}
+                onChange={(e) => setSettings({ ...settings, claudeModel: e.target.value })}
+                placeholder={DEFAULT_CLAUDE_MODEL}
+                className="w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:border-red-500 font-mono text-sm"
+              />
+            </div>
+          )}
+
+          {(settings.analysisProvider || DEFAULT_PROVIDER_ID) === 'mock' && (
+            <div className="flex items-center justify-between p-4 bg-slate-800/50 rounded-lg">
+              <div>
+                <p className="text-sm font-medium text-slate-300">Replay Recordings</p>
+                <p className="text-xs text-slate-500">{replayCount} recorded responses loaded</p>
+              </div>
+              <button
+                onClick={() => replayInputRef.current?.click()}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm font-medium flex items-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                Load
+              </button>
+              <input
+                ref={replayInputRef}
+                type="file"
+                accept="application/json"
+                onChange={handleReplayFile}
+                className="hidden"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Response Cache */}
+      <div className="bg-slate-900 rounded-xl border border-slate-800 p-6">
+        <h2 className="text-sm font-black text-white uppercase tracking-widest mb-6 flex items-center gap-2">
+          <Database className="w-4 h-4 text-red-500" />
+          Response Cache
+        </h2>
+
+        <div className="space-y-3">
+          {CACHE_MODES.map(mode => (
+            <label
+              key={mode.id}
+              className={`flex items-start gap-3 p-4 rounded-lg border cursor-pointer transition-colors ${
+                (settings.responseCacheMode || 'record') === mode.id
+                  ? 'bg-red-500/10 border-red-500/40'
+                  : 'bg-slate-800/50 border-slate-700 hover:border-slate-600'
+              }`}
+            >
+              <input
+                type="radio"
+                name="responseCacheMode"
+                checked={(settings.responseCacheMode || 'record') === mode.id}
+                onChange={() => setSettings({ ...settings, responseCacheMode: mode.id })}
+                className="mt-1 accent-red-600"
+              />
+              <div>
+                <p className="text-sm font-medium text-slate-200">{mode.label}</p>
+                <p className="text-xs text-slate-500 mt-0.5">{mode.description}</p>
+              </div>
+            </label>
+          ))}
+
+          <div className="flex items-center justify-between p-4 bg-slate-800/50 rounded-lg">
+            <div>
+              <p className="text-sm font-medium text-slate-300">Cached Responses</p>
+              <p className="text-xs text-slate-500">{cachedResponses} stored in this browser</p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={handleExportCache}
+                disabled={cachedResponses === 0}
+                className="px-3 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg text-sm font-medium flex items-center gap-2"
+              >
+                <Download className="w-4 h-4" />
+                Export
+              </button>
+              <button
+                onClick={() => cacheInputRef.current?.click()}
+                className="px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm font-medium flex items-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                Import
+              </button>
+              <button
+                onClick={handleClearCache}
+                disabled={cachedResponses === 0}
+                className="px-3 py-2 bg-slate-700 hover:bg-red-600 disabled:opacity-50 text-white rounded-lg text-sm font-medium flex items-center gap-2"
+              >
+                <Trash2 className="w-4 h-4" />
+                Clear
+              </button>
+              <input
+                ref={cacheInputRef}
+                type="file"
+                accept="application/json"
+                onChange={handleCacheFile}
+                className="hidden"
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
       {/* API Configuration */}
       <div className="bg-slate-900 rounded-xl border border-slate-800 p-6">
         <h2 className="text-sm font-black text-white uppercase tracking-widest mb-6 flex items-center gap-2">
@@ -187,6 +500,119 @@ export const Settings: React.FC<SettingsProps> = ({ onExport, reportCount }) =>
         </div>
       </div>
 
+      {/* Location */}
+      <div className="bg-slate-900 rounded-xl border border-slate-800 p-6">
+        <h2 className="text-sm font-black text-white uppercase tracking-widest mb-6 flex items-center gap-2">
+          <MapPin className="w-4 h-4 text-red-500" />
+          Location
+        </h2>
+
+        <label className="flex items-start gap-3 p-4 bg-slate-800/50 rounded-lg cursor-pointer">
+          <input
+            type="checkbox"
+            checked={Boolean(settings.demoMode)}
+            onChange={(e) => setSettings({ ...settings, demoMode: e.target.checked })}
+            className="mt-1 accent-red-600"
+          />
+          <div>
+            <p className="text-sm font-medium text-slate-200">Demo mode</p>
+            <p className="text-xs text-slate-500 mt-0.5">
+              Photos without GPS get a random Pinellas County address instead of requiring a pin or address.
+              For demos and training only; reports are marked as demo locations.
+            </p>
+          </div>
+        </label>
+
+        <div className="mt-6 space-y-3">
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">Reverse Geocoding</p>
+          {getGeocoders().map(geocoder => (
+            <label
+              key={geocoder.id}
+              className={`flex items-start gap-3 p-4 rounded-lg border cursor-pointer transition-colors ${
+                (settings.geocoder || DEFAULT_GEOCODER_ID) === geocoder.id
+                  ? 'bg-red-500/10 border-red-500/40'
+                  : 'bg-slate-800/50 border-slate-700 hover:border-slate-600'
+              }`}
+            >
+              <input
+                type="radio"
+                name="geocoder"
+                checked={(settings.geocoder || DEFAULT_GEOCODER_ID) === geocoder.id}
+                onChange={() => setSettings({ ...settings, geocoder: geocoder.id })}
+                className="mt-1 accent-red-600"
+              />
+              <div>
+                <p className="text-sm font-medium text-slate-200 flex items-center gap-2">
+                  {geocoder.label}
+                  {geocoder.offline && (
+                    <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-slate-700 text-slate-300 uppercase flex items-center gap-1">
+                      <WifiOff className="w-3 h-3" /> Offline
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-slate-500 mt-0.5">{geocoder.description}</p>
+              </div>
+            </label>
+          ))}
+
+          {settings.geocoder === 'http' && (
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">
+                Geocoder URL
+              </label>
+              <input
+                type="url"
+                value={settings.geocoderUrl || ''}
+                onChange={(e) => setSettings({ ...settings, geocoderUrl: e.target.value })}
+                placeholder="https://nominatim.example.org"
+                className="w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:border-red-500 font-mono text-sm"
+              />
+              <p className="text-xs text-slate-500 mt-2">Falls back to the local dataset when offline.</p>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between p-4 bg-slate-800/50 rounded-lg gap-2">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-slate-300">Local Dataset</p>
+              <p className="text-xs text-slate-500 truncate">
+                {geoDataset ? `${geoDataset.name} - ${geoDataset.count} points` : 'None loaded (GeoJSON or CSV)'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {geoDataset ? (
+                <button
+                  onClick={handleClearGeo}
+                  className="px-3 py-2 text-slate-400 hover:text-red-400 rounded-lg text-sm font-medium"
+                >
+                  Clear
+                </button>
+              ) : (
+                <button
+                  onClick={handleLoadSampleGeo}
+                  className="px-3 py-2 text-slate-400 hover:text-slate-200 rounded-lg text-sm font-medium"
+                >
+                  Sample
+                </button>
+              )}
+              <button
+                onClick={() => geoInputRef.current?.click()}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-sm font-medium flex items-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                Load
+              </button>
+              <input
+                ref={geoInputRef}
+                type="file"
+                accept=".geojson,.json,.csv,application/json,text/csv"
+                onChange={handleGeoFile}
+                className="hidden"
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
       {/* Save Button */}
       <button
         onClick={handleSave}
@@ -0,0 +1,270 @@
+import React, { useState } from 'react';
+import { Ruler, Trash2, Loader2 } from 'lucide-react';
+import { ChangeContext, DamageReport, HomeType, WaterlineReferenceObject } from '../types';
+import { getRuleSet } from '../services/ruleEngine';
+import {
+  DEFAULT_CEILING_INCHES,
+  REFERENCE_OBJECT_LABELS,
+  WaterlineMarks,
+  describeWaterline,
+  formatWaterLevel,
+  measureWaterline,
+  referenceHeightFor,
+  waterLevelForHeight,
+  waterlineHeightInches,
+} from '../services/waterlineService';
+
+interface WaterlineToolProps {
+  report: DamageReport;
+  photoIndex: number;
+  imageData: string;
+  defaultAssessor: string;
+  onUpdate: (updates: Partial<DamageReport>, context?: ChangeContext) => Promise<unknown>;
+}
+
+type MarkId = keyof WaterlineMarks;
+
+const MARKS: { id: MarkId; label: string; line: string; text: string }[] = [
+  { id: 'floorY', label: 'Floor', line: 'border-emerald-400', text: 'text-emerald-400' },
+  { id: 'referenceY', label: 'Reference', line: 'border-sky-400', text: 'text-sky-400' },
+  { id: 'waterlineY', label: 'Water line', line: 'border-red-500', text: 'text-red-400' },
+];
+
+const REFERENCE_OBJECTS = Object.keys(REFERENCE_OBJECT_LABELS) as WaterlineReferenceObject[];
+
+const inputClass = 'w-full px-2 py-1.5 bg-slate-900 border border-slate-700 rounded text-xs text-slate-200 focus:outline-none focus:border-red-500';
+
+/**
+ * Measure the water line on a photo: mark the floor, the top of an object
+ * of known height and the water line. The height and FEMA water level are
+ * computed from the marks and stored on the report for the rule check.
+ */
+export const WaterlineTool: React.FC<WaterlineToolProps> = ({ report, photoIndex, imageData, defaultAssessor, onUpdate }) => {
+  const saved = report.waterline;
+  const homeType = report.analysis?.homeType || HomeType.CONVENTIONAL;
+  const [editing, setEditing] = useState(false);
+  const [marks, setMarks] = useState<Partial<WaterlineMarks>>({});
+  const [active, setActive] = useState<MarkId>('floorY');
+  const [referenceObject, setReferenceObject] = useState<WaterlineReferenceObject>('electricalOutlets');
+  const [referenceHeight, setReferenceHeight] = useState(String(referenceHeightFor('electricalOutlets')));
+  const [ceilingHeight, setCeilingHeight] = useState(String(DEFAULT_CEILING_INCHES[getRuleSet(homeType)]));
+  const [assessor, setAssessor] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const start = () => {
+    // Re-measuring the same photo starts from the saved marks
+    const resume = saved?.photoIndex === photoIndex ? saved : undefined;
+    setMarks(resume ? { floorY: resume.floorY, referenceY: resume.referenceY, waterlineY: resume.waterlineY } : {});
+    setActive(resume ? 'waterlineY' : 'floorY');
+    setReferenceObject(resume?.referenceObject || 'electricalOutlets');
+    setReferenceHeight(String(resume?.referenceHeightInches ?? referenceHeightFor('electricalOutlets')));
+    setCeilingHeight(String(resume?.ceilingHeightInches ?? DEFAULT_CEILING_INCHES[getRuleSet(homeType)]));
+    setAssessor(saved?.measuredBy || defaultAssessor);
+    setError(null);
+    setEditing(true);
+  };
+
+  const placeMark = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    const next = { ...marks, [active]: y };
+    setMarks(next);
+    const unset = MARKS.find(m => next[m.id] === undefined);
+    if (unset) setActive(unset.id);
+  };
+
+  const chooseReference = (object: WaterlineReferenceObject) => {
+    setReferenceObject(object);
+    const height = referenceHeightFor(object);
+    if (height !== undefined) setReferenceHeight(String(height));
+  };
+
+  const complete = marks.floorY !== undefined && marks.referenceY !== undefined && marks.waterlineY !== undefined;
+  let preview: { heightInches: number; level: string } | { error: string } | undefined;
+  if (complete) {
+    try {
+      const heightInches = Math.round(waterlineHeightInches(marks as WaterlineMarks, Number(referenceHeight)));
+      preview = { heightInches, level: formatWaterLevel(waterLevelForHeight(heightInches, homeType, Number(ceilingHeight))) };
+    } catch (err) {
+      preview = { error: err instanceof Error ? err.message : 'Invalid marks' };
+    }
+  }
+
+  const save = async () => {
+    setError(null);
+    try {
+      const measurement = measureWaterline({
+        ...(marks as WaterlineMarks),
+        photoIndex,
+        referenceObject,
+        referenceHeightInches: Number(referenceHeight),
+        ceilingHeightInches: Number(ceilingHeight),
+        measuredBy: assessor,
+      }, homeType);
+      setSaving(true);
+      await onUpdate({ waterline: measurement }, {
+        author: measurement.measuredBy,
+        reason: `Water line measured on photo ${photoIndex + 1}`,
+      });
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save measurement');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!confirm('Remove the water line measurement? The rule check goes back to the model\'s estimate.')) return;
+    setError(null);
+    setSaving(true);
+    try {
+      await onUpdate({ waterline: undefined }, { reason: 'Water line measurement removed' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove measurement');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <div className="bg-slate-800/50 p-4 rounded-lg">
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-[10px] font-black text-slate-500 uppercase flex items-center gap-1">
+            <Ruler className="w-3 h-3" />
+            Water Line
+          </p>
+          <div className="flex items-center gap-2">
+            {saved && (
+              <button
+                onClick={remove}
+                disabled={saving}
+                className="p-1.5 text-slate-500 hover:text-red-400 disabled:opacity-50"
+                title="Remove measurement"
+              >
+                {saving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Trash2 className="w-3 h-3" />}
+              </button>
+            )}
+            <button
+              onClick={start}
+              className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-xs font-bold uppercase tracking-widest flex items-center gap-1.5"
+            >
+              <Ruler className="w-3 h-3" />
+              {saved ? 'Re-measure' : 'Measure'} on photo {photoIndex + 1}
+            </button>
+          </div>
+        </div>
+        <p className="text-xs text-slate-300 mt-2">
+          {saved
+            ? describeWaterline(saved)
+            : typeof report.analysis?.floodEvidence?.estimatedHeightInches === 'number'
+              ? `Model estimate: ${report.analysis.floodEvidence.estimatedHeightInches} in. Measure it on a photo to use it in the rule check.`
+              : 'Not measured. Mark the floor, a reference object and the water line on a photo.'}
+        </p>
+        {saved && <p className="text-[10px] text-slate-500 mt-1">{new Date(saved.measuredAt).toLocaleString()}</p>}
+        {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-lg space-y-3">
+      <p className="text-[10px] font-black text-slate-500 uppercase flex items-center gap-1">
+        <Ruler className="w-3 h-3" />
+        Measure Water Line · Photo {photoIndex + 1}
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {MARKS.map(mark => (
+          <button
+            key={mark.id}
+            onClick={() => setActive(mark.id)}
+            className={`px-2 py-1 rounded text-[10px] font-bold uppercase border ${
+              active === mark.id ? 'bg-slate-900 border-slate-400 text-white' : 'border-slate-700 text-slate-400 hover:border-slate-500'
+            }`}
+          >
+            <span className={mark.text}>■</span> {mark.label}
+            {marks[mark.id] === undefined && <span className="text-slate-500 normal-case font-normal"> (not set)</span>}
+          </button>
+        ))}
+      </div>
+      <p className="text-[11px] text-slate-500">
+        Click the photo to place the <span className="text-slate-300">{MARKS.find(m => m.id === active)?.label.toLowerCase()}</span> mark.
+        Mark the reference on the same wall as the water line.
+      </p>
+
+      <div className="flex justify-center bg-black rounded-lg">
+        <div className="relative inline-block cursor-crosshair select-none" onClick={placeMark}>
+          <img src={imageData} alt="Measure" draggable={false} className="block max-w-full max-h-[32rem]" />
+          {MARKS.map(mark => marks[mark.id] !== undefined && (
+            <div
+              key={mark.id}
+              className={`absolute left-0 right-0 border-t-2 border-dashed pointer-events-none ${mark.line}`}
+              style={{ top: `${marks[mark.id]! * 100}%` }}
+            >
+              <span className={`absolute left-1 -top-4 text-[10px] font-bold bg-black/70 px-1 rounded ${mark.text}`}>{mark.label}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-4 gap-2">
+        <label className="text-[10px] text-slate-500 uppercase sm:col-span-2">
+          Reference object
+          <select value={referenceObject} onChange={e => chooseReference(e.target.value as WaterlineReferenceObject)} className={inputClass}>
+            {REFERENCE_OBJECTS.map(object => (
+              <option key={object} value={object}>{REFERENCE_OBJECT_LABELS[object]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-[10px] text-slate-500 uppercase">
+          Reference height (in)
+          <input
+            type="number"
+            min={1}
+            value={referenceHeight}
+            onChange={e => setReferenceHeight(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-[10px] text-slate-500 uppercase">
+          Ceiling height (in)
+          <input type="number" min={1} value={ceilingHeight} onChange={e => setCeilingHeight(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-[10px] text-slate-500 uppercase sm:col-span-2">
+          Assessor
+          <input value={assessor} onChange={e => setAssessor(e.target.value)} className={inputClass} />
+        </label>
+      </div>
+
+      {preview && ('error' in preview ? (
+        <p className="text-xs text-amber-400">{preview.error}</p>
+      ) : (
+        <p className="text-xs text-slate-300">
+          Water line <span className="font-bold">{Math.abs(preview.heightInches)} in {preview.heightInches < 0 ? 'below' : 'above'}</span> the floor
+          {' '}· <span className="font-bold">{preview.level}</span> ({getRuleSet(homeType).toLowerCase()} rules)
+        </p>
+      ))}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex items-center justify-end gap-2">
+        <button onClick={() => setEditing(false)} className="px-3 py-1.5 text-slate-400 hover:text-white text-xs font-bold uppercase">
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          disabled={!complete || saving || (preview !== undefined && 'error' in preview)}
+          className="px-3 py-1.5 bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white rounded-lg text-xs font-bold uppercase flex items-center gap-1"
+        >
+          {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+          Save measurement
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WaterlineTool;
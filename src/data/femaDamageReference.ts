@@ -1,4 +1,4 @@
-import { DamageSeverity, HomeType, IncidentType } from '../types';
+import { DamageAnalysis, DamageSeverity, HomeType, IncidentType, ReasonCode } from '../types';
 
 /**
  * Official FEMA Preliminary Damage Assessment (PDA) Grading Rules
@@ -292,32 +292,155 @@ export const TIE_BREAKER_RULES = [
 // VALIDATION RULES
 // =============================================================================
 
+/**
+ * A machine-checkable condition over a DamageAnalysis.
+ * Structured indicators are checked first; reason codes count as supporting evidence.
+ */
+export interface ValidationCondition {
+  id: string;
+  description: string;
+  test: (analysis: DamageAnalysis) => boolean;
+}
+
 export interface ValidationRule {
   severity: DamageSeverity;
-  requiredConditions: string[];
-  excludedConditions: string[];
+  requiredConditions: ValidationCondition[]; // All must hold for this label
+  excludedConditions: ValidationCondition[]; // None may hold for this label
 }
 
+const hasReasonCode = (analysis: DamageAnalysis, codes: ReasonCode[]): boolean =>
+  analysis.reasonCodes.some(code => codes.includes(code));
+
+const waterLineAt = (analysis: DamageAnalysis, levels: string[]): boolean =>
+  Boolean(
+    analysis.floodEvidence?.waterLineDetected &&
+    analysis.floodEvidence.waterLineReference &&
+    levels.includes(analysis.floodEvidence.waterLineReference)
+  );
+
 export const VALIDATION_RULES: ValidationRule[] = [
   {
     severity: DamageSeverity.INACCESSIBLE,
-    requiredConditions: ['access_blocked = true OR visibility_confirmed = false'],
+    requiredConditions: [
+      {
+        id: 'access_blocked_or_not_visible',
+        description: 'access_blocked = true OR visibility_confirmed = false',
+        test: a => Boolean(a.accessBlocked) || hasReasonCode(a, ['access_blocked', 'visibility_not_confirmed']),
+      },
+    ],
     excludedConditions: [],
   },
   {
     severity: DamageSeverity.DESTROYED,
-    requiredConditions: ['At least one destroyed trigger (waterline>=ceiling, frame_compromised, structural_framing_compromised)'],
+    requiredConditions: [
+      {
+        id: 'any_destroyed_trigger',
+        description: 'At least one destroyed trigger (waterline>=ceiling, frame_compromised, structural_framing_compromised)',
+        test: a => {
+          const s = a.structuralIndicators;
+          return waterLineAt(a, ['at_or_above_ceiling']) ||
+            Boolean(s && (
+              s.frameCompromised ||
+              s.roofDamage === 'collapsed' ||
+              s.wallDamage === 'collapsed' ||
+              s.structuralComponentsFailedCount >= 2
+            )) ||
+            hasReasonCode(a, [
+              'waterline_at_or_above_ceiling',
+              'frame_compromised',
+              'structural_framing_compromised',
+              'structural_components_failed_count_gte_2',
+            ]);
+        },
+      },
+    ],
     excludedConditions: [],
   },
   {
     severity: DamageSeverity.MAJOR,
-    requiredConditions: ['At least one major trigger (conventional: waterline>=outlets, manufactured: water_in_living_space_below_ceiling, displaced_from_foundation, etc.)'],
+    requiredConditions: [
+      {
+        id: 'any_major_trigger',
+        description: 'At least one major trigger (conventional: waterline>=outlets, manufactured: water_in_living_space_below_ceiling, displaced_from_foundation, etc.)',
+        test: a => {
+          const s = a.structuralIndicators;
+          const f = a.floodEvidence;
+          return waterLineAt(a, ['in_living_space_below_ceiling', 'at_or_above_outlets']) ||
+            Boolean(s && (
+              s.displacedFromFoundation ||
+              s.roofDamage === 'structural_ribbing' ||
+              s.wallDamage === 'structural' ||
+              s.foundationStatus === 'displaced' ||
+              s.foundationStatus === 'failed'
+            )) ||
+            Boolean(f && (f.contaminationPresent || f.longDurationFlooding || f.basementMechanicalDamage)) ||
+            hasReasonCode(a, [
+              'waterline_at_or_above_outlets',
+              'waterline_in_living_space_below_ceiling',
+              'displaced_from_foundation',
+              'roof_substantially_damaged',
+              'structural_damage_extensive',
+              'flood_duration_long',
+              'water_contaminated',
+              'basement_mechanical_damage',
+              'nonstructural_damage_majority',
+            ]);
+        },
+      },
+    ],
     excludedConditions: [],
   },
   {
     severity: DamageSeverity.MINOR,
-    requiredConditions: ['Non-structural damage indicators'],
-    excludedConditions: ['structural_displacement_indicators', 'displaced_from_foundation'],
+    requiredConditions: [
+      {
+        id: 'nonstructural_damage_indicators',
+        description: 'Non-structural damage indicators',
+        test: a => {
+          const s = a.structuralIndicators;
+          return waterLineAt(a, ['in_floor_system_only', 'below_outlets']) ||
+            Boolean(s && (
+              s.roofDamage === 'covering_only' ||
+              s.wallDamage === 'nonstructural' ||
+              s.foundationStatus === 'cracked'
+            )) ||
+            hasReasonCode(a, [
+              'waterline_below_outlets',
+              'waterline_in_floor_system_only',
+              'nonstructural_damage_some',
+              'nonstructural_roof_damage',
+              'drywall_or_insulation_damage',
+              'foundation_cracks_small_multiple',
+              'chimney_damage',
+              'mechanical_damage',
+              'well_septic_contamination',
+            ]);
+        },
+      },
+    ],
+    excludedConditions: [
+      {
+        id: 'structural_displacement_indicators',
+        description: 'Structural damage indicators (structural walls/roof framing, failed or displaced foundation, compromised frame)',
+        test: a => {
+          const s = a.structuralIndicators;
+          return Boolean(s && (
+            s.frameCompromised ||
+            s.roofDamage === 'structural_ribbing' ||
+            s.roofDamage === 'collapsed' ||
+            s.wallDamage === 'structural' ||
+            s.wallDamage === 'collapsed' ||
+            s.foundationStatus === 'displaced' ||
+            s.foundationStatus === 'failed'
+          ));
+        },
+      },
+      {
+        id: 'displaced_from_foundation',
+        description: 'Residence displaced from foundation/block/piers',
+        test: a => Boolean(a.structuralIndicators?.displacedFromFoundation) || hasReasonCode(a, ['displaced_from_foundation']),
+      },
+    ],
   },
 ];
 
@@ -401,7 +524,7 @@ export const HOME_TYPE_INFO: HomeTypeInfo[] = [
 // REASON CODES FOR TRAINING DATA
 // =============================================================================
 
-export const REASON_CODES = {
+export const REASON_CODES: Record<ReasonCode, string> = {
   // Access/Visibility
   access_blocked: 'Access blocked by floodwater, debris, or infrastructure',
   visibility_not_confirmed: 'Cannot visually confirm damage',
@@ -441,6 +564,53 @@ export const REASON_CODES = {
   accessory_structure_only: 'Damage to accessory structures only (not primary residence)',
 };
 
+/**
+ * Common variants the model emits instead of the canonical code.
+ * Keys are already normalized (lowercase, underscores).
+ */
+export const REASON_CODE_ALIASES: Record<string, ReasonCode> = {
+  access_denied: 'access_blocked',
+  inaccessible: 'access_blocked',
+  road_blocked: 'access_blocked',
+  not_visible: 'visibility_not_confirmed',
+  waterline_above_ceiling: 'waterline_at_or_above_ceiling',
+  water_above_ceiling: 'waterline_at_or_above_ceiling',
+  frame_damage: 'frame_compromised',
+  frame_bent: 'frame_compromised',
+  frame_twisted: 'frame_compromised',
+  structural_framing_exposed: 'structural_framing_compromised',
+  two_or_more_structural_failures: 'structural_components_failed_count_gte_2',
+  structural_components_failed: 'structural_components_failed_count_gte_2',
+  waterline_above_outlets: 'waterline_at_or_above_outlets',
+  water_above_outlets: 'waterline_at_or_above_outlets',
+  waterline_in_living_space: 'waterline_in_living_space_below_ceiling',
+  water_in_living_space: 'waterline_in_living_space_below_ceiling',
+  displaced: 'displaced_from_foundation',
+  off_foundation: 'displaced_from_foundation',
+  roof_damage_substantial: 'roof_substantially_damaged',
+  structural_damage: 'structural_damage_extensive',
+  long_duration_flooding: 'flood_duration_long',
+  contamination_present: 'water_contaminated',
+  contaminated_water: 'water_contaminated',
+  sewage_contamination: 'water_contaminated',
+  waterline_below_outlet: 'waterline_below_outlets',
+  waterline_floor_system: 'waterline_in_floor_system_only',
+  nonstructural_damage: 'nonstructural_damage_some',
+  roof_covering_damage: 'nonstructural_roof_damage',
+  drywall_damage: 'drywall_or_insulation_damage',
+  insulation_damage: 'drywall_or_insulation_damage',
+  foundation_cracks: 'foundation_cracks_small_multiple',
+  hvac_damage: 'mechanical_damage',
+  water_heater_damage: 'mechanical_damage',
+  septic_contamination: 'well_septic_contamination',
+  well_contamination: 'well_septic_contamination',
+  waterline_crawlspace: 'waterline_unfinished_basement',
+  crawlspace_flooding: 'waterline_unfinished_basement',
+  cosmetic_damage: 'cosmetic_only',
+  cosmetic: 'cosmetic_only',
+  accessory_structure_damage: 'accessory_structure_only',
+};
+
 // =============================================================================
 // SOURCE ATTRIBUTION
 // =============================================================================
@@ -0,0 +1,364 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { DamageReport, QueuedPhoto } from '../types';
+import * as storage from '../services/storageService';
+import { analyzeProperty, compressImage } from '../services/claudeService';
+import { getActiveProvider } from '../services/providers';
+import { readPhotoMetadata } from '../services/exifService';
+import { generateDemoLocation, locationFromMetadata } from '../services/locationService';
+import { fillAddress } from '../services/geocoding';
+import { estimateCostUsd } from '../services/usageService';
+import { getResponseCacheMode } from '../services/responseCache';
+import { assessQuality, ImageMeasurements, KnownPhoto, measureCanvas } from '../services/imageQualityService';
+import {
+  DEFAULT_CONCURRENCY,
+  deferJob,
+  failJob,
+  isRateLimitError,
+  MAX_CONCURRENCY,
+  nextJob,
+  nextWakeup,
+  QueueJob,
+  rateLimitPause,
+} from '../services/analysisQueue';
+
+type ReportInput = Omit<DamageReport, 'id' | 'createdAt' | 'updatedAt'>;
+
+function fileToBase64(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+}
+
+// Replay mode answers from the local response cache: no network or API key needed
+function isReplaying(): boolean {
+  return getResponseCacheMode() === 'replay';
+}
+
+function isOffline(): boolean {
+  return !isReplaying() && !getActiveProvider().offline && !navigator.onLine;
+}
+
+// Photos a newly added one could be a duplicate of
+function knownPhotos(items: QueuedPhoto[], reports: DamageReport[]): KnownPhoto[] {
+  const queued = items
+    .filter(i => i.quality && i.status !== 'completed')
+    .map(i => ({ label: i.fileName, hash: i.quality!.hash }));
+  const filed = reports.flatMap(report =>
+    [report.imageQuality, ...(report.photos || []).slice(1).map(p => p.quality)]
+      .filter(quality => quality !== undefined)
+      .map(quality => ({ label: `report ${report.id}`, hash: quality.hash }))
+  );
+  return [...queued, ...filed];
+}
+
+/**
+ * Persistent analysis queue. Photos are stored in IndexedDB as soon as they
+ * are added, analyzed in the background while the app is open (whatever tab
+ * is showing), retried with backoff on failure, and resumed after a reload.
+ *
+ * Up to `concurrency` jobs run at once. A 429/overloaded response pauses
+ * every worker until the server's Retry-After (or our backoff) has passed.
+ *
+ * Each photo gets a local quality check when added; `reports` are searched
+ * for duplicates along with the rest of the queue.
+ */
+export function useAnalysisQueue(onReportCreated: (report: ReportInput) => Promise<DamageReport>, reports: DamageReport[] = []) {
+  const [items, setItems] = useState<QueuedPhoto[]>([]);
+  const [online, setOnline] = useState(navigator.onLine);
+  const [concurrency, setConcurrencyState] = useState(DEFAULT_CONCURRENCY);
+  const [pausedUntil, setPausedUntil] = useState<number | null>(null);
+  const itemsRef = useRef<QueuedPhoto[]>([]);
+  const workersRef = useRef(0);
+  const concurrencyRef = useRef(DEFAULT_CONCURRENCY);
+  const pausedUntilRef = useRef(0);
+  const rateLimitStrikesRef = useRef(0);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onReportCreatedRef = useRef(onReportCreated);
+  const reportsRef = useRef(reports);
+
+  useEffect(() => {
+    onReportCreatedRef.current = onReportCreated;
+  }, [onReportCreated]);
+
+  useEffect(() => {
+    reportsRef.current = reports;
+  }, [reports]);
+
+  // Replace items by id in memory and IndexedDB
+  const commit = useCallback(async (changed: QueuedPhoto[]) => {
+    const byId = new Map(changed.map(i => [i.id, i]));
+    const next = itemsRef.current.map(i => byId.get(i.id) || i);
+    itemsRef.current = next;
+    setItems(next);
+    await storage.saveQueueItems(changed);
+  }, []);
+
+  const processJob = useCallback(async (job: QueueJob) => {
+    // Claims the job synchronously (before the first await) so no other worker picks it
+    await commit(job.map(i => ({ ...i, status: 'analyzing' as const })));
+    const startedAt = Date.now();
+
+    try {
+      // Checked before the model call so a job that can't become a report costs nothing
+      const location = job.find(i => i.location)?.location;
+      if (!location) {
+        throw new Error('No location set for this property');
+      }
+      const photos = job.map(i => ({ id: i.id, imageData: i.imageData, caption: i.caption, metadata: i.metadata, quality: i.quality }));
+      const analysis = await analyzeProperty(photos);
+
+      const report = await onReportCreatedRef.current({
+        imageData: photos[0].imageData,
+        photos: photos.length > 1 ? photos : undefined,
+        photoMetadata: job[0].metadata,
+        imageQuality: job[0].quality,
+        location,
+        incidentId: job[0].incidentId,
+        analysis,
+        status: 'completed',
+      });
+
+      rateLimitStrikesRef.current = 0;
+      await commit(job.map(i => ({
+        ...i,
+        status: 'completed' as const,
+        reportId: report.id,
+        error: undefined,
+        nextAttemptAt: undefined,
+        durationMs: Date.now() - startedAt,
+        tokenUsage: analysis.tokenUsage,
+        costUsd: estimateCostUsd(analysis.model, analysis.tokenUsage),
+      })));
+    } catch (err) {
+      console.error('Queued analysis failed:', err);
+      const now = Date.now();
+      if (isOffline()) {
+        await commit(deferJob(job, err));
+      } else if (isRateLimitError(err)) {
+        const until = now + rateLimitPause(err, ++rateLimitStrikesRef.current, now);
+        pausedUntilRef.current = Math.max(pausedUntilRef.current, until);
+        setPausedUntil(pausedUntilRef.current);
+        await commit(deferJob(job, err, until));
+      } else {
+        await commit(failJob(job, err, now));
+      }
+    }
+  }, [commit]);
+
+  const run = useCallback(() => {
+    const now = Date.now();
+    if (pausedUntilRef.current <= now && pausedUntilRef.current !== 0) {
+      pausedUntilRef.current = 0;
+      setPausedUntil(null);
+    }
+
+    // Fill free worker slots
+    while (
+      workersRef.current < concurrencyRef.current &&
+      pausedUntilRef.current === 0 &&
+      !isOffline() &&
+      (isReplaying() || getActiveProvider().isReady())
+    ) {
+      const job = nextJob(itemsRef.current, Date.now());
+      if (!job) break;
+      workersRef.current++;
+      processJob(job).finally(() => {
+        workersRef.current--;
+        run();
+      });
+    }
+
+    // Sleep until the next backoff or rate-limit pause expires
+    if (timerRef.current) clearTimeout(timerRef.current);
+    const wakeups = [nextWakeup(itemsRef.current), pausedUntilRef.current || null].filter((t): t is number => t !== null);
+    if (wakeups.length > 0 && !isOffline()) {
+      timerRef.current = setTimeout(run, Math.max(0, Math.min(...wakeups) - Date.now()));
+    }
+  }, [processJob]);
+
+  // Load the persisted queue and resume anything interrupted by a reload
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const settings = await storage.getSettings();
+        concurrencyRef.current = settings.analysisConcurrency || DEFAULT_CONCURRENCY;
+        setConcurrencyState(concurrencyRef.current);
+
+        const stored = await storage.getQueueItems();
+        const interrupted = stored.filter(i => i.status === 'analyzing').map(i => ({ ...i, status: 'queued' as const }));
+        itemsRef.current = stored;
+        await commit(interrupted);
+        run();
+      } catch (err) {
+        console.error('Failed to load analysis queue:', err);
+      }
+    };
+    load();
+  }, [commit, run]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      run();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, [run]);
+
+  const enqueueFiles = useCallback(async (files: File[]) => {
+    let position = Math.max(0, ...itemsRef.current.map(i => i.position + 1));
+
+    for (const file of files) {
+      let item: QueuedPhoto;
+      try {
+        const metadata = await readPhotoMetadata(file);
+        let measurements: ImageMeasurements | undefined;
+        const imageData = await compressImage(await fileToBase64(file), 1280, (canvas, original) => {
+          measurements = measureCanvas(canvas, original);
+        });
+        item = {
+          id: `${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+          fileName: file.name,
+          imageData,
+          metadata,
+          quality: measurements && assessQuality(measurements, knownPhotos(itemsRef.current, reportsRef.current)),
+          location: locationFromMetadata(metadata) || undefined,
+          position: position++,
+          status: 'pending',
+          attempts: 0,
+          addedAt: Date.now(),
+        };
+        itemsRef.current = [...itemsRef.current, item];
+        setItems(itemsRef.current);
+        await storage.saveQueueItems([item]);
+      } catch (err) {
+        console.error(`Failed to add ${file.name} to the queue:`, err);
+        continue;
+      }
+
+      // Fill the street address from the GPS fix, unless a location was set by hand meanwhile.
+      // The photo is queued either way; without an address it keeps its coordinates.
+      if (item.location) {
+        try {
+          const geocoded = await fillAddress(item.location);
+          const current = itemsRef.current.find(i => i.id === item.id);
+          if (current && current.location?.source === 'exif') {
+            await commit([{ ...current, location: geocoded }]);
+          }
+        } catch (err) {
+          console.warn(`Address lookup failed for ${file.name}; it stays queued with its GPS coordinates:`, err);
+        }
+      }
+    }
+  }, [commit]);
+
+  const updateItem = useCallback(async (id: string, changes: Partial<Pick<QueuedPhoto, 'caption' | 'location'>>) => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (item) await commit([{ ...item, ...changes }]);
+  }, [commit]);
+
+  const removeItem = useCallback(async (id: string) => {
+    itemsRef.current = itemsRef.current.filter(i => i.id !== id);
+    setItems(itemsRef.current);
+    await storage.deleteQueueItems([id]);
+  }, []);
+
+  // Swap with the previous pending photo
+  const moveUp = useCallback(async (id: string) => {
+    const pending = itemsRef.current.filter(i => i.status === 'pending');
+    const index = pending.findIndex(i => i.id === id);
+    if (index <= 0) return;
+    const [above, item] = [pending[index - 1], pending[index]];
+    const swapped = [{ ...item, position: above.position }, { ...above, position: item.position }];
+    const byId = new Map(swapped.map(i => [i.id, i]));
+    itemsRef.current = itemsRef.current.map(i => byId.get(i.id) || i).sort((a, b) => a.position - b.position);
+    setItems(itemsRef.current);
+    await storage.saveQueueItems(swapped);
+  }, []);
+
+  /**
+   * Submit pending photos for analysis. Photos without a location are left
+   * pending unless demo mode supplies one. Submitted photos are filed under
+   * `incidentId`, even if the active incident changes before they finish.
+   * Returns how many were submitted.
+   */
+  const start = useCallback(async (options: { asProperty: boolean; demoMode: boolean; incidentId: string }): Promise<number> => {
+    const pending = itemsRef.current.filter(i => i.status === 'pending');
+    if (pending.length === 0) return 0;
+
+    const batchId = `BATCH_${Date.now()}`;
+    let submitted: QueuedPhoto[];
+    if (options.asProperty && pending.length > 1) {
+      const location = pending.find(i => i.location)?.location || (options.demoMode ? generateDemoLocation() : undefined);
+      if (!location) return 0;
+      const groupId = `GRP_${Date.now()}`;
+      submitted = pending.map(i => ({ ...i, groupId, batchId, incidentId: options.incidentId, location: i.location || location, status: 'queued' as const }));
+    } else {
+      submitted = pending
+        .map(i => ({ ...i, location: i.location || (options.demoMode ? generateDemoLocation() : undefined) }))
+        .filter(i => i.location)
+        .map(i => ({ ...i, batchId, incidentId: options.incidentId, status: 'queued' as const }));
+    }
+
+    await commit(submitted);
+    run();
+    return submitted.length;
+  }, [commit, run]);
+
+  // Manually retry a parked item (and the rest of its property group)
+  const retryItem = useCallback(async (id: string) => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (!item) return;
+    const targets = item.groupId ? itemsRef.current.filter(i => i.groupId === item.groupId && i.status === 'error') : [item];
+    await commit(targets.map(i => ({ ...i, status: 'queued' as const, attempts: 0, nextAttemptAt: undefined })));
+    run();
+  }, [commit, run]);
+
+  // Persisted in settings so the choice survives reloads
+  const setConcurrency = useCallback(async (value: number) => {
+    const next = Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(value)));
+    concurrencyRef.current = next;
+    setConcurrencyState(next);
+    run();
+    try {
+      const settings = await storage.getSettings();
+      await storage.saveSettings({ ...settings, analysisConcurrency: next });
+    } catch (err) {
+      console.error('Failed to save concurrency setting:', err);
+    }
+  }, [run]);
+
+  const clearCompleted = useCallback(async () => {
+    const done = itemsRef.current.filter(i => i.status === 'completed').map(i => i.id);
+    itemsRef.current = itemsRef.current.filter(i => i.status !== 'completed');
+    setItems(itemsRef.current);
+    await storage.deleteQueueItems(done);
+  }, []);
+
+  return {
+    items,
+    online,
+    concurrency,
+    pausedUntil,
+    setConcurrency,
+    enqueueFiles,
+    updateItem,
+    removeItem,
+    moveUp,
+    start,
+    retryItem,
+    clearCompleted,
+    resume: run,
+  };
+}
+
+export type AnalysisQueue = ReturnType<typeof useAnalysisQueue>;
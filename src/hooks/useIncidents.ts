@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Incident } from '../types';
+import * as storage from '../services/storageService';
+
+/**
+ * Incidents and the active one. The active incident is kept in settings so
+ * a reload comes back to the same disaster; without a stored choice the
+ * most recently created incident is active.
+ */
+export function useIncidents() {
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [activeIncidentId, setActiveIncidentId] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+
+  const loadIncidents = useCallback(async () => {
+    try {
+      const [all, settings] = await Promise.all([storage.getAllIncidents(), storage.getSettings()]);
+      setIncidents(all);
+      const stored = all.find(i => i.id === settings.activeIncidentId);
+      setActiveIncidentId(stored?.id ?? all[0]?.id);
+    } catch (err) {
+      console.error('Failed to load incidents:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadIncidents();
+  }, [loadIncidents]);
+
+  const selectIncident = useCallback(async (id: string) => {
+    setActiveIncidentId(id);
+    const settings = await storage.getSettings();
+    await storage.saveSettings({ ...settings, activeIncidentId: id });
+  }, []);
+
+  // A newly created incident becomes the active one
+  const saveIncident = useCallback(async (incident: Incident) => {
+    await storage.saveIncident(incident);
+    const created = !incidents.some(i => i.id === incident.id);
+    setIncidents(created ? [incident, ...incidents] : incidents.map(i => (i.id === incident.id ? incident : i)));
+    if (created) await selectIncident(incident.id);
+    return incident;
+  }, [incidents, selectIncident]);
+
+  const deleteIncident = useCallback(async (id: string) => {
+    await storage.deleteIncident(id);
+    const remaining = incidents.filter(i => i.id !== id);
+    setIncidents(remaining);
+    if (activeIncidentId === id && remaining[0]) await selectIncident(remaining[0].id);
+  }, [incidents, activeIncidentId, selectIncident]);
+
+  const activeIncident = incidents.find(i => i.id === activeIncidentId);
+
+  return {
+    incidents,
+    activeIncident,
+    activeIncidentId: activeIncident?.id,
+    loading,
+    selectIncident,
+    saveIncident,
+    deleteIncident,
+    refresh: loadIncidents,
+  };
+}
+
+export type IncidentsState = ReturnType<typeof useIncidents>;
@@ -1,6 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
-import { DamageReport } from '../types';
+import { ChangeContext, DamageReport } from '../types';
 import * as storage from '../services/storageService';
+import { analyzeProperty } from '../services/claudeService';
+import { diffAnalyses } from '../services/auditService';
+import { reviewAfterReanalysis } from '../services/reviewService';
 
 export function useReports() {
   const [reports, setReports] = useState<DamageReport[]>([]);
@@ -37,9 +40,9 @@ export function useReports() {
     }
   }, []);
 
-  const updateReport = useCallback(async (id: string, updates: Partial<DamageReport>) => {
+  const updateReport = useCallback(async (id: string, updates: Partial<DamageReport>, context?: ChangeContext) => {
     try {
-      const updated = await storage.updateReport(id, updates);
+      const updated = await storage.updateReport(id, updates, context);
       if (updated) {
         setReports(prev => prev.map(r => r.id === id ? updated : r));
       }
@@ -50,9 +53,64 @@ export function useReports() {
     }
   }, []);
 
-  const deleteReport = useCallback(async (id: string) => {
+  const restoreVersion = useCallback(async (id: string, version: number, context?: ChangeContext) => {
     try {
-      const success = await storage.deleteReport(id);
+      const restored = await storage.restoreReportVersion(id, version, context);
+      if (restored) {
+        setReports(prev => prev.map(r => r.id === id ? restored : r));
+      }
+      return restored;
+    } catch (err) {
+      setError('Failed to restore report');
+      throw err;
+    }
+  }, []);
+
+  const mergeReports = useCallback(async (primaryId: string, duplicateIds: string[], context?: ChangeContext) => {
+    try {
+      const merged = await storage.mergeReports(primaryId, duplicateIds, context);
+      setReports(prev => prev
+        .filter(r => !duplicateIds.includes(r.id) || r.id === primaryId)
+        .map(r => r.id === primaryId ? merged : r));
+      return merged;
+    } catch (err) {
+      setError('Failed to merge reports');
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Grade a report's photos again with the response cache bypassed. The new
+   * answer replaces the cached one; what changed is kept on the report and,
+   * field by field, in the audit trail.
+   */
+  const reanalyzeReport = useCallback(async (id: string, context?: ChangeContext) => {
+    const report = await storage.getReport(id);
+    if (!report) {
+      throw new Error('Report not found');
+    }
+    const photos = report.photos?.length
+      ? report.photos.map(p => ({ imageData: p.imageData, caption: p.caption }))
+      : [{ imageData: report.imageData }];
+
+    const analysis = await analyzeProperty(photos, undefined, { bypassCache: true });
+    const changes = diffAnalyses(report.analysis, analysis);
+    const review = reviewAfterReanalysis(report, analysis);
+    const reason = changes.length === 0
+      ? 'Re-analyzed: same answer'
+      : `Re-analyzed: ${changes.length} field${changes.length === 1 ? '' : 's'} changed${report.review && !review ? '; review cleared' : ''}`;
+
+    return updateReport(id, {
+      analysis,
+      review,
+      reanalysis: { at: analysis.analysisTimestamp, previousModel: report.analysis?.model, changes },
+      boxEdits: undefined, // Box corrections refer to the previous answer's detections
+    }, { ...context, reason: context?.reason || reason });
+  }, [updateReport]);
+
+  const deleteReport = useCallback(async (id: string, context?: ChangeContext) => {
+    try {
+      const success = await storage.deleteReport(id, context);
       if (success) {
         setReports(prev => prev.filter(r => r.id !== id));
       }
@@ -98,6 +156,9 @@ export function useReports() {
     error,
     addReport,
     updateReport,
+    restoreVersion,
+    reanalyzeReport,
+    mergeReports,
     deleteReport,
     exportData,
     importData,
@@ -0,0 +1,207 @@
+import { QueuedPhoto, TokenUsage } from '../types';
+
+/**
+ * Scheduling rules for the persistent analysis queue.
+ *
+ * The queue itself lives in IndexedDB and is driven by useAnalysisQueue;
+ * these helpers decide what runs next and how failures are retried.
+ */
+
+// Failed attempts before an item is parked as 'error' for manual retry
+export const MAX_ATTEMPTS = 6;
+
+// Parallel analysis requests
+export const DEFAULT_CONCURRENCY = 2;
+export const MAX_CONCURRENCY = 6;
+
+const BASE_RETRY_DELAY_MS = 15_000;
+const MAX_RETRY_DELAY_MS = 30 * 60_000;
+
+// One unit of work: a single photo, or every photo of a property group
+export type QueueJob = QueuedPhoto[];
+
+/**
+ * Exponential backoff with ±20% jitter so a crew's devices don't all retry
+ * at once when signal returns: 15s, 30s, 1m, 2m, 4m ... capped at 30m.
+ */
+export function retryDelay(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Whether a failure is worth retrying: network failures, timeouts, rate
+ * limits and server errors. Anything else fails the same way again, and each
+ * attempt can cost several paid calls: a bad API key (401/403), a rejected
+ * request (400), an answer still invalid after schema repair, or a provider
+ * that isn't set up.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return status === 408 || status === 409 || status === 429 || status >= 500;
+  return isNetworkError(error);
+}
+
+// Browsers word a failed fetch differently; the Anthropic SDK says "Connection error." or "Request timed out."
+const NETWORK_ERROR = /failed to fetch|networkerror|load failed|connection error|timed out/i;
+
+function isNetworkError(error: unknown): boolean {
+  return error instanceof Error && NETWORK_ERROR.test(error.message);
+}
+
+/**
+ * 429 (rate limited) and 529 (overloaded) mean "slow down", not "this photo
+ * failed": the whole queue pauses and the attempt isn't counted.
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  if (status === 429 || status === 529) return true;
+  return error instanceof Error && /overloaded|rate.?limit/i.test(error.message);
+}
+
+/**
+ * Server-requested wait from a Retry-After header (seconds or HTTP date).
+ */
+function retryAfterMs(error: unknown, now: number): number | undefined {
+  const headers = (error as { headers?: { get?: (name: string) => string | null } })?.headers;
+  const value = typeof headers?.get === 'function' ? headers.get('retry-after') : null;
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * How long to pause the queue after the Nth consecutive rate-limit response.
+ */
+export function rateLimitPause(error: unknown, strikes: number, now: number): number {
+  return Math.max(retryAfterMs(error, now) ?? 0, retryDelay(strikes));
+}
+
+function isDue(item: QueuedPhoto, now: number): boolean {
+  return item.status === 'queued' && (item.nextAttemptAt ?? 0) <= now;
+}
+
+/**
+ * Next job that may run now, in queue order. A property group runs only
+ * when none of its photos is still analyzing.
+ */
+export function nextJob(items: QueuedPhoto[], now: number): QueueJob | null {
+  for (const item of items) {
+    if (!isDue(item, now)) continue;
+    if (!item.groupId) return [item];
+
+    const group = items.filter(i => i.groupId === item.groupId);
+    if (group.every(i => i.status === 'queued' || i.status === 'error')) {
+      return group.filter(i => i.status === 'queued').sort((a, b) => a.position - b.position);
+    }
+  }
+  return null;
+}
+
+/**
+ * Time of the earliest pending retry, if any, so the runner can sleep until then.
+ */
+export function nextWakeup(items: QueuedPhoto[]): number | null {
+  const times = items
+    .filter(i => i.status === 'queued' && i.nextAttemptAt !== undefined)
+    .map(i => i.nextAttemptAt!);
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Analysis failed';
+}
+
+/**
+ * Put a job back without counting an attempt (offline, rate limited).
+ * With no retry time it runs again as soon as the queue can.
+ */
+export function deferJob(job: QueueJob, error: unknown, retryAt?: number): QueuedPhoto[] {
+  return job.map(item => ({ ...item, status: 'queued', error: errorMessage(error), nextAttemptAt: retryAt }));
+}
+
+/**
+ * Apply a failed attempt to the items of a job.
+ */
+export function failJob(job: QueueJob, error: unknown, now: number): QueuedPhoto[] {
+  const message = errorMessage(error);
+
+  return job.map(item => {
+    const attempts = item.attempts + 1;
+    if (!isRetryableError(error) || attempts >= MAX_ATTEMPTS) {
+      return { ...item, status: 'error', attempts, error: message, nextAttemptAt: undefined };
+    }
+    return { ...item, status: 'queued', attempts, error: message, nextAttemptAt: now + retryDelay(attempts) };
+  });
+}
+
+// =============================================================================
+// BATCH PROGRESS
+// =============================================================================
+
+export interface BatchSummary {
+  batchId: string;
+  jobs: number; // Reports to produce; a property group counts once
+  completed: number;
+  failed: number;
+  remaining: number; // Queued or analyzing
+  analyzing: number;
+  tokenUsage: TokenUsage;
+  costUsd: number;
+  costIncomplete: boolean; // Some jobs used a model without known pricing
+  avgDurationMs?: number;
+  etaMs?: number;
+}
+
+// Batch ids are "BATCH_<epoch ms>", so the greatest id is the newest batch
+export function latestBatchId(items: QueuedPhoto[]): string | undefined {
+  return items.reduce<string | undefined>((latest, i) => (i.batchId && (!latest || i.batchId > latest) ? i.batchId : latest), undefined);
+}
+
+export function summarizeBatch(items: QueuedPhoto[], batchId: string, concurrency: number): BatchSummary {
+  // One representative photo per job; every photo in a job carries the job's usage
+  const jobs = new Map<string, QueuedPhoto>();
+  for (const item of items) {
+    if (item.batchId === batchId && !jobs.has(item.groupId || item.id)) jobs.set(item.groupId || item.id, item);
+  }
+
+  const summary: BatchSummary = {
+    batchId,
+    jobs: jobs.size,
+    completed: 0,
+    failed: 0,
+    remaining: 0,
+    analyzing: 0,
+    tokenUsage: { inputTokens: 0, outputTokens: 0 },
+    costUsd: 0,
+    costIncomplete: false,
+  };
+  const durations: number[] = [];
+
+  for (const job of jobs.values()) {
+    if (job.status === 'completed') {
+      summary.completed++;
+      if (job.durationMs !== undefined) durations.push(job.durationMs);
+      summary.tokenUsage.inputTokens += job.tokenUsage?.inputTokens || 0;
+      summary.tokenUsage.outputTokens += job.tokenUsage?.outputTokens || 0;
+      if (job.costUsd === undefined) summary.costIncomplete = true;
+      else summary.costUsd += job.costUsd;
+    } else if (job.status === 'error') {
+      summary.failed++;
+    } else {
+      summary.remaining++;
+      if (job.status === 'analyzing') summary.analyzing++;
+    }
+  }
+
+  if (durations.length > 0) {
+    summary.avgDurationMs = durations.reduce((a, b) => a + b, 0) / durations.length;
+    if (summary.remaining > 0) {
+      summary.etaMs = Math.ceil(summary.remaining / Math.max(1, concurrency)) * summary.avgDurationMs;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,239 @@
+/**
+ * DamageAnalysis Response Schema
+ *
+ * Single source of truth for the JSON the vision model must return.
+ * The same definition renders the schema text in the prompt and validates
+ * the parsed response at runtime, so the two can never drift apart.
+ */
+
+import { DamageSeverity, DebrisType, HomeType, IncidentType } from '../types';
+
+interface BaseNode {
+  description?: string;
+  optional?: boolean; // Key may be omitted
+  nullable?: boolean; // Value may be null
+}
+
+export type SchemaNode =
+  | (BaseNode & { kind: 'string' })
+  | (BaseNode & { kind: 'number'; min?: number; max?: number; integer?: boolean })
+  | (BaseNode & { kind: 'boolean' })
+  | (BaseNode & { kind: 'enum'; values: readonly string[] })
+  | (BaseNode & { kind: 'array'; items: SchemaNode; example?: string })
+  | (BaseNode & { kind: 'object'; fields: Record<string, SchemaNode> });
+
+const SEVERITY_VALUES = Object.values(DamageSeverity);
+
+export const DAMAGE_ANALYSIS_SCHEMA: SchemaNode = {
+  kind: 'object',
+  fields: {
+    overallSeverity: { kind: 'enum', values: SEVERITY_VALUES },
+    incidentType: { kind: 'enum', values: Object.values(IncidentType) },
+    summary: { kind: 'string', description: "One sentence summary starting with severity level, e.g., 'MAJOR: Water line at outlet height indicates significant flood damage'" },
+    structuralAssessment: { kind: 'string', description: 'Status of the envelope - walls, roof, foundation. Is it intact, damaged, or breached?' },
+    debrisAssessment: { kind: 'string', description: 'What debris is visible? Is it structural (from the house) or household (contents/cleanup)?' },
+    pdaJustification: { kind: 'string', description: 'Step-by-step reasoning following FEMA July 2025 decision order' },
+    homeType: { kind: 'enum', values: Object.values(HomeType) },
+    floodEvidence: {
+      kind: 'object',
+      optional: true,
+      nullable: true,
+      fields: {
+        waterLineDetected: { kind: 'boolean' },
+        waterLineReference: {
+          kind: 'enum',
+          nullable: true,
+          optional: true,
+          values: [
+            'below_floor_system',
+            'in_floor_system_only',
+            'in_living_space_below_ceiling',
+            'at_or_above_ceiling',
+            'unfinished_basement_only',
+            'below_outlets',
+            'at_or_above_outlets',
+          ],
+        },
+        estimatedHeightInches: { kind: 'number', min: 0, nullable: true, optional: true },
+        contaminationPresent: { kind: 'boolean', optional: true },
+        longDurationFlooding: { kind: 'boolean', optional: true },
+        basementMechanicalDamage: { kind: 'boolean', optional: true },
+      },
+    },
+    structuralIndicators: {
+      kind: 'object',
+      optional: true,
+      nullable: true,
+      fields: {
+        roofDamage: { kind: 'enum', values: ['none', 'covering_only', 'structural_ribbing', 'collapsed'] },
+        wallDamage: { kind: 'enum', values: ['none', 'nonstructural', 'structural', 'collapsed'] },
+        foundationStatus: { kind: 'enum', values: ['intact', 'cracked', 'displaced', 'failed'] },
+        frameCompromised: { kind: 'boolean' },
+        displacedFromFoundation: { kind: 'boolean' },
+        structuralComponentsFailedCount: { kind: 'number', min: 0, integer: true },
+      },
+    },
+    reasonCodes: {
+      kind: 'array',
+      items: { kind: 'string' },
+      example: '"waterline_at_or_above_outlets", "water_contaminated", ...',
+    },
+    detections: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: {
+          object: { kind: 'string', description: 'Name of damaged item or debris' },
+          type: { kind: 'enum', values: Object.values(DebrisType) },
+          severity: { kind: 'enum', values: SEVERITY_VALUES },
+          description: { kind: 'string', description: 'Brief description of this specific damage' },
+          confidence: { kind: 'number', min: 0, max: 100, description: '85' },
+          photoIndex: { kind: 'number', min: 0, integer: true, optional: true, description: '0' },
+          box: {
+            kind: 'object',
+            optional: true,
+            nullable: true,
+            fields: {
+              x: { kind: 'number', min: 0, max: 1, description: '0.12 (left edge, fraction of photo width)' },
+              y: { kind: 'number', min: 0, max: 1, description: '0.40 (top edge, fraction of photo height)' },
+              width: { kind: 'number', min: 0, max: 1, description: '0.30' },
+              height: { kind: 'number', min: 0, max: 1, description: '0.25' },
+              polygon: {
+                kind: 'array',
+                optional: true,
+                nullable: true,
+                items: {
+                  kind: 'object',
+                  fields: {
+                    x: { kind: 'number', min: 0, max: 1 },
+                    y: { kind: 'number', min: 0, max: 1 },
+                  },
+                },
+                example: '{ "x": 0.12, "y": 0.52 }, { "x": 0.30, "y": 0.40 }, ... (optional outline of irregular damage, 3 or more points inside the box)',
+              },
+            },
+          },
+        },
+      },
+    },
+    recommendations: {
+      kind: 'array',
+      items: { kind: 'string' },
+      example: '"Action item 1", "Action item 2"',
+    },
+    confidence: { kind: 'number', min: 0, max: 100, description: '90' },
+    accessBlocked: { kind: 'boolean', optional: true },
+  },
+};
+
+// =============================================================================
+// PROMPT RENDERING
+// =============================================================================
+
+function renderNode(node: SchemaNode, indent: string): string {
+  const nullSuffix = node.nullable ? ' | null' : '';
+  switch (node.kind) {
+    case 'string':
+      return `"${node.description || 'string'}"`;
+    case 'number':
+      return node.description || `number${node.nullable ? ' or null' : ''}`;
+    case 'boolean':
+      return 'true/false';
+    case 'enum':
+      return node.values.map(v => `"${v}"`).join(' | ') + nullSuffix;
+    case 'array':
+      if (node.example) return `[${node.example}]`;
+      return `[\n${indent}  ${renderNode(node.items, indent + '  ')}\n${indent}]`;
+    case 'object': {
+      const lines = Object.entries(node.fields).map(
+        ([key, child]) => `${indent}  "${key}": ${renderNode(child, indent + '  ')}`
+      );
+      return `{\n${lines.join(',\n')}\n${indent}}`;
+    }
+  }
+}
+
+/**
+ * Render the schema in the compact pseudo-JSON form used in the prompt.
+ */
+export function renderSchemaForPrompt(schema: SchemaNode = DAMAGE_ANALYSIS_SCHEMA): string {
+  return renderNode(schema, '');
+}
+
+// =============================================================================
+// RUNTIME VALIDATION
+// =============================================================================
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+  return typeof value === 'object' ? 'object' : String(value);
+}
+
+function validateNode(value: unknown, node: SchemaNode, path: string, errors: string[]): void {
+  if (value === null) {
+    if (!node.nullable) errors.push(`${path}: must not be null`);
+    return;
+  }
+
+  switch (node.kind) {
+    case 'string':
+      if (typeof value !== 'string' || value.trim() === '') {
+        errors.push(`${path}: expected a non-empty string, got ${describeValue(value)}`);
+      }
+      return;
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        errors.push(`${path}: expected a number, got ${describeValue(value)}`);
+      } else if (node.integer && !Number.isInteger(value)) {
+        errors.push(`${path}: expected an integer, got ${value}`);
+      } else if ((node.min !== undefined && value < node.min) || (node.max !== undefined && value > node.max)) {
+        errors.push(`${path}: ${value} is outside ${node.min ?? '-∞'}..${node.max ?? '∞'}`);
+      }
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${path}: expected true/false, got ${describeValue(value)}`);
+      }
+      return;
+    case 'enum':
+      if (typeof value !== 'string' || !node.values.includes(value)) {
+        errors.push(`${path}: expected one of ${node.values.join(' | ')}, got ${describeValue(value)}`);
+      }
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${path}: expected an array, got ${describeValue(value)}`);
+        return;
+      }
+      value.forEach((item, i) => validateNode(item, node.items, `${path}[${i}]`, errors));
+      return;
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${path}: expected an object, got ${describeValue(value)}`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const [key, child] of Object.entries(node.fields)) {
+        const childPath = path ? `${path}.${key}` : key;
+        if (!(key in record) || record[key] === undefined) {
+          if (!child.optional) errors.push(`${childPath}: required field is missing`);
+          continue;
+        }
+        validateNode(record[key], child, childPath, errors);
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Validate a parsed model response. Returns one message per problem;
+ * an empty list means the response matches the schema.
+ */
+export function validateAgainstSchema(value: unknown, schema: SchemaNode = DAMAGE_ANALYSIS_SCHEMA): string[] {
+  const errors: string[] = [];
+  validateNode(value, schema, '', errors);
+  return errors.map(e => (e.startsWith(':') ? `(root)${e}` : e));
+}
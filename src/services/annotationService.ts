@@ -0,0 +1,169 @@
+/**
+ * Annotation Service
+ *
+ * Detection boxes as shown and exported. A box may carry a polygon outline
+ * for damage that a rectangle fits badly, such as a debris field or a
+ * water line along a wall; the box is then the outline's bounds. The
+ * model's boxes stay in the analysis untouched; a reviewer's corrections
+ * are kept beside it on the report and win over the model's box for the
+ * same detection.
+ */
+
+import { BoundingBox, DamageReport, DamageSeverity, Detection, DetectionBoxEdit, PhotoPoint } from '../types';
+
+export interface AnnotatedDetection extends Detection {
+  index: number; // Index into DamageAnalysis.detections
+  boxSource?: 'model' | 'reviewer';
+}
+
+// Boxes smaller than this (fraction of either side) are treated as a stray click
+const MIN_BOX_SIDE = 0.01;
+
+const MIN_POLYGON_POINTS = 3;
+
+export const SEVERITY_BOX_COLORS: Record<DamageSeverity, string> = {
+  [DamageSeverity.INACCESSIBLE]: '#a855f7',
+  [DamageSeverity.DESTROYED]: '#dc2626',
+  [DamageSeverity.MAJOR]: '#f97316',
+  [DamageSeverity.MINOR]: '#eab308',
+  [DamageSeverity.AFFECTED]: '#3b82f6',
+  [DamageSeverity.NO_VISIBLE_DAMAGE]: '#64748b',
+  [DamageSeverity.UNKNOWN]: '#6b7280',
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Smallest box around the points
+function boundsOf(points: PhotoPoint[]): BoundingBox {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Clip a box, or its outline, to the photo. An outline with fewer than three
+ * points is dropped and the box kept. Returns undefined for boxes with no
+ * usable area.
+ */
+export function normalizeBox(box: Omit<BoundingBox, 'polygon'> & { polygon?: PhotoPoint[] | null }): BoundingBox | undefined {
+  const polygon = box.polygon?.map(p => ({ x: clamp(p.x), y: clamp(p.y) }));
+  if (polygon && polygon.length >= MIN_POLYGON_POINTS) {
+    const bounds = boundsOf(polygon);
+    if (bounds.width >= MIN_BOX_SIDE && bounds.height >= MIN_BOX_SIDE) return { ...bounds, polygon };
+  }
+
+  const x = clamp(box.x);
+  const y = clamp(box.y);
+  const width = clamp(box.x + box.width) - x;
+  const height = clamp(box.y + box.height) - y;
+  if (!(width >= MIN_BOX_SIDE && height >= MIN_BOX_SIDE)) return undefined;
+  return { x, y, width, height };
+}
+
+/**
+ * Box from two corner points in any order, e.g. the start and end of a drag.
+ */
+export function boxFromCorners(a: PhotoPoint, b: PhotoPoint): BoundingBox | undefined {
+  return normalizeBox(boundsOf([a, b]));
+}
+
+/**
+ * Outlined box from points clicked around the damage. Returns undefined
+ * until the outline has three points and some area.
+ */
+export function boxFromPolygon(points: PhotoPoint[]): BoundingBox | undefined {
+  if (points.length < MIN_POLYGON_POINTS) return undefined;
+  const box = normalizeBox({ ...boundsOf(points), polygon: points });
+  return box?.polygon ? box : undefined;
+}
+
+/**
+ * The report's detections with the box to show for each: the reviewer's
+ * if there is one, otherwise the model's.
+ */
+export function annotatedDetections(report: DamageReport): AnnotatedDetection[] {
+  const edits = new Map((report.boxEdits || []).map(edit => [edit.detectionIndex, edit]));
+  return (report.analysis?.detections || []).map((detection, index) => {
+    const edit = edits.get(index);
+    if (edit) {
+      return { ...detection, index, box: edit.box ?? undefined, boxSource: edit.box ? 'reviewer' : undefined };
+    }
+    return { ...detection, index, boxSource: detection.box ? 'model' : undefined };
+  });
+}
+
+/**
+ * Boxed detections on one photo. Detections without a photoIndex come from
+ * single-photo analyses and belong to the cover photo.
+ */
+export function boxesOnPhoto(detections: AnnotatedDetection[], photoIndex: number): AnnotatedDetection[] {
+  return detections.filter(d => d.box && (d.photoIndex ?? 0) === photoIndex);
+}
+
+/**
+ * The report's box edits with one detection's box replaced. Passing
+ * undefined drops the edit, restoring the model's box.
+ */
+export function withBoxEdit(
+  report: DamageReport,
+  detectionIndex: number,
+  box: BoundingBox | null | undefined,
+  now: number = Date.now()
+): DetectionBoxEdit[] | undefined {
+  const others = (report.boxEdits || []).filter(edit => edit.detectionIndex !== detectionIndex);
+  const edits = box === undefined ? others : [...others, { detectionIndex, box, editedAt: now }];
+  return edits.length > 0 ? edits.sort((a, b) => a.detectionIndex - b.detectionIndex) : undefined;
+}
+
+/**
+ * Draw numbered, severity-coloured boxes and outlines onto a photo for the PDF.
+ * Returns a JPEG data URL at the photo's own resolution.
+ */
+export function renderAnnotatedImage(imageData: string, detections: AnnotatedDetection[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Failed to get canvas context'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0);
+
+      const stroke = Math.max(2, Math.round(canvas.width / 250));
+      const fontSize = Math.max(12, Math.round(canvas.width / 40));
+      ctx.font = `bold ${fontSize}px sans-serif`;
+      ctx.textBaseline = 'top';
+      for (const detection of detections) {
+        if (!detection.box) continue;
+        const { x, y, width, height, polygon } = detection.box;
+        const color = SEVERITY_BOX_COLORS[detection.severity];
+        ctx.lineWidth = stroke;
+        ctx.strokeStyle = color;
+        if (polygon) {
+          ctx.beginPath();
+          polygon.forEach(p => ctx.lineTo(p.x * canvas.width, p.y * canvas.height));
+          ctx.closePath();
+          ctx.stroke();
+        } else {
+          ctx.strokeRect(x * canvas.width, y * canvas.height, width * canvas.width, height * canvas.height);
+        }
+
+        const label = String(detection.index + 1);
+        const labelWidth = ctx.measureText(label).width + fontSize / 2;
+        ctx.fillStyle = color;
+        ctx.fillRect(x * canvas.width, y * canvas.height, labelWidth, fontSize * 1.2);
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(label, x * canvas.width + fontSize / 4, y * canvas.height + fontSize * 0.1);
+      }
+      resolve(canvas.toDataURL('image/jpeg', 0.9));
+    };
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = imageData;
+  });
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { DamageReport, ReportChange, ReportPhoto } from '../types';
+import { diffReports, reportAtVersion } from './auditService';
+
+const photo = (id: string, caption?: string): ReportPhoto => ({ id, imageData: `data:image/jpeg;base64,${id}`, caption });
+
+function report(photos: ReportPhoto[]): DamageReport {
+  return {
+    id: 'RPT_1',
+    createdAt: 0,
+    updatedAt: 0,
+    imageData: photos[0].imageData,
+    photos,
+    location: { lat: 27.77, lng: -82.63, address: '12 Palm Ave' },
+    status: 'completed',
+  };
+}
+
+const change = (version: number, before: DamageReport, after: DamageReport): ReportChange => ({
+  id: `CHG_${version}`,
+  reportId: before.id,
+  version,
+  action: 'updated',
+  author: 'Test',
+  at: version,
+  changes: diffReports(before, after),
+});
+
+describe('diffReports on photo sets', () => {
+  it('logs only the added photo, not the whole set again', () => {
+    const before = report([photo('A'), photo('B')]);
+    const after = report([photo('A'), photo('B'), photo('C')]);
+    expect(diffReports(before, after)).toEqual([
+      { path: 'photos.2', before: undefined, after: photo('C') },
+      { path: 'photos.length', before: 2, after: 3 },
+    ]);
+  });
+
+  it('logs a caption edit as that caption alone', () => {
+    const before = report([photo('A'), photo('B')]);
+    const after = report([photo('A'), photo('B', 'Kitchen')]);
+    expect(diffReports(before, after)).toEqual([{ path: 'photos.1.caption', before: undefined, after: 'Kitchen' }]);
+  });
+
+  it('restores earlier versions through adds and removals', () => {
+    const v1 = report([photo('A'), photo('B', 'Porch')]);
+    const v2 = report([photo('A'), photo('B', 'Porch'), photo('C')]);
+    const v3 = report([photo('A')]);
+    const log = [change(2, v1, v2), change(3, v2, v3)];
+    expect(reportAtVersion(v3, log, 2)).toEqual(v2);
+    expect(reportAtVersion(v3, log, 1)).toEqual(v1);
+  });
+});
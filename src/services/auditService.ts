@@ -0,0 +1,116 @@
+/**
+ * Audit Service
+ *
+ * Field-level diffs between versions of a DamageReport. Nested objects are
+ * compared field by field, and so are arrays of objects (photos, detections),
+ * element by element; primitives and arrays of primitives are compared as
+ * whole values. Applying the diffs of later changes in reverse turns the
+ * current record back into any earlier version, so the log never needs to
+ * store full copies of a report (and its photos) to support restore.
+ */
+
+import { DamageAnalysis, DamageReport, FieldChange, ReportChange } from '../types';
+
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Arrays whose elements are diffed one by one, so adding a photo logs only that photo
+function isObjectArray(value: unknown): value is unknown[] {
+  return Array.isArray(value) && value.some(isPlainObject);
+}
+
+function diffValues(before: unknown, after: unknown, path: string, out: FieldChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      diffValues(before[key], after[key], path ? `${path}.${key}` : key, out);
+    }
+  } else if (Array.isArray(before) && Array.isArray(after) && (isObjectArray(before) || isObjectArray(after))) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      diffValues(before[i], after[i], `${path}.${i}`, out);
+    }
+    // After the elements, so reverting an append truncates instead of leaving a hole
+    if (before.length !== after.length) {
+      out.push({ path: `${path}.length`, before: before.length, after: after.length });
+    }
+  } else if (!isEqual(before, after)) {
+    out.push({ path, before, after });
+  }
+}
+
+export function diffReports(before: DamageReport, after: DamageReport): FieldChange[] {
+  const changes: FieldChange[] = [];
+  diffValues(before, after, '', changes);
+  return changes.filter(c => !IGNORED_FIELDS.has(c.path));
+}
+
+// Per-call metadata that differs between any two model calls
+const ANALYSIS_METADATA = new Set(['analysisTimestamp', 'tokenUsage', 'schemaRepairs', 'cached']);
+
+/**
+ * What a new model answer changed compared to the previous one, with paths
+ * relative to the analysis. Call metadata such as timing and usage is left out.
+ */
+export function diffAnalyses(before: DamageAnalysis | undefined, after: DamageAnalysis): FieldChange[] {
+  const changes: FieldChange[] = [];
+  diffValues(before ?? {}, after, '', changes);
+  return changes.filter(c => !ANALYSIS_METADATA.has(c.path.split('.')[0]));
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = target;
+  keys.slice(0, -1).forEach((key, i) => {
+    if (typeof node[key] !== 'object' || node[key] === null) {
+      node[key] = /^\d+$/.test(keys[i + 1]) ? [] : {};
+    }
+    node = node[key] as Record<string, unknown>;
+  });
+  const last = keys[keys.length - 1];
+  if (value === undefined) delete node[last];
+  else node[last] = value;
+}
+
+/**
+ * Undo a sequence of changes (newest last) on a report.
+ */
+export function revertChanges(report: DamageReport, changes: ReportChange[]): DamageReport {
+  const reverted = structuredClone(report) as unknown as Record<string, unknown>;
+  for (const change of [...changes].reverse()) {
+    for (const field of change.changes) {
+      setPath(reverted, field.path, structuredClone(field.before));
+    }
+  }
+  return reverted as unknown as DamageReport;
+}
+
+/**
+ * The report as it was right after `version`, given its full change log.
+ */
+export function reportAtVersion(current: DamageReport, log: ReportChange[], version: number): DamageReport {
+  const later = log.filter(c => c.version > version).sort((a, b) => a.version - b.version);
+  return revertChanges(current, later);
+}
+
+/**
+ * Short display form of a logged value. Photos and long text are elided.
+ */
+export function formatChangeValue(value: unknown): string {
+  if (value === undefined || value === null) return '—';
+  if (typeof value === 'string') {
+    if (value.startsWith('data:image')) return '[image]';
+    return value.length > 80 ? `${value.slice(0, 77)}...` : value;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return `[${value.length} item${value.length === 1 ? '' : 's'}]`;
+  const json = JSON.stringify(value, (_key, v) => (typeof v === 'string' && v.startsWith('data:image') ? '[image]' : v));
+  return json.length > 80 ? `${json.slice(0, 77)}...` : json;
+}
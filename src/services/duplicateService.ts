@@ -0,0 +1,225 @@
+/**
+ * Duplicate Service
+ *
+ * Several teams often assess the same house. Reports are paired up as
+ * likely duplicates from three signals: the same normalized address, GPS
+ * fixes a few metres apart, and perceptually matching photos. No single
+ * weak signal is enough: neighbouring units in a mobile home park are
+ * close together, so proximity only counts alongside another signal.
+ */
+
+import { DamageReport, MergedReport, ReportPhoto, WaterlineMeasurement } from '../types';
+import { hasCoordinates } from './locationService';
+import { distanceMeters } from './geocoding/localGeocoder';
+import { DUPLICATE_DISTANCE, hashDistance, hashImage } from './imageQualityService';
+
+export type DuplicateSignal = 'same_address' | 'nearby' | 'similar_photo';
+
+export interface DuplicateGroup {
+  reportIds: string[]; // Most recent first, as in the report list
+  signals: DuplicateSignal[];
+}
+
+// Two GPS fixes closer than this may be the same structure
+export const NEARBY_METERS = 25;
+
+const SIGNAL_WEIGHTS: Record<DuplicateSignal, number> = {
+  same_address: 2,
+  similar_photo: 2,
+  nearby: 1,
+};
+const CANDIDATE_SCORE = 2;
+
+export const DUPLICATE_SIGNAL_LABELS: Record<DuplicateSignal, string> = {
+  same_address: 'Same address',
+  nearby: `Within ${NEARBY_METERS} m`,
+  similar_photo: 'Matching photo',
+};
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  street: 'st', avenue: 'ave', road: 'rd', drive: 'dr', lane: 'ln', court: 'ct', boulevard: 'blvd',
+  place: 'pl', circle: 'cir', terrace: 'ter', parkway: 'pkwy', highway: 'hwy', trail: 'trl',
+  north: 'n', south: 's', east: 'e', west: 'w', northeast: 'ne', northwest: 'nw', southeast: 'se', southwest: 'sw',
+  apartment: '#', apt: '#', unit: '#', suite: '#', ste: '#', lot: '#',
+};
+
+/**
+ * Canonical form of a street address: lower case, no punctuation, USPS-style
+ * abbreviations. Unit numbers are kept, so two apartments stay distinct.
+ */
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/#/g, ' # ')
+    .replace(/[.,]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => STREET_ABBREVIATIONS[word] || word)
+    .join(' ')
+    .replace(/# (\S+)/g, '#$1');
+}
+
+function addressKey(report: DamageReport): string {
+  // Demo addresses are random and say nothing about the property
+  if (report.location.source === 'demo') return '';
+  const street = normalizeAddress(report.location.address || '');
+  return street ? `${street}|${report.location.zip || ''}` : '';
+}
+
+/**
+ * Perceptual hashes of a report's photos, as recorded by the quality check.
+ */
+export function storedPhotoHashes(report: DamageReport): string[] {
+  const qualities = [report.imageQuality, ...(report.photos || []).slice(1).map(p => p.quality)];
+  return qualities.filter(q => q !== undefined).map(q => q.hash);
+}
+
+/**
+ * Photo hashes for every report, hashing the photos of reports that predate
+ * the quality check. A photo that fails to load is skipped.
+ */
+export async function collectPhotoHashes(reports: DamageReport[]): Promise<Map<string, string[]>> {
+  const hashes = new Map<string, string[]>();
+  for (const report of reports) {
+    const stored = storedPhotoHashes(report);
+    if (stored.length > 0) {
+      hashes.set(report.id, stored);
+      continue;
+    }
+    const computed: string[] = [];
+    for (const photo of report.photos?.length ? report.photos : [{ imageData: report.imageData }]) {
+      try {
+        computed.push(await hashImage(photo.imageData));
+      } catch (err) {
+        console.warn(`Could not hash a photo of ${report.id}:`, err);
+      }
+    }
+    hashes.set(report.id, computed);
+  }
+  return hashes;
+}
+
+function pairSignals(a: DamageReport, b: DamageReport, hashes: Map<string, string[]>): DuplicateSignal[] {
+  const signals: DuplicateSignal[] = [];
+  const keyA = addressKey(a);
+  if (keyA && keyA === addressKey(b)) {
+    signals.push('same_address');
+  }
+  if (
+    a.location.source !== 'demo' && b.location.source !== 'demo' &&
+    hasCoordinates(a.location) && hasCoordinates(b.location) &&
+    distanceMeters(a.location.lat, a.location.lng, b.location.lat, b.location.lng) <= NEARBY_METERS
+  ) {
+    signals.push('nearby');
+  }
+  const hashesB = hashes.get(b.id) || [];
+  if ((hashes.get(a.id) || []).some(h => hashesB.some(other => hashDistance(h, other) <= DUPLICATE_DISTANCE))) {
+    signals.push('similar_photo');
+  }
+  return signals;
+}
+
+/**
+ * Group reports that are likely the same property. Pairs a person marked as
+ * different properties are skipped. `hashes` maps report id to photo hashes.
+ */
+export function findDuplicateGroups(reports: DamageReport[], hashes: Map<string, string[]>): DuplicateGroup[] {
+  const parent = new Map(reports.map(r => [r.id, r.id]));
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) id = parent.get(id)!;
+    return id;
+  };
+  const groupSignals = new Map<string, Set<DuplicateSignal>>();
+
+  const pairs: { a: string; b: string; signals: DuplicateSignal[] }[] = [];
+  for (let i = 0; i < reports.length; i++) {
+    for (let j = i + 1; j < reports.length; j++) {
+      const [a, b] = [reports[i], reports[j]];
+      if (a.notDuplicateOf?.includes(b.id) || b.notDuplicateOf?.includes(a.id)) continue;
+      const signals = pairSignals(a, b, hashes);
+      const score = signals.reduce((total, s) => total + SIGNAL_WEIGHTS[s], 0);
+      if (score >= CANDIDATE_SCORE) {
+        pairs.push({ a: a.id, b: b.id, signals });
+        parent.set(find(a.id), find(b.id));
+      }
+    }
+  }
+
+  for (const pair of pairs) {
+    const root = find(pair.a);
+    groupSignals.set(root, new Set([...(groupSignals.get(root) || []), ...pair.signals]));
+  }
+
+  return [...groupSignals].map(([root, signals]) => ({
+    reportIds: reports.filter(r => find(r.id) === root).map(r => r.id),
+    signals: [...signals],
+  }));
+}
+
+function photosOf(report: DamageReport): ReportPhoto[] {
+  if (report.photos?.length) return report.photos;
+  return [{ id: report.id, imageData: report.imageData, metadata: report.photoMetadata, quality: report.imageQuality }];
+}
+
+/**
+ * A water line measured on one photo set, pointed at the same photo in another.
+ */
+function remapWaterline(
+  waterline: WaterlineMeasurement | undefined,
+  from: ReportPhoto[],
+  to: ReportPhoto[]
+): WaterlineMeasurement | undefined {
+  const measured = waterline && from[waterline.photoIndex];
+  if (!waterline || !measured) return undefined;
+  const photoIndex = to.findIndex(p => p.imageData === measured.imageData);
+  return photoIndex >= 0 ? { ...waterline, photoIndex } : undefined;
+}
+
+/**
+ * Fold duplicates into the surviving report. Every photo is kept (exact
+ * repeats once), and each duplicate's analysis, review, location, water
+ * line and box corrections are kept in mergedReports. The survivor's own grade is unchanged
+ * until it is re-analyzed with the combined photo set. A duplicate's water
+ * line and case narrative are adopted if the survivor has none; the
+ * narrative is only exported while its facts still hold for the merged report.
+ */
+export function mergeReportRecords(primary: DamageReport, duplicates: DamageReport[], now: number = Date.now()): DamageReport {
+  const photos: ReportPhoto[] = [];
+  for (const report of [primary, ...duplicates]) {
+    for (const photo of photosOf(report)) {
+      if (!photos.some(p => p.imageData === photo.imageData)) photos.push(photo);
+    }
+  }
+
+  const merged: MergedReport[] = duplicates.flatMap(report => [
+    {
+      reportId: report.id,
+      createdAt: report.createdAt,
+      mergedAt: now,
+      location: report.location,
+      analysis: report.analysis,
+      review: report.review,
+      waterline: remapWaterline(report.waterline, photosOf(report), photos),
+      // Edits index into this analysis' detections, so they stay with it
+      boxEdits: report.boxEdits,
+    },
+    // Reports that were themselves merges carry their history along
+    ...(report.mergedReports || []).map(entry => ({
+      ...entry,
+      waterline: remapWaterline(entry.waterline, photosOf(report), photos),
+    })),
+  ]);
+
+  return {
+    ...primary,
+    photos: photos.length > 1 ? photos : primary.photos,
+    clientInfo: primary.clientInfo || duplicates.find(r => r.clientInfo)?.clientInfo,
+    assistance: primary.assistance || duplicates.find(r => r.assistance)?.assistance,
+    occupancy: primary.occupancy || duplicates.find(r => r.occupancy)?.occupancy,
+    waterline: primary.waterline || merged.find(r => r.waterline)?.waterline,
+    narrative: primary.narrative || duplicates.find(r => r.narrative)?.narrative,
+    mergedReports: [...(primary.mergedReports || []), ...merged],
+    notDuplicateOf: [...new Set([...(primary.notDuplicateOf || []), ...duplicates.flatMap(r => r.notDuplicateOf || [])])]
+      .filter(id => id !== primary.id && !duplicates.some(r => r.id === id)),
+  };
+}
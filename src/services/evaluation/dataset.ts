@@ -0,0 +1,110 @@
+import { DamageReport, DamageSeverity, HomeType, IncidentType } from '../../types';
+import { isReasonCode } from '../reasonCodeService';
+import { finalHomeType, finalIncidentType, finalSeverity } from '../reviewService';
+import { ExpectedGrade, GroundTruthCase, GroundTruthDataset } from './types';
+
+function isEnumValue<T extends string>(values: Record<string, T>, value: unknown): value is T {
+  return typeof value === 'string' && (Object.values(values) as string[]).includes(value);
+}
+
+function parseExpected(raw: Record<string, unknown>, caseId: string): ExpectedGrade {
+  if (!isEnumValue(DamageSeverity, raw.overallSeverity)) {
+    throw new Error(`Case ${caseId}: expected.overallSeverity must be one of ${Object.values(DamageSeverity).join(', ')}`);
+  }
+  if (raw.homeType !== undefined && !isEnumValue(HomeType, raw.homeType)) {
+    throw new Error(`Case ${caseId}: unknown expected.homeType "${raw.homeType}"`);
+  }
+  if (raw.incidentType !== undefined && !isEnumValue(IncidentType, raw.incidentType)) {
+    throw new Error(`Case ${caseId}: unknown expected.incidentType "${raw.incidentType}"`);
+  }
+
+  let reasonCodes: ExpectedGrade['reasonCodes'];
+  if (raw.reasonCodes !== undefined) {
+    if (!Array.isArray(raw.reasonCodes)) {
+      throw new Error(`Case ${caseId}: expected.reasonCodes must be an array`);
+    }
+    const unknown = raw.reasonCodes.filter(code => typeof code !== 'string' || !isReasonCode(code));
+    if (unknown.length > 0) {
+      throw new Error(`Case ${caseId}: unknown reason codes ${unknown.join(', ')}`);
+    }
+    reasonCodes = raw.reasonCodes;
+  }
+
+  return {
+    overallSeverity: raw.overallSeverity,
+    homeType: raw.homeType,
+    incidentType: raw.incidentType,
+    reasonCodes,
+  };
+}
+
+/**
+ * Parse and validate a ground-truth dataset file. Labels are checked
+ * against the FEMA vocabularies so a typo can't silently score as a miss.
+ */
+export function parseDataset(text: string): GroundTruthDataset {
+  const data = JSON.parse(text);
+  if (!data || !Array.isArray(data.cases)) {
+    throw new Error('Dataset must be a JSON object with a "cases" array');
+  }
+
+  const ids = new Set<string>();
+  const cases: GroundTruthCase[] = data.cases.map((raw: Record<string, unknown>, index: number) => {
+    const id = typeof raw.id === 'string' && raw.id ? raw.id : `case-${index + 1}`;
+    if (ids.has(id)) {
+      throw new Error(`Duplicate case id "${id}"`);
+    }
+    ids.add(id);
+
+    const photos = Array.isArray(raw.photos) ? raw.photos : [];
+    if (photos.length === 0 || photos.some(p => typeof p?.url !== 'string')) {
+      throw new Error(`Case ${id}: photos must be a non-empty array of { url, caption? }`);
+    }
+    if (!raw.expected || typeof raw.expected !== 'object') {
+      throw new Error(`Case ${id}: missing "expected" labels`);
+    }
+
+    return {
+      id,
+      photos: photos.map(p => ({ url: p.url, caption: typeof p.caption === 'string' ? p.caption : undefined })),
+      expected: parseExpected(raw.expected as Record<string, unknown>, id),
+      labeledBy: typeof raw.labeledBy === 'string' ? raw.labeledBy : undefined,
+      notes: typeof raw.notes === 'string' ? raw.notes : undefined,
+    };
+  });
+
+  return {
+    name: typeof data.name === 'string' && data.name ? data.name : 'Untitled dataset',
+    cases,
+    recordings: Array.isArray(data.recordings) ? data.recordings : undefined,
+  };
+}
+
+/**
+ * Label a dataset from supervisor-reviewed reports: the reviewed grade is
+ * the ground truth. Reason codes are kept only when the AI analysis was
+ * accepted as is, since an override says nothing about which codes apply.
+ */
+export function datasetFromReports(reports: DamageReport[], name: string): GroundTruthDataset {
+  const cases = reports
+    .filter(r => r.review && r.analysis)
+    .map((report): GroundTruthCase => {
+      const photos = report.photos?.length
+        ? report.photos.map(p => ({ url: p.imageData, caption: p.caption }))
+        : [{ url: report.imageData }];
+      return {
+        id: report.id,
+        photos,
+        expected: {
+          overallSeverity: finalSeverity(report)!,
+          homeType: finalHomeType(report),
+          incidentType: finalIncidentType(report),
+          reasonCodes: report.review!.action === 'accepted' ? report.analysis!.reasonCodes : undefined,
+        },
+        labeledBy: report.review!.reviewer,
+        notes: report.review!.reason,
+      };
+    });
+
+  return { name, cases };
+}
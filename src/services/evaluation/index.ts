@@ -0,0 +1,14 @@
+/**
+ * Accuracy evaluation against labeled ground truth.
+ *
+ * A dataset of labeled photos is replayed through a vision provider and
+ * scored with a severity confusion matrix, broken down by home type and
+ * flood/non-flood. Runs are stored; one is the baseline that any change to
+ * the analysis prompts must match (see checkGate) before it ships.
+ */
+
+export * from './types';
+export { parseDataset, datasetFromReports } from './dataset';
+export { computeMetrics, checkGate, promptHasPassed, ACCURACY_TOLERANCE } from './metrics';
+export { runEvaluation } from './runner';
+export type { RunOptions } from './runner';
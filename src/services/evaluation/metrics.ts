@@ -0,0 +1,134 @@
+import { DamageSeverity, HomeType, IncidentType } from '../../types';
+import { SEVERITY_DEFINITIONS } from '../../data/femaDamageReference';
+import { CaseResult, ConfusionMatrix, EvaluationMetrics, EvaluationRun, GateResult, SeverityMetrics } from './types';
+
+const SEVERITIES = Object.values(DamageSeverity);
+const SEVERITY_RANK = new Map(SEVERITY_DEFINITIONS.map(d => [d.severity, d.rank]));
+
+function emptyMatrix(): ConfusionMatrix {
+  return Object.fromEntries(
+    SEVERITIES.map(expected => [expected, Object.fromEntries(SEVERITIES.map(predicted => [predicted, 0]))])
+  ) as ConfusionMatrix;
+}
+
+function severityMetrics(results: CaseResult[]): SeverityMetrics {
+  const metrics: SeverityMetrics = { cases: 0, correct: 0, accuracy: 0, underGraded: 0, overGraded: 0, matrix: emptyMatrix() };
+
+  for (const result of results) {
+    if (!result.predicted) continue;
+    const expected = result.expected.overallSeverity;
+    const predicted = result.predicted.overallSeverity;
+    metrics.cases++;
+    metrics.matrix[expected][predicted]++;
+    if (expected === predicted) {
+      metrics.correct++;
+      continue;
+    }
+    const diff = (SEVERITY_RANK.get(predicted) ?? 0) - (SEVERITY_RANK.get(expected) ?? 0);
+    if (diff < 0) metrics.underGraded++;
+    else if (diff > 0) metrics.overGraded++;
+  }
+
+  metrics.accuracy = metrics.cases > 0 ? metrics.correct / metrics.cases : 0;
+  return metrics;
+}
+
+function groupBy<K extends string>(results: CaseResult[], key: (r: CaseResult) => K | undefined): Partial<Record<K, SeverityMetrics>> {
+  const groups = new Map<K, CaseResult[]>();
+  for (const result of results) {
+    const k = key(result);
+    if (k) groups.set(k, [...(groups.get(k) || []), result]);
+  }
+  return Object.fromEntries([...groups].map(([k, group]) => [k, severityMetrics(group)])) as Partial<Record<K, SeverityMetrics>>;
+}
+
+function fieldAccuracy(results: CaseResult[], field: 'homeType' | 'incidentType'): number | undefined {
+  const labeled = results.filter(r => r.predicted && r.expected[field]);
+  if (labeled.length === 0) return undefined;
+  return labeled.filter(r => r.predicted![field] === r.expected[field]).length / labeled.length;
+}
+
+function reasonCodeScores(results: CaseResult[]): EvaluationMetrics['reasonCodes'] {
+  const labeled = results.filter(r => r.predicted && r.expected.reasonCodes);
+  if (labeled.length === 0) return undefined;
+
+  let truePositives = 0;
+  let predictedCount = 0;
+  let expectedCount = 0;
+  for (const result of labeled) {
+    const expected = new Set(result.expected.reasonCodes);
+    const predicted = new Set(result.predicted!.reasonCodes);
+    truePositives += [...predicted].filter(code => expected.has(code)).length;
+    predictedCount += predicted.size;
+    expectedCount += expected.size;
+  }
+  return {
+    precision: predictedCount > 0 ? truePositives / predictedCount : 1,
+    recall: expectedCount > 0 ? truePositives / expectedCount : 1,
+  };
+}
+
+/**
+ * Score a run. Breakdowns group by the EXPECTED home and incident type, so
+ * a model that misreads the home type still lands in the right bucket.
+ */
+export function computeMetrics(results: CaseResult[]): EvaluationMetrics {
+  return {
+    severity: severityMetrics(results),
+    byHomeType: groupBy<HomeType>(results, r => r.expected.homeType),
+    byIncidentType: groupBy<IncidentType>(results, r => r.expected.incidentType),
+    homeTypeAccuracy: fieldAccuracy(results, 'homeType'),
+    incidentTypeAccuracy: fieldAccuracy(results, 'incidentType'),
+    reasonCodes: reasonCodeScores(results),
+    errors: results.filter(r => r.error).length,
+  };
+}
+
+// Accuracy may dip by this much against the baseline before the gate fails
+export const ACCURACY_TOLERANCE = 0.02;
+
+const percent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+/**
+ * Decide whether a run may replace the baseline, e.g. after a SYSTEM_PROMPT
+ * change. It must be on the same dataset, keep severity accuracy within
+ * ACCURACY_TOLERANCE, not under-grade more often, and not fail more cases.
+ */
+export function checkGate(run: EvaluationRun, baseline: EvaluationRun | undefined): GateResult {
+  if (!baseline) {
+    return { passed: true, reasons: ['No baseline yet; this run can become the first one'] };
+  }
+  if (baseline.datasetName !== run.datasetName || baseline.results.length !== run.results.length) {
+    return { passed: false, reasons: [`Baseline was measured on "${baseline.datasetName}" (${baseline.results.length} cases); run the same dataset`] };
+  }
+
+  const reasons: string[] = [];
+  const now = run.metrics.severity;
+  const before = baseline.metrics.severity;
+  const underRate = (m: SeverityMetrics) => (m.cases > 0 ? m.underGraded / m.cases : 0);
+
+  if (now.accuracy < before.accuracy - ACCURACY_TOLERANCE) {
+    reasons.push(`Severity accuracy fell from ${percent(before.accuracy)} to ${percent(now.accuracy)}`);
+  }
+  if (underRate(now) > underRate(before)) {
+    reasons.push(`Under-grading rose from ${percent(underRate(before))} to ${percent(underRate(now))}`);
+  }
+  if (run.metrics.errors > baseline.metrics.errors) {
+    reasons.push(`Failed analyses rose from ${baseline.metrics.errors} to ${run.metrics.errors}`);
+  }
+
+  if (reasons.length > 0) return { passed: false, reasons };
+  return {
+    passed: true,
+    reasons: [`Severity accuracy ${percent(now.accuracy)} vs baseline ${percent(before.accuracy)}`],
+  };
+}
+
+/**
+ * A prompt may only be made active once a run of it is the baseline or
+ * passes the gate against the baseline.
+ */
+export function promptHasPassed(runs: EvaluationRun[], fingerprint: string, baselineId: string | undefined): boolean {
+  const baseline = runs.find(r => r.id === baselineId);
+  return runs.some(r => r.promptFingerprint === fingerprint && (r.id === baselineId || checkGate(r, baseline).passed));
+}
@@ -0,0 +1,109 @@
+import { AnalysisProviderId } from '../../types';
+import { analyzeProperty, compressImage } from '../claudeService';
+import { renderPrompt } from '../prompts';
+import { fingerprintImages, loadReplayRecordings, ReplayRecording } from '../providers/mockProvider';
+import { computeMetrics } from './metrics';
+import { CaseResult, EvaluationRun, GroundTruthDataset, GroundTruthPhoto } from './types';
+
+// Same size the analysis queue sends, so evaluation matches production
+const EVAL_IMAGE_WIDTH = 1280;
+
+export interface RunOptions {
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+  promptVersion?: string; // Defaults to the active version; set it to evaluate a candidate
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function loadPhoto(photo: GroundTruthPhoto): Promise<{ imageData: string; caption?: string }> {
+  const response = await fetch(photo.url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${photo.url} (${response.status})`);
+  }
+  const imageData = await compressImage(await blobToDataUrl(await response.blob()), EVAL_IMAGE_WIDTH);
+  return { imageData, caption: photo.caption };
+}
+
+/**
+ * Grade every case of a dataset with one provider, one case at a time.
+ * Responses are recorded so the same run can be replayed offline through
+ * the mock provider; a dataset's own recordings are loaded before a mock run.
+ */
+export async function runEvaluation(
+  dataset: GroundTruthDataset,
+  providerId: AnalysisProviderId,
+  options: RunOptions = {}
+): Promise<EvaluationRun> {
+  if (providerId === 'mock' && dataset.recordings?.length) {
+    loadReplayRecordings(dataset.recordings);
+  }
+
+  // Pinned for the whole run, even if the active version changes meanwhile
+  const prompts = renderPrompt(options.promptVersion);
+  const startedAt = Date.now();
+  const results: CaseResult[] = [];
+  const recordings: ReplayRecording[] = [];
+  let model: string | undefined;
+
+  for (const testCase of dataset.cases) {
+    if (options.signal?.aborted) {
+      throw new Error('Evaluation cancelled');
+    }
+    options.onProgress?.(results.length, dataset.cases.length);
+
+    const caseStart = Date.now();
+    try {
+      const photos = await Promise.all(testCase.photos.map(loadPhoto));
+      const analysis = await analyzeProperty(photos, providerId, {
+        promptVersion: prompts.version,
+        onResponse: (request, response) => {
+          recordings.push({ fingerprint: fingerprintImages(request.images), text: response.text, model: response.model });
+        },
+      });
+      model = model || analysis.model;
+      results.push({
+        caseId: testCase.id,
+        expected: testCase.expected,
+        predicted: {
+          overallSeverity: analysis.overallSeverity,
+          homeType: analysis.homeType,
+          incidentType: analysis.incidentType,
+          reasonCodes: analysis.reasonCodes,
+          confidence: analysis.confidence,
+        },
+        durationMs: Date.now() - caseStart,
+      });
+    } catch (error) {
+      console.error(`Evaluation case ${testCase.id} failed:`, error);
+      results.push({
+        caseId: testCase.id,
+        expected: testCase.expected,
+        error: error instanceof Error ? error.message : 'Analysis failed',
+        durationMs: Date.now() - caseStart,
+      });
+    }
+  }
+  options.onProgress?.(results.length, dataset.cases.length);
+
+  return {
+    id: `EVAL_${startedAt}`,
+    datasetName: dataset.name,
+    provider: providerId,
+    model,
+    promptVersion: prompts.version,
+    promptFingerprint: prompts.fingerprint,
+    startedAt,
+    finishedAt: Date.now(),
+    results,
+    metrics: computeMetrics(results),
+    recordings,
+  };
+}
@@ -0,0 +1,101 @@
+import { AnalysisProviderId, DamageSeverity, HomeType, IncidentType, ReasonCode } from '../../types';
+import { ReplayRecording } from '../providers/mockProvider';
+
+/**
+ * Ground-truth dataset format (JSON):
+ *
+ * {
+ *   "name": "Pinellas flood set",
+ *   "cases": [{
+ *     "id": "case-01",
+ *     "photos": [{ "url": "/samples/Image001.jpg", "caption": "Front" }],
+ *     "expected": { "overallSeverity": "MAJOR", "homeType": "CONVENTIONAL",
+ *                   "incidentType": "FLOOD", "reasonCodes": ["waterline_at_or_above_outlets"] }
+ *   }],
+ *   "recordings": [{ "fingerprint": "...", "text": "..." }]
+ * }
+ *
+ * Photo urls may be app paths, absolute URLs or data URLs. Recordings are
+ * optional recorded model responses for offline runs with the mock provider.
+ */
+
+export interface GroundTruthPhoto {
+  url: string;
+  caption?: string;
+}
+
+export interface ExpectedGrade {
+  overallSeverity: DamageSeverity;
+  homeType?: HomeType;
+  incidentType?: IncidentType;
+  reasonCodes?: ReasonCode[]; // Scored only when present
+}
+
+export interface GroundTruthCase {
+  id: string;
+  photos: GroundTruthPhoto[]; // Several photos are graded together as one property
+  expected: ExpectedGrade;
+  labeledBy?: string;
+  notes?: string;
+}
+
+export interface GroundTruthDataset {
+  name: string;
+  cases: GroundTruthCase[];
+  recordings?: ReplayRecording[];
+}
+
+export interface CaseResult {
+  caseId: string;
+  expected: ExpectedGrade;
+  predicted?: {
+    overallSeverity: DamageSeverity;
+    homeType: HomeType;
+    incidentType: IncidentType;
+    reasonCodes: ReasonCode[];
+    confidence: number;
+  };
+  error?: string; // The analysis failed; counted separately from wrong grades
+  durationMs: number;
+}
+
+// Rows are expected grades, columns predicted grades
+export type ConfusionMatrix = Record<DamageSeverity, Record<DamageSeverity, number>>;
+
+export interface SeverityMetrics {
+  cases: number; // Graded cases (errors excluded)
+  correct: number;
+  accuracy: number; // 0-1
+  underGraded: number; // Predicted less severe than expected; the costly direction
+  overGraded: number;
+  matrix: ConfusionMatrix;
+}
+
+export interface EvaluationMetrics {
+  severity: SeverityMetrics;
+  byHomeType: Partial<Record<HomeType, SeverityMetrics>>;
+  byIncidentType: Partial<Record<IncidentType, SeverityMetrics>>;
+  homeTypeAccuracy?: number; // Over cases with an expected home type
+  incidentTypeAccuracy?: number;
+  reasonCodes?: { precision: number; recall: number }; // Micro-averaged over labeled cases
+  errors: number;
+}
+
+export interface EvaluationRun {
+  id: string;
+  datasetName: string;
+  provider: AnalysisProviderId;
+  model?: string;
+  promptVersion?: string; // Absent on runs from before prompt versioning
+  promptFingerprint: string; // Hash of the rendered prompts at run time
+  startedAt: number;
+  finishedAt: number;
+  results: CaseResult[];
+  metrics: EvaluationMetrics;
+  recordings: ReplayRecording[]; // Responses captured during the run, replayable offline
+}
+
+export interface GateResult {
+  passed: boolean;
+  reasons: string[]; // Why it failed, or what was compared
+}
@@ -0,0 +1,217 @@
+import { PhotoMetadata } from '../types';
+
+/**
+ * Minimal EXIF reader for field photos.
+ *
+ * Reads only the tags we use (GPS position, capture time, compass heading,
+ * camera make/model) from the APP1 segment of a JPEG. PNG/WebP uploads and
+ * screenshots usually carry no EXIF, so an empty object is a normal result.
+ */
+
+// IFD0 tags
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+
+// Exif sub-IFD tags
+const TAG_DATETIME_ORIGINAL = 0x9003;
+
+// GPS IFD tags
+const GPS_LAT_REF = 0x0001;
+const GPS_LAT = 0x0002;
+const GPS_LNG_REF = 0x0003;
+const GPS_LNG = 0x0004;
+const GPS_ALT_REF = 0x0005;
+const GPS_ALT = 0x0006;
+const GPS_IMG_DIRECTION = 0x0011;
+
+// Only the start of the file is needed; APP1 must fit in 64 KB
+const HEADER_BYTES = 128 * 1024;
+
+type TagValue = string | number | number[];
+
+class TiffReader {
+  private view: DataView;
+  private start: number;
+  private little: boolean;
+
+  constructor(view: DataView, start: number) {
+    this.view = view;
+    this.start = start;
+    const order = view.getUint16(start);
+    if (order !== 0x4949 && order !== 0x4d4d) {
+      throw new Error('Invalid TIFF byte order');
+    }
+    this.little = order === 0x4949;
+  }
+
+  u16(offset: number): number {
+    return this.view.getUint16(this.start + offset, this.little);
+  }
+
+  u32(offset: number): number {
+    return this.view.getUint32(this.start + offset, this.little);
+  }
+
+  firstIfdOffset(): number {
+    return this.u32(4);
+  }
+
+  /**
+   * Read one IFD into a tag → value map. Unsupported types are skipped.
+   */
+  readIfd(offset: number): Map<number, TagValue> {
+    const tags = new Map<number, TagValue>();
+    const count = this.u16(offset);
+
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const tag = this.u16(entry);
+      const type = this.u16(entry + 2);
+      const n = this.u32(entry + 4);
+      const value = this.readValue(type, n, entry + 8);
+      if (value !== undefined) tags.set(tag, value);
+    }
+
+    return tags;
+  }
+
+  private readValue(type: number, n: number, valueField: number): TagValue | undefined {
+    const size = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8 }[type];
+    if (!size) return undefined;
+
+    // Values longer than 4 bytes live elsewhere; the field holds their offset
+    const at = size * n > 4 ? this.u32(valueField) : valueField;
+    if (this.start + at + size * n > this.view.byteLength) return undefined;
+
+    switch (type) {
+      case 1: // BYTE
+        return n === 1 ? this.view.getUint8(this.start + at) : Array.from({ length: n }, (_, i) => this.view.getUint8(this.start + at + i));
+      case 2: { // ASCII
+        let text = '';
+        for (let i = 0; i < n; i++) {
+          const c = this.view.getUint8(this.start + at + i);
+          if (c === 0) break;
+          text += String.fromCharCode(c);
+        }
+        return text.trim();
+      }
+      case 3: // SHORT
+        return n === 1 ? this.u16(at) : Array.from({ length: n }, (_, i) => this.u16(at + i * 2));
+      case 4: // LONG
+        return n === 1 ? this.u32(at) : Array.from({ length: n }, (_, i) => this.u32(at + i * 4));
+      case 5: { // RATIONAL
+        const values = Array.from({ length: n }, (_, i) => {
+          const denominator = this.u32(at + i * 8 + 4);
+          return denominator === 0 ? 0 : this.u32(at + i * 8) / denominator;
+        });
+        return n === 1 ? values[0] : values;
+      }
+    }
+  }
+}
+
+/**
+ * Locate the TIFF header inside a JPEG's EXIF APP1 segment.
+ */
+function findTiffStart(view: DataView): number | null {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00) return null;
+    const length = view.getUint16(offset + 2);
+
+    // APP1 starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      return offset + 10;
+    }
+    // Start of scan: no metadata after this point
+    if (marker === 0xffda) return null;
+
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function toDegrees(value: TagValue | undefined, ref: TagValue | undefined): number | undefined {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const [deg, min, sec] = value;
+  const decimal = deg + min / 60 + sec / 3600;
+  return ref === 'S' || ref === 'W' ? -decimal : decimal;
+}
+
+/**
+ * EXIF dates are "YYYY:MM:DD HH:MM:SS" in the camera's local time.
+ */
+function parseExifDate(value: TagValue | undefined): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  const time = new Date(y, mo - 1, d, h, mi, s).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Parse EXIF metadata from raw image bytes.
+ */
+export function parseExif(buffer: ArrayBuffer): PhotoMetadata {
+  const view = new DataView(buffer);
+  const tiffStart = findTiffStart(view);
+  if (tiffStart === null) return {};
+
+  const metadata: PhotoMetadata = {};
+
+  try {
+    const tiff = new TiffReader(view, tiffStart);
+    const ifd0 = tiff.readIfd(tiff.firstIfdOffset());
+
+    const make = ifd0.get(TAG_MAKE);
+    const model = ifd0.get(TAG_MODEL);
+    if (typeof make === 'string' && make) metadata.cameraMake = make;
+    if (typeof model === 'string' && model) metadata.cameraModel = model;
+
+    let capturedAt = parseExifDate(ifd0.get(TAG_DATETIME));
+    const exifPointer = ifd0.get(TAG_EXIF_IFD);
+    if (typeof exifPointer === 'number') {
+      capturedAt = parseExifDate(tiff.readIfd(exifPointer).get(TAG_DATETIME_ORIGINAL)) ?? capturedAt;
+    }
+    if (capturedAt !== undefined) metadata.capturedAt = capturedAt;
+
+    const gpsPointer = ifd0.get(TAG_GPS_IFD);
+    if (typeof gpsPointer === 'number') {
+      const gps = tiff.readIfd(gpsPointer);
+      const lat = toDegrees(gps.get(GPS_LAT), gps.get(GPS_LAT_REF));
+      const lng = toDegrees(gps.get(GPS_LNG), gps.get(GPS_LNG_REF));
+
+      // 0,0 is what some apps write when location was denied
+      if (lat !== undefined && lng !== undefined && !(lat === 0 && lng === 0)) {
+        metadata.gps = { lat, lng };
+        const altitude = gps.get(GPS_ALT);
+        if (typeof altitude === 'number') {
+          metadata.gps.altitude = gps.get(GPS_ALT_REF) === 1 ? -altitude : altitude;
+        }
+      }
+
+      const heading = gps.get(GPS_IMG_DIRECTION);
+      if (typeof heading === 'number') metadata.heading = heading;
+    }
+  } catch (error) {
+    // Truncated or malformed EXIF: keep whatever was read before the failure
+    console.warn('Failed to parse EXIF metadata:', error);
+  }
+
+  return metadata;
+}
+
+/**
+ * Read EXIF metadata from an uploaded photo.
+ */
+export async function readPhotoMetadata(file: Blob): Promise<PhotoMetadata> {
+  const buffer = await file.slice(0, HEADER_BYTES).arrayBuffer();
+  return parseExif(buffer);
+}
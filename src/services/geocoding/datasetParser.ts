@@ -0,0 +1,134 @@
+import { GeoRecord } from './types';
+import { normalizeCounty } from '../locationService';
+
+/**
+ * Parsers for local geocoding datasets.
+ *
+ * Accepts GeoJSON point FeatureCollections (OpenAddresses, county address
+ * point exports) and CSV with a header row. Column names are matched
+ * case-insensitively against the aliases below.
+ */
+
+const FIELD_ALIASES: Record<keyof GeoRecord | 'number' | 'street', string[]> = {
+  lat: ['lat', 'latitude', 'y'],
+  lng: ['lng', 'lon', 'long', 'longitude', 'x'],
+  address: ['address', 'full_address', 'fulladdress', 'addr', 'site_address'],
+  number: ['number', 'house_number', 'housenumber', 'addr_num'],
+  street: ['street', 'street_name', 'road'],
+  city: ['city', 'town', 'municipality', 'place'],
+  county: ['county', 'county_name', 'countyname'],
+  state: ['state', 'region', 'st'],
+  zip: ['zip', 'zipcode', 'zip_code', 'postcode', 'postal_code', 'zcta'],
+};
+
+function pick(row: Record<string, unknown>, field: keyof typeof FIELD_ALIASES): string | undefined {
+  for (const alias of FIELD_ALIASES[field]) {
+    const value = row[alias];
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      return String(value).trim();
+    }
+  }
+  return undefined;
+}
+
+function lowerKeys(row: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(row).map(([k, v]) => [k.toLowerCase(), v]));
+}
+
+function toRecord(row: Record<string, unknown>, lat: number, lng: number): GeoRecord | null {
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+
+  const number = pick(row, 'number');
+  const street = pick(row, 'street');
+  const address = pick(row, 'address') || (number && street ? `${number} ${street}` : street);
+  const zip = pick(row, 'zip');
+
+  // A point with neither an address nor a ZIP can't answer anything
+  if (!address && !zip) return null;
+
+  return {
+    lat,
+    lng,
+    address,
+    city: pick(row, 'city'),
+    county: normalizeCounty(pick(row, 'county')),
+    state: pick(row, 'state'),
+    zip: zip ? zip.slice(0, 5) : undefined,
+  };
+}
+
+export function parseGeoJson(text: string): GeoRecord[] {
+  const data = JSON.parse(text);
+  const features: unknown[] = data?.type === 'FeatureCollection' ? data.features : Array.isArray(data) ? data : [];
+  const records: GeoRecord[] = [];
+
+  for (const feature of features as { geometry?: { type?: string; coordinates?: number[] }; properties?: Record<string, unknown> }[]) {
+    if (feature?.geometry?.type !== 'Point' || !feature.geometry.coordinates) continue;
+    const [lng, lat] = feature.geometry.coordinates;
+    const record = toRecord(lowerKeys(feature.properties || {}), lat, lng);
+    if (record) records.push(record);
+  }
+
+  return records;
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields with "" escapes.
+ */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+export function parseCsv(text: string): GeoRecord[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) return [];
+
+  const header = splitCsvLine(lines[0]).map(h => h.trim().toLowerCase());
+  const records: GeoRecord[] = [];
+
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line);
+    const row = Object.fromEntries(header.map((h, i) => [h, cells[i]]));
+    const record = toRecord(row, parseFloat(pick(row, 'lat') || ''), parseFloat(pick(row, 'lng') || ''));
+    if (record) records.push(record);
+  }
+
+  return records;
+}
+
+/**
+ * Parse a dataset file by extension, falling back to sniffing the content.
+ */
+export function parseDataset(fileName: string, text: string): GeoRecord[] {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.csv')) return parseCsv(text);
+  if (lower.endsWith('.json') || lower.endsWith('.geojson')) return parseGeoJson(text);
+  return text.trimStart().startsWith('{') || text.trimStart().startsWith('[') ? parseGeoJson(text) : parseCsv(text);
+}
@@ -0,0 +1,71 @@
+import { GeocodeResult, ReverseGeocoder } from './types';
+import { normalizeCounty } from '../locationService';
+
+/**
+ * Online reverse geocoder for any Nominatim-compatible endpoint
+ * (public Nominatim, a self-hosted instance, or a compatible proxy).
+ */
+
+const REQUEST_TIMEOUT_MS = 8000;
+
+let baseUrl = '';
+
+export function setGeocoderUrl(url?: string): void {
+  baseUrl = url?.trim().replace(/\/+$/, '') || '';
+}
+
+interface NominatimAddress {
+  house_number?: string;
+  road?: string;
+  city?: string;
+  town?: string;
+  village?: string;
+  hamlet?: string;
+  county?: string;
+  state?: string;
+  postcode?: string;
+}
+
+export const httpGeocoder: ReverseGeocoder = {
+  id: 'http',
+  label: 'HTTP geocoder (online)',
+  description: 'Nominatim-compatible reverse geocoding service. Requires connectivity.',
+  offline: false,
+
+  isReady: () => baseUrl !== '' && navigator.onLine,
+
+  async reverse(lat: number, lng: number): Promise<GeocodeResult | null> {
+    if (!baseUrl) {
+      throw new Error('Geocoder URL not set. Please configure it in settings.');
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(
+        `${baseUrl}/reverse?format=jsonv2&addressdetails=1&lat=${lat}&lon=${lng}`,
+        { signal: controller.signal, headers: { Accept: 'application/json' } }
+      );
+      if (!response.ok) {
+        throw new Error(`Geocoder returned ${response.status}`);
+      }
+
+      const data: { address?: NominatimAddress; error?: string } = await response.json();
+      if (data.error || !data.address) return null;
+
+      const a = data.address;
+      const street = [a.house_number, a.road].filter(Boolean).join(' ');
+      return {
+        address: street,
+        city: a.city || a.town || a.village || a.hamlet,
+        county: normalizeCounty(a.county),
+        state: a.state,
+        zip: a.postcode?.slice(0, 5),
+        match: { geocoder: 'http', precision: a.house_number ? 'address' : 'zip' },
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  },
+};
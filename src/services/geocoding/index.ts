@@ -0,0 +1,73 @@
+/**
+ * Reverse geocoder registry.
+ *
+ * The local dataset is always the fallback: if the HTTP geocoder is
+ * selected but offline or failing, lookups still resolve from local data.
+ */
+
+import { GeocoderId, Location } from '../../types';
+import { hasCoordinates } from '../locationService';
+import { GeocodeResult, ReverseGeocoder } from './types';
+import { localGeocoder } from './localGeocoder';
+import { httpGeocoder } from './httpGeocoder';
+
+export * from './types';
+
+const GEOCODERS: Record<GeocoderId, ReverseGeocoder> = {
+  local: localGeocoder,
+  http: httpGeocoder,
+};
+
+export const DEFAULT_GEOCODER_ID: GeocoderId = 'local';
+
+let activeGeocoderId: GeocoderId = DEFAULT_GEOCODER_ID;
+
+export function getGeocoders(): ReverseGeocoder[] {
+  return Object.values(GEOCODERS);
+}
+
+export function getActiveGeocoder(): ReverseGeocoder {
+  return GEOCODERS[activeGeocoderId];
+}
+
+export function setActiveGeocoder(id?: GeocoderId): void {
+  activeGeocoderId = id && GEOCODERS[id] ? id : DEFAULT_GEOCODER_ID;
+}
+
+export async function reverseGeocode(lat: number, lng: number): Promise<GeocodeResult | null> {
+  const active = getActiveGeocoder();
+
+  if (active.id !== 'local' && active.isReady()) {
+    try {
+      const result = await active.reverse(lat, lng);
+      if (result) return result;
+    } catch (error) {
+      console.warn(`${active.label} failed, falling back to local dataset:`, error);
+    }
+  }
+
+  return localGeocoder.reverse(lat, lng);
+}
+
+/**
+ * Fill the blank address fields of a location from its coordinates.
+ * Fields the caseworker already entered are never overwritten.
+ */
+export async function fillAddress(location: Location): Promise<Location> {
+  if (!hasCoordinates(location) || (location.address && location.city && location.zip)) {
+    return location;
+  }
+
+  const result = await reverseGeocode(location.lat, location.lng);
+  if (!result) return location;
+
+  return {
+    ...location,
+    address: location.address || result.address,
+    city: location.city || result.city,
+    county: location.county || result.county,
+    state: location.state || result.state,
+    zip: location.zip || result.zip,
+    geocoded: result.match,
+  };
+}
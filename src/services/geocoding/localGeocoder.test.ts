@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import fixture from '../../../public/geocoding/pinellas-sample.geojson?raw';
+import { parseGeoJson } from './datasetParser';
+import { distanceMeters, reverseFromRecords } from './localGeocoder';
+
+const DATASET = 'Pinellas County sample';
+const records = parseGeoJson(fixture);
+
+describe('reverseFromRecords with the Pinellas fixture', () => {
+  it('loads every address point and ZIP centroid', () => {
+    expect(records).toHaveLength(22);
+    expect(records.filter(r => r.address)).toHaveLength(12);
+  });
+
+  it('returns the nearest street address within the address radius', () => {
+    // A few metres from 100 2nd Ave N
+    const result = reverseFromRecords(records, 27.77095, -82.63605, DATASET);
+    expect(result).toMatchObject({
+      address: '100 2nd Ave N',
+      city: 'St. Petersburg',
+      county: 'Pinellas',
+      state: 'FL',
+      zip: '33701',
+      match: { geocoder: 'local', precision: 'address', dataset: DATASET },
+    });
+    expect(result!.match.distanceMeters).toBeLessThan(20);
+  });
+
+  it('picks the closer of two nearby addresses', () => {
+    // Between 100 2nd Ave N and 175 5th St N, nearer the latter
+    expect(reverseFromRecords(records, 27.7706, -82.6378)?.address).toBe('175 5th St N');
+  });
+
+  it('falls back to city, state and ZIP when no address is close enough', () => {
+    // Next to the Largo ZIP centroid, about 3 km from the nearest address point
+    const result = reverseFromRecords(records, 27.926, -82.757, DATASET);
+    expect(result).toMatchObject({
+      address: '',
+      city: 'Largo',
+      state: 'FL',
+      zip: '33771',
+      match: { precision: 'zip' },
+    });
+    // Distance to the centroid that supplied the ZIP
+    expect(result!.match.distanceMeters).toBeLessThan(200);
+  });
+
+  it('returns null outside the dataset area', () => {
+    // Orlando
+    expect(reverseFromRecords(records, 28.5384, -81.3789)).toBeNull();
+  });
+
+  it('returns null for an empty dataset', () => {
+    expect(reverseFromRecords([], 27.77086, -82.636)).toBeNull();
+  });
+});
+
+describe('distanceMeters', () => {
+  it('is zero for the same point and symmetric', () => {
+    expect(distanceMeters(27.77, -82.63, 27.77, -82.63)).toBe(0);
+    expect(distanceMeters(27.77, -82.63, 27.97, -82.80)).toBeCloseTo(distanceMeters(27.97, -82.80, 27.77, -82.63));
+  });
+
+  it('matches a known distance', () => {
+    // One degree of latitude is about 111.2 km
+    expect(distanceMeters(27, -82, 28, -82)).toBeGreaterThan(111_000);
+    expect(distanceMeters(27, -82, 28, -82)).toBeLessThan(111_400);
+  });
+});
@@ -0,0 +1,111 @@
+import { getGeoDataset, saveGeoDataset, clearGeoDataset } from '../storageService';
+import { GeoDataset, GeoRecord, GeocodeResult, ReverseGeocoder } from './types';
+
+/**
+ * Offline reverse geocoder over a dataset loaded for the disaster area.
+ *
+ * Finds the nearest address point within ADDRESS_RADIUS_METERS; failing
+ * that, the nearest ZIP centroid (or address point) within ZIP_RADIUS_METERS
+ * supplies city/state/ZIP only, leaving the street for the caseworker.
+ */
+
+const ADDRESS_RADIUS_METERS = 150;
+const ZIP_RADIUS_METERS = 25_000;
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+let dataset: GeoDataset | null = null;
+let loaded = false;
+
+export function distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+function nearest(records: GeoRecord[], lat: number, lng: number, filter: (r: GeoRecord) => boolean): { record: GeoRecord; distance: number } | null {
+  let best: { record: GeoRecord; distance: number } | null = null;
+  for (const record of records) {
+    if (!filter(record)) continue;
+    const distance = distanceMeters(lat, lng, record.lat, record.lng);
+    if (!best || distance < best.distance) best = { record, distance };
+  }
+  return best;
+}
+
+/**
+ * Pure lookup, separated from storage so it can be exercised with a fixture.
+ */
+export function reverseFromRecords(records: GeoRecord[], lat: number, lng: number, datasetName?: string): GeocodeResult | null {
+  const point = nearest(records, lat, lng, r => Boolean(r.address));
+  if (point && point.distance <= ADDRESS_RADIUS_METERS) {
+    return {
+      address: point.record.address!,
+      city: point.record.city,
+      county: point.record.county,
+      state: point.record.state,
+      zip: point.record.zip,
+      match: { geocoder: 'local', precision: 'address', distanceMeters: Math.round(point.distance), dataset: datasetName },
+    };
+  }
+
+  const area = nearest(records, lat, lng, r => Boolean(r.zip));
+  if (area && area.distance <= ZIP_RADIUS_METERS) {
+    return {
+      address: '',
+      city: area.record.city,
+      county: area.record.county,
+      state: area.record.state,
+      zip: area.record.zip,
+      match: { geocoder: 'local', precision: 'zip', distanceMeters: Math.round(area.distance), dataset: datasetName },
+    };
+  }
+
+  return null;
+}
+
+async function ensureLoaded(): Promise<void> {
+  if (loaded) return;
+  dataset = (await getGeoDataset()) || null;
+  loaded = true;
+}
+
+export async function loadLocalDataset(name: string, records: GeoRecord[]): Promise<GeoDataset> {
+  if (records.length === 0) {
+    throw new Error('Dataset contains no usable address points or ZIP centroids');
+  }
+  const next: GeoDataset = { name, records, loadedAt: Date.now() };
+  await saveGeoDataset(next);
+  dataset = next;
+  loaded = true;
+  return next;
+}
+
+export async function clearLocalDataset(): Promise<void> {
+  await clearGeoDataset();
+  dataset = null;
+  loaded = true;
+}
+
+export async function getLocalDatasetInfo(): Promise<{ name: string; count: number; loadedAt: number } | null> {
+  await ensureLoaded();
+  return dataset ? { name: dataset.name, count: dataset.records.length, loadedAt: dataset.loadedAt } : null;
+}
+
+export const localGeocoder: ReverseGeocoder = {
+  id: 'local',
+  label: 'Local dataset (offline)',
+  description: 'Nearest address point or ZIP centroid from a GeoJSON/CSV file loaded for the disaster area.',
+  offline: true,
+
+  // Readiness is only known after the dataset is read from IndexedDB
+  isReady: () => !loaded || dataset !== null,
+
+  async reverse(lat: number, lng: number): Promise<GeocodeResult | null> {
+    await ensureLoaded();
+    if (!dataset) return null;
+    return reverseFromRecords(dataset.records, lat, lng, dataset.name);
+  },
+};
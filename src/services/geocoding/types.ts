@@ -0,0 +1,40 @@
+import { GeocodeMatch, GeocoderId } from '../../types';
+
+// One row of a local dataset: a full address point or a ZIP centroid
+export interface GeoRecord {
+  lat: number;
+  lng: number;
+  address?: string; // Street address; absent for ZIP centroids
+  city?: string;
+  county?: string;
+  state?: string;
+  zip?: string;
+}
+
+export interface GeoDataset {
+  name: string;
+  records: GeoRecord[];
+  loadedAt: number;
+}
+
+export interface GeocodeResult {
+  address: string;
+  city?: string;
+  county?: string;
+  state?: string;
+  zip?: string;
+  match: GeocodeMatch;
+}
+
+/**
+ * Turns coordinates into a postal address.
+ * Returning null means "no match", which is not an error.
+ */
+export interface ReverseGeocoder {
+  id: GeocoderId;
+  label: string;
+  description: string;
+  offline: boolean; // Works without network access
+  isReady(): boolean;
+  reverse(lat: number, lng: number): Promise<GeocodeResult | null>;
+}
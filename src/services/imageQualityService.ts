@@ -0,0 +1,175 @@
+/**
+ * Image Quality Service
+ *
+ * A local check run on each photo as it is added, so a blurred, dark or
+ * repeated photo can be retaken on site instead of spending a model call
+ * that comes back UNKNOWN. Measurements come from the canvas compressImage
+ * already draws; nothing leaves the device.
+ */
+
+import { ImageQuality, ImageQualityIssue } from '../types';
+
+// Measurements are taken at a fixed width so thresholds don't depend on the camera
+const MEASURE_WIDTH = 512;
+
+// Variance of the Laplacian at MEASURE_WIDTH below which edges are smeared
+export const MIN_SHARPNESS = 50;
+// Mean luma (0-255) limits
+export const MIN_BRIGHTNESS = 45;
+export const MAX_BRIGHTNESS = 225;
+// Shorter side of the original photo, in pixels
+export const MIN_SHORT_SIDE = 480;
+// Hamming distance between difference hashes (of 64 bits) that counts as the same photo
+export const DUPLICATE_DISTANCE = 4;
+
+export interface ImageMeasurements {
+  width: number;
+  height: number;
+  sharpness: number;
+  brightness: number;
+  hash: string;
+}
+
+// A photo already on hand that a new one is compared with
+export interface KnownPhoto {
+  label: string;
+  hash: string;
+}
+
+function lumaOf(ctx: CanvasRenderingContext2D, width: number, height: number): Float32Array {
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return luma;
+}
+
+function drawScaled(source: CanvasImageSource, width: number, height: number): CanvasRenderingContext2D {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.drawImage(source, 0, 0, width, height);
+  return ctx;
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian: sharp photos have strong local
+ * contrast at edges, blurred ones don't.
+ */
+export function laplacianVariance(luma: Float32Array, width: number, height: number): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = luma[i - width] + luma[i + width] + luma[i - 1] + luma[i + 1] - 4 * luma[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+/**
+ * Difference hash of a 9x8 grayscale thumbnail: one bit per horizontally
+ * adjacent pair. Survives re-compression and resizing of the same photo.
+ */
+export function differenceHash(luma9x8: Float32Array): string {
+  let hex = '';
+  for (let row = 0; row < 8; row++) {
+    let byte = 0;
+    for (let col = 0; col < 8; col++) {
+      byte = (byte << 1) | (luma9x8[row * 9 + col] > luma9x8[row * 9 + col + 1] ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+export function hashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i += 2) {
+    let bits = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Measure a photo from the canvas it was resized on.
+ */
+export function measureCanvas(canvas: HTMLCanvasElement, original: { width: number; height: number }): ImageMeasurements {
+  const width = Math.min(MEASURE_WIDTH, canvas.width);
+  const height = Math.max(1, Math.round((canvas.height * width) / canvas.width));
+  const luma = lumaOf(drawScaled(canvas, width, height), width, height);
+
+  return {
+    width: original.width,
+    height: original.height,
+    sharpness: Math.round(laplacianVariance(luma, width, height)),
+    brightness: Math.round(luma.reduce((total, value) => total + value, 0) / luma.length),
+    hash: differenceHash(lumaOf(drawScaled(canvas, 9, 8), 9, 8)),
+  };
+}
+
+/**
+ * Turn measurements into retake warnings. `known` are photos already
+ * queued or on file; the closest match within DUPLICATE_DISTANCE is named.
+ */
+export function assessQuality(measurements: ImageMeasurements, known: KnownPhoto[] = [], now: number = Date.now()): ImageQuality {
+  const issues: ImageQualityIssue[] = [];
+  const { width, height, sharpness, brightness, hash } = measurements;
+
+  if (sharpness < MIN_SHARPNESS) {
+    issues.push({ id: 'blurry', message: `Photo looks blurred (sharpness ${sharpness}, want ${MIN_SHARPNESS}+). Hold steady and retake.` });
+  }
+  if (brightness < MIN_BRIGHTNESS) {
+    issues.push({ id: 'too_dark', message: `Photo is too dark (brightness ${brightness}/255). Use the flash or more light.` });
+  } else if (brightness > MAX_BRIGHTNESS) {
+    issues.push({ id: 'overexposed', message: `Photo is washed out (brightness ${brightness}/255). Avoid shooting into the sun.` });
+  }
+  if (Math.min(width, height) < MIN_SHORT_SIDE) {
+    issues.push({ id: 'low_resolution', message: `Resolution ${width}x${height} is too low to read a water line (want ${MIN_SHORT_SIDE}px on the short side).` });
+  }
+
+  const match = known
+    .map(photo => ({ photo, distance: hashDistance(hash, photo.hash) }))
+    .filter(m => m.distance <= DUPLICATE_DISTANCE)
+    .sort((a, b) => a.distance - b.distance)[0];
+  if (match) {
+    issues.push({ id: 'duplicate', message: `Looks like a duplicate of ${match.photo.label}.` });
+  }
+
+  return { ...measurements, issues, duplicateOf: match?.photo.label, checkedAt: now };
+}
+
+/**
+ * Difference hash of a stored photo, for photos added before the quality
+ * check existed.
+ */
+export function hashImage(dataUrl: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      try {
+        resolve(differenceHash(lumaOf(drawScaled(img, 9, 8), 9, 8)));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = dataUrl;
+  });
+}
@@ -0,0 +1,108 @@
+/**
+ * Incident Service
+ *
+ * A report belongs to the disaster it was taken under. One incident is
+ * active at a time: new reports are filed under it and every view shows
+ * only its reports, so two overlapping events never mix in the counts,
+ * the map or the FEMA figures.
+ */
+
+import { DamageReport, Incident, IncidentEventType, IncidentType } from '../types';
+
+export const INCIDENT_EVENT_LABELS: Record<IncidentEventType, string> = {
+  HURRICANE: 'Hurricane',
+  TROPICAL_STORM: 'Tropical storm',
+  FLOOD: 'Flood',
+  SEVERE_STORM: 'Severe storm',
+  TORNADO: 'Tornado',
+  WILDFIRE: 'Wildfire',
+  EARTHQUAKE: 'Earthquake',
+  WINTER_STORM: 'Winter storm',
+  OTHER: 'Other',
+};
+
+// Rule set most reports of each event type fall under
+export const DEFAULT_INCIDENT_TYPES: Record<IncidentEventType, IncidentType> = {
+  HURRICANE: IncidentType.FLOOD,
+  TROPICAL_STORM: IncidentType.FLOOD,
+  FLOOD: IncidentType.FLOOD,
+  SEVERE_STORM: IncidentType.NON_FLOOD,
+  TORNADO: IncidentType.NON_FLOOD,
+  WILDFIRE: IncidentType.NON_FLOOD,
+  EARTHQUAKE: IncidentType.NON_FLOOD,
+  WINTER_STORM: IncidentType.NON_FLOOD,
+  OTHER: IncidentType.NON_FLOOD,
+};
+
+// Incident that reports from before incidents existed are linked to
+export const LEGACY_INCIDENT_ID = 'INC_LEGACY';
+
+const DR_NUMBER_PATTERN = /^(DR|EM)-\d{4}(-[A-Z]{2})?$/;
+
+export interface IncidentInput {
+  name: string;
+  drNumber?: string;
+  declaredAt?: number;
+  eventType: IncidentEventType;
+  counties: string[];
+  defaultIncidentType: IncidentType;
+}
+
+/**
+ * "Pinellas, Hillsborough; Pasco" -> ["Pinellas", "Hillsborough", "Pasco"]
+ */
+export function parseCounties(text: string): string[] {
+  const counties = text.split(/[,;\n]/).map(c => c.trim()).filter(Boolean);
+  return [...new Set(counties)];
+}
+
+/**
+ * Validate and normalize an incident. Pass the existing record to edit it.
+ */
+export function buildIncident(input: IncidentInput, existing?: Incident, now: number = Date.now()): Incident {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Incident name is required');
+  }
+  const drNumber = input.drNumber?.trim().toUpperCase() || undefined;
+  if (drNumber && !DR_NUMBER_PATTERN.test(drNumber)) {
+    throw new Error('Declaration number must look like DR-4834-FL or EM-3612');
+  }
+  if (input.declaredAt !== undefined && Number.isNaN(input.declaredAt)) {
+    throw new Error('Declaration date is not a valid date');
+  }
+
+  return {
+    id: existing?.id || `INC_${now}_${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+    name,
+    drNumber,
+    declaredAt: input.declaredAt,
+    eventType: input.eventType,
+    counties: [...new Set(input.counties.map(c => c.trim()).filter(Boolean))],
+    defaultIncidentType: input.defaultIncidentType,
+    createdAt: existing?.createdAt ?? now,
+  };
+}
+
+export function reportsForIncident(reports: DamageReport[], incidentId: string | undefined): DamageReport[] {
+  if (!incidentId) return [];
+  return reports.filter(r => r.incidentId === incidentId);
+}
+
+/**
+ * "Hurricane Milton (DR-4834-FL)" - the incident as named in narratives and headers.
+ */
+export function incidentTitle(incident: Incident): string {
+  return incident.drNumber ? `${incident.name} (${incident.drNumber})` : incident.name;
+}
+
+/**
+ * One-line description for PDFs, e.g.
+ * "Hurricane Milton (DR-4834-FL) · Hurricane · declared 10/11/2024 · Pinellas, Pasco".
+ */
+export function describeIncident(incident: Incident): string {
+  const parts = [incidentTitle(incident), INCIDENT_EVENT_LABELS[incident.eventType]];
+  if (incident.declaredAt !== undefined) parts.push(`declared ${new Date(incident.declaredAt).toLocaleDateString()}`);
+  if (incident.counties.length > 0) parts.push(incident.counties.join(', '));
+  return parts.join(' · ');
+}
@@ -0,0 +1,190 @@
+/**
+ * Intake Service
+ *
+ * Client details and the assistance record for a report, as entered by a
+ * caseworker. Everything here comes from the intake form; nothing is
+ * filled in on the client's behalf, and the case PDF refuses to go out
+ * without a real client name.
+ */
+
+import { AssistanceRecord, AssistanceStatus, ClientInfo, ContactMethod, DamageReport, HouseholdMember } from '../types';
+
+export const CONTACT_METHOD_LABELS: Record<ContactMethod, string> = {
+  PHONE: 'Phone call',
+  TEXT: 'Text message',
+  EMAIL: 'Email',
+  IN_PERSON: 'In person',
+};
+
+export const ASSISTANCE_STATUS_LABELS: Record<AssistanceStatus, string> = {
+  pending: 'Pending',
+  in_place: 'Sheltering in place',
+  relocated: 'Relocated',
+  completed: 'Completed',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface HouseholdMemberInput {
+  name: string;
+  relationship: string;
+  age: string;
+  accessNeeds: string;
+}
+
+export interface ClientInfoInput {
+  name: string;
+  phone: string;
+  email: string;
+  preferredContact?: ContactMethod;
+  language: string;
+  interpreterNeeded: boolean;
+  householdMembers: HouseholdMemberInput[];
+  caseworker: string;
+  caseworkerEmail: string;
+  intakeBy: string;
+}
+
+export interface AssistanceInput {
+  status: AssistanceStatus;
+  shelterName: string;
+  financialAssistance: string;
+  notes: string;
+}
+
+/**
+ * US phone numbers in any common notation -> "(727) 555-0100".
+ * Returns undefined when the text isn't a 10-digit number.
+ */
+export function formatPhone(text: string): string | undefined {
+  const digits = text.replace(/\D/g, '');
+  const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+  // Area codes and exchanges never start with 0 or 1
+  if (!/^[2-9]\d{2}[2-9]\d{6}$/.test(national)) return undefined;
+  return `(${national.slice(0, 3)}) ${national.slice(3, 6)}-${national.slice(6)}`;
+}
+
+export function isValidEmail(text: string): boolean {
+  return EMAIL_PATTERN.test(text.trim());
+}
+
+function optional(text: string): string | undefined {
+  return text.trim() || undefined;
+}
+
+function buildMember(input: HouseholdMemberInput, position: number): HouseholdMember {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error(`Household member ${position} needs a name`);
+  }
+  let age: number | undefined;
+  if (input.age.trim()) {
+    age = Number(input.age);
+    if (!Number.isInteger(age) || age < 0 || age > 120) {
+      throw new Error(`Age of ${name} must be a whole number of years`);
+    }
+  }
+  return {
+    name,
+    relationship: optional(input.relationship),
+    age,
+    accessNeeds: optional(input.accessNeeds),
+  };
+}
+
+/**
+ * Validate the intake form. Throws with a message for the first problem.
+ */
+export function buildClientInfo(input: ClientInfoInput, now: number = Date.now()): ClientInfo {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error('Client name is required');
+  }
+
+  const phone = input.phone.trim() ? formatPhone(input.phone) : '';
+  if (phone === undefined) {
+    throw new Error('Phone number must be a 10-digit US number, e.g. (727) 555-0100');
+  }
+  const email = optional(input.email);
+  if (email && !isValidEmail(email)) {
+    throw new Error('Client email address is not valid');
+  }
+  if (!phone && !email && input.preferredContact !== 'IN_PERSON') {
+    throw new Error('Enter a phone number or email address, or choose in-person contact');
+  }
+  if ((input.preferredContact === 'PHONE' || input.preferredContact === 'TEXT') && !phone) {
+    throw new Error(`${CONTACT_METHOD_LABELS[input.preferredContact]} needs a phone number`);
+  }
+  if (input.preferredContact === 'EMAIL' && !email) {
+    throw new Error('Email contact needs an email address');
+  }
+
+  const caseworkerEmail = optional(input.caseworkerEmail);
+  if (caseworkerEmail && !isValidEmail(caseworkerEmail)) {
+    throw new Error('Caseworker email address is not valid');
+  }
+  const intakeBy = input.intakeBy.trim();
+  if (!intakeBy) {
+    throw new Error('Name of the person taking the intake is required');
+  }
+
+  const members = input.householdMembers
+    // Rows left completely blank are ignored rather than rejected
+    .filter(member => Object.values(member).some(value => value.trim() !== ''))
+    .map((member, i) => buildMember(member, i + 1));
+
+  return {
+    name,
+    phone,
+    email,
+    preferredContact: input.preferredContact,
+    language: optional(input.language),
+    interpreterNeeded: input.interpreterNeeded || undefined,
+    householdMembers: members.length > 0 ? members : undefined,
+    caseworker: optional(input.caseworker),
+    caseworkerEmail,
+    intakeBy,
+    intakeAt: now,
+  };
+}
+
+export function buildAssistanceRecord(input: AssistanceInput): AssistanceRecord {
+  return {
+    status: input.status,
+    shelterName: input.status === 'relocated' ? optional(input.shelterName) : undefined,
+    financialAssistance: optional(input.financialAssistance),
+    notes: input.notes.trim(),
+  };
+}
+
+/**
+ * Why a case PDF can't be produced yet, or undefined when it can.
+ */
+export function exportBlocker(report: DamageReport): string | undefined {
+  if (!report.clientInfo?.name.trim()) {
+    return 'Complete the client intake before exporting: the case report needs the client\'s name.';
+  }
+  return undefined;
+}
+
+/**
+ * "Spanish (interpreter needed) · prefers text message"
+ */
+export function describeContactPreferences(client: ClientInfo): string {
+  const parts: string[] = [];
+  if (client.language) parts.push(client.interpreterNeeded ? `${client.language} (interpreter needed)` : client.language);
+  else if (client.interpreterNeeded) parts.push('interpreter needed');
+  if (client.preferredContact) parts.push(`prefers ${CONTACT_METHOD_LABELS[client.preferredContact].toLowerCase()}`);
+  return parts.join(' · ') || 'No contact preferences recorded';
+}
+
+/**
+ * "3 other members, 1 with access or functional needs"
+ */
+export function describeHousehold(client: ClientInfo): string {
+  const members = client.householdMembers || [];
+  if (members.length === 0) return 'No other household members recorded';
+  const withNeeds = members.filter(m => m.accessNeeds).length;
+  const count = `${members.length} other member${members.length === 1 ? '' : 's'}`;
+  return withNeeds > 0 ? `${count}, ${withNeeds} with access or functional needs` : count;
+}
@@ -0,0 +1,88 @@
+import { Location, LocationSource, PhotoMetadata } from '../types';
+
+/**
+ * Build a report location from photo EXIF. The address is left blank for
+ * the caseworker (or a geocoder) to fill in.
+ */
+export function locationFromMetadata(metadata: PhotoMetadata): Location | null {
+  if (!metadata.gps) return null;
+  return {
+    lat: metadata.gps.lat,
+    lng: metadata.gps.lng,
+    address: '',
+    source: 'exif',
+    heading: metadata.heading,
+  };
+}
+
+/**
+ * Use the first photo in the set that carries GPS.
+ */
+export function locationFromPhotos(metadata: PhotoMetadata[]): Location | null {
+  for (const meta of metadata) {
+    const location = locationFromMetadata(meta);
+    if (location) return location;
+  }
+  return null;
+}
+
+export function isValidCoordinate(lat: number, lng: number): boolean {
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+export function formatCoordinates(location: Pick<Location, 'lat' | 'lng'>): string {
+  return `${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}`;
+}
+
+/**
+ * Random Pinellas County address for demos and training only.
+ * Never used unless demo mode is enabled in Settings.
+ */
+export function generateDemoLocation(): Location {
+  const streets = ['Gulf Blvd', 'Belcher Rd', 'Ulmerton Rd', 'Park Blvd', 'Gandy Blvd', 'Central Ave', 'MLK Jr St'];
+  const cities = ['St. Petersburg', 'Clearwater', 'Largo', 'Pinellas Park', 'Tampa', 'Dunedin'];
+  const city = cities[Math.floor(Math.random() * cities.length)];
+  return {
+    address: `${Math.floor(Math.random() * 9000) + 100} ${streets[Math.floor(Math.random() * streets.length)]}`,
+    city,
+    county: city === 'Tampa' ? 'Hillsborough' : 'Pinellas',
+    state: 'FL',
+    zip: `3${Math.floor(Math.random() * 4) + 3}${Math.floor(Math.random() * 900) + 100}`,
+    lat: 27.7 + Math.random() * 0.4,
+    lng: -82.8 + Math.random() * 0.2,
+    source: 'demo',
+  };
+}
+
+export const LOCATION_SOURCE_LABELS: Record<LocationSource, string> = {
+  exif: 'Photo GPS (EXIF)',
+  manual: 'Entered by caseworker',
+  demo: 'DEMO - randomly generated',
+};
+
+/**
+ * Whether the location has usable map coordinates. Address-only entries
+ * store 0,0, which the map already treats as "no position".
+ */
+export function hasCoordinates(location: Location): boolean {
+  return Boolean(location.lat || location.lng) && isValidCoordinate(location.lat, location.lng);
+}
+
+/**
+ * "Pinellas County" -> "Pinellas", so geocoder and hand-typed names group together.
+ */
+export function normalizeCounty(name?: string): string | undefined {
+  const county = name?.trim().replace(/\s+(county|parish|borough)$/i, '').trim();
+  return county || undefined;
+}
+
+/**
+ * One-line address for display, falling back to coordinates when the
+ * street address hasn't been filled in yet.
+ */
+export function formatAddress(location: Location): string {
+  const region = [location.state, location.zip].filter(Boolean).join(' ');
+  const text = [location.address?.trim(), location.city, region].filter(Boolean).join(', ');
+  if (text) return text;
+  return hasCoordinates(location) ? formatCoordinates(location) : 'Location not recorded';
+}
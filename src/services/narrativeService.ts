@@ -0,0 +1,285 @@
+/**
+ * Narrative Service
+ *
+ * The case narrative in the PDF, assembled only from what is on the report:
+ * the grade, detections, reason codes, flood evidence, occupancy answers and
+ * the assistance record. Nothing is said that the data doesn't show - no
+ * shelter placement unless one was recorded, no referrals nobody made.
+ *
+ * A model can reword the same facts into prose, but its draft is only used
+ * once a caseworker approves it, and falls back to the template as soon as
+ * the facts it was written from change.
+ */
+
+import { CaseNarrative, DamageReport, DamageSeverity, HomeType, Incident } from '../types';
+import { SEVERITY_DEFINITIONS } from '../data/femaDamageReference';
+import { formatAddress, hasCoordinates } from './locationService';
+import { describeReview, finalHomeType, finalSeverity } from './reviewService';
+import { analysisWithWaterline, describeWaterline, formatWaterLevel } from './waterlineService';
+import { describeReasonCode, isReasonCode } from './reasonCodeService';
+import { incidentTitle } from './incidentService';
+import { DamageAnalysisProvider, getActiveProvider } from './providers';
+
+const MAX_DETECTIONS = 3;
+
+const HOME_TYPE_NOUNS: Record<HomeType, string> = {
+  [HomeType.CONVENTIONAL]: 'single-family home',
+  [HomeType.MANUFACTURED]: 'manufactured home',
+  [HomeType.MULTI_FAMILY]: 'multi-family residence',
+  [HomeType.COMMERCIAL]: 'commercial building',
+  [HomeType.NONE]: 'property',
+};
+
+const NARRATIVE_SYSTEM_PROMPT = `You write case narratives for disaster relief caseworkers.
+Rewrite the facts you are given as one paragraph of plain, third-person prose in the past tense.
+Use only those facts. Do not add damage, causes, services, referrals, follow-ups, people or dates that are not listed.
+Keep names, addresses, measurements and damage categories exactly as given.
+Reply with the paragraph only: no heading, no list, no commentary. Stay under 180 words.`;
+
+const severityLabel = (severity: DamageSeverity) =>
+  SEVERITY_DEFINITIONS.find(d => d.severity === severity)?.label || severity;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Free text from a form, ready to end a sentence
+const asClause = (text: string) => text.trim().replace(/[.\s]+$/, '');
+
+/**
+ * "Maria Lopez's manufactured home at 12 Palm Ave, Tampa, FL 33601"
+ */
+function describeProperty(report: DamageReport): string {
+  const home = HOME_TYPE_NOUNS[finalHomeType(report) || HomeType.NONE];
+  const owner = report.clientInfo?.name.trim();
+  const { location } = report;
+  const located = location.address?.trim() || location.city || location.state || location.zip || hasCoordinates(location);
+  return `${owner ? `${owner}'s` : 'the'} ${home}${located ? ` at ${formatAddress(location)}` : ''}`;
+}
+
+// Opening sentence per grade; each says only what the category itself means
+function gradeSentence(report: DamageReport, event: string): string {
+  const property = describeProperty(report);
+  switch (finalSeverity(report)) {
+    case DamageSeverity.DESTROYED:
+      return `${capitalize(property)} was assessed as Destroyed after ${event}: a total loss, with repair not feasible.`;
+    case DamageSeverity.MAJOR:
+      return `${capitalize(property)} was assessed as having Major damage after ${event}: significant damage requiring extensive repairs.`;
+    case DamageSeverity.MINOR:
+      return `${capitalize(property)} was assessed as having Minor damage after ${event}: non-structural damage needing repair, with structural integrity not affected.`;
+    case DamageSeverity.AFFECTED:
+      return `${capitalize(property)} was assessed as Affected after ${event}: cosmetic or minimal damage, with essential living space and key systems not impacted.`;
+    case DamageSeverity.NO_VISIBLE_DAMAGE:
+      return `No visible damage was found at ${property} in the photos taken after ${event}.`;
+    case DamageSeverity.INACCESSIBLE:
+      return `${capitalize(property)} could not be assessed after ${event} because access was blocked, so damage could not be visually verified.`;
+    default:
+      return `${capitalize(property)} could not be graded after ${event}; the photos did not show enough evidence to assign a damage category.`;
+  }
+}
+
+function detectionSentence(report: DamageReport): string | undefined {
+  const detections = [...(report.analysis?.detections || [])]
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_DETECTIONS);
+  if (detections.length === 0) return undefined;
+  const items = detections.map(d => `${d.object.trim().toLowerCase()} (${severityLabel(d.severity).toLowerCase()})`);
+  return `Damage seen in the photos: ${items.join(', ')}.`;
+}
+
+// Stored reports can predate reason-code normalization; show those codes as written
+const describeCode = (code: string) =>
+  isReasonCode(code) ? describeReasonCode(code).toLowerCase() : code.replace(/_/g, ' ');
+
+function reasonSentence(report: DamageReport): string | undefined {
+  const review = report.review;
+  if (review?.action === 'overridden' && review.overallSeverity) {
+    // The model's codes argued for the grade the reviewer replaced
+    return `The grade was set by the reviewer, ${review.reviewer}, not by the AI analysis.`;
+  }
+  const codes = report.analysis?.reasonCodes || [];
+  if (codes.length === 0) return undefined;
+  return `Grade based on: ${codes.map(describeCode).join('; ')}.`;
+}
+
+function floodSentences(report: DamageReport): string[] {
+  const sentences: string[] = [];
+  if (report.waterline) {
+    sentences.push(`The water line was ${describeWaterline(report.waterline)}.`);
+  }
+  const evidence = analysisWithWaterline(report)?.floodEvidence;
+  if (!evidence) return sentences;
+
+  if (!report.waterline && evidence.waterLineDetected) {
+    const height = evidence.estimatedHeightInches !== undefined
+      ? `, estimated at ${evidence.estimatedHeightInches} in above the floor`
+      : '';
+    const level = evidence.waterLineReference ? ` (${formatWaterLevel(evidence.waterLineReference)})` : '';
+    sentences.push(`A water line was visible in the photos${height}${level}.`);
+  }
+  if (evidence.contaminationPresent) sentences.push('Contamination from sewage, fuel or chemicals was observed.');
+  if (evidence.longDurationFlooding) sentences.push('There were signs of long-duration flooding.');
+  if (evidence.basementMechanicalDamage) sentences.push('Mechanical systems in the basement were damaged.');
+  return sentences;
+}
+
+function reviewSentence(report: DamageReport): string | undefined {
+  if (!report.analysis) return undefined;
+  if (!report.review) return 'The grade is from the AI analysis and has not been reviewed by a supervisor.';
+  return `${asClause(describeReview(report))}.`;
+}
+
+function occupancySentences(report: DamageReport): string[] {
+  const occupancy = report.occupancy;
+  if (!occupancy) return [];
+  const sentences: string[] = [];
+  if (occupancy.ownership) {
+    sentences.push(`The household ${occupancy.ownership === 'OWNER' ? 'owns' : 'rents'} the home.`);
+  }
+  if (occupancy.primaryResidence !== undefined) {
+    sentences.push(`It ${occupancy.primaryResidence ? 'is' : 'is not'} their primary residence.`);
+  }
+  const policy = occupancy.ownership === 'RENTER' ? 'renters' : 'homeowners';
+  if (occupancy.homeownersInsurance !== undefined) {
+    sentences.push(`They ${occupancy.homeownersInsurance ? 'have' : 'do not have'} ${policy} insurance.`);
+  }
+  if (occupancy.floodInsurance !== undefined) {
+    sentences.push(`They ${occupancy.floodInsurance ? 'have' : 'do not have'} flood insurance.`);
+  }
+  return sentences;
+}
+
+function assistanceSentences(report: DamageReport): string[] {
+  const assistance = report.assistance;
+  if (!assistance) return [];
+  const sentences: string[] = [];
+  switch (assistance.status) {
+    case 'pending':
+      sentences.push('Assistance is pending.');
+      break;
+    case 'in_place':
+      sentences.push('The household is sheltering in place.');
+      break;
+    case 'relocated':
+      sentences.push(assistance.shelterName
+        ? `The household relocated to ${asClause(assistance.shelterName)}.`
+        : 'The household relocated.');
+      break;
+    case 'completed':
+      sentences.push('Assistance has been completed.');
+      break;
+  }
+  if (assistance.financialAssistance) {
+    sentences.push(`Financial assistance provided: ${asClause(assistance.financialAssistance)}.`);
+  }
+  return sentences;
+}
+
+/**
+ * The narrative's facts as sentences, in the order they are told. These are
+ * the template narrative and the only material a model draft may use.
+ */
+export function narrativeFacts(report: DamageReport, incident?: Incident): string[] {
+  const event = incident ? incidentTitle(incident) : 'the disaster';
+  return [
+    gradeSentence(report, event),
+    detectionSentence(report),
+    reasonSentence(report),
+    ...floodSentences(report),
+    reviewSentence(report),
+    ...occupancySentences(report),
+    ...assistanceSentences(report),
+  ].filter((sentence): sentence is string => !!sentence);
+}
+
+/**
+ * Template narrative built from the report's own data.
+ */
+export function buildNarrative(report: DamageReport, incident?: Incident): string {
+  return narrativeFacts(report, incident).join(' ');
+}
+
+/**
+ * The facts behind the saved draft no longer match the report, e.g. after a
+ * review override or a changed assistance record.
+ */
+export function isNarrativeStale(report: DamageReport, incident?: Incident): boolean {
+  const narrative = report.narrative;
+  if (!narrative) return false;
+  const facts = narrativeFacts(report, incident);
+  return facts.length !== narrative.facts.length || facts.some((fact, i) => fact !== narrative.facts[i]);
+}
+
+/**
+ * Ask the active provider to reword the facts. The result is a draft: it is
+ * not exported until approveNarrative() has been applied.
+ */
+export async function draftNarrativeWithAI(
+  report: DamageReport,
+  incident?: Incident,
+  provider: DamageAnalysisProvider = getActiveProvider(),
+  now: number = Date.now()
+): Promise<CaseNarrative> {
+  if (provider.offline) {
+    throw new Error(`${provider.label} can't draft narratives. Switch to an online provider or use the template narrative.`);
+  }
+  if (!provider.isReady()) {
+    throw new Error(`${provider.label} is not ready. Please check your provider settings.`);
+  }
+
+  const facts = narrativeFacts(report, incident);
+  const response = await provider.complete({
+    system: NARRATIVE_SYSTEM_PROMPT,
+    prompt: `Facts:\n${facts.map(fact => `- ${fact}`).join('\n')}\n\nWrite the case narrative.`,
+    images: [],
+  });
+  const text = response.text.trim();
+  if (!text) {
+    throw new Error(`${provider.label} returned an empty narrative`);
+  }
+  return { text, facts, model: response.model, draftedAt: now };
+}
+
+/**
+ * Approve a draft, with any wording changes the caseworker made.
+ */
+export function approveNarrative(
+  draft: CaseNarrative,
+  text: string,
+  approvedBy: string,
+  now: number = Date.now()
+): CaseNarrative {
+  const approver = approvedBy.trim();
+  if (!approver) {
+    throw new Error('Caseworker name is required');
+  }
+  const approvedText = text.trim();
+  if (!approvedText) {
+    throw new Error('Narrative text is required');
+  }
+  return {
+    ...draft,
+    text: approvedText,
+    edited: draft.edited || approvedText !== draft.text || undefined,
+    approvedBy: approver,
+    approvedAt: now,
+  };
+}
+
+/**
+ * Narrative for the case PDF: the approved AI draft while its facts still
+ * hold, the template otherwise.
+ */
+export function narrativeForExport(report: DamageReport, incident?: Incident): string {
+  const narrative = report.narrative;
+  if (narrative?.approvedBy && !isNarrativeStale(report, incident)) return narrative.text;
+  return buildNarrative(report, incident);
+}
+
+/**
+ * "AI draft (claude-sonnet-4-5), edited and approved by J. Smith on 3/4/2026, 10:12 AM"
+ */
+export function describeNarrativeApproval(narrative: CaseNarrative): string {
+  const draft = narrative.model ? `AI draft (${narrative.model})` : 'AI draft';
+  if (!narrative.approvedBy || !narrative.approvedAt) return `${draft}, not approved`;
+  const approval = narrative.edited ? 'edited and approved' : 'approved';
+  return `${draft}, ${approval} by ${narrative.approvedBy} on ${new Date(narrative.approvedAt).toLocaleString()}`;
+}
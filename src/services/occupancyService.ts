@@ -0,0 +1,121 @@
+/**
+ * Occupancy Service
+ *
+ * Owner/renter, primary residence and insurance answers for a report.
+ * PDA Individual Assistance figures are split on these, and an unanswered
+ * question stays unanswered: nothing here guesses from the photos.
+ */
+
+import { DamageReport, DamageSeverity, OccupancyStatus, Ownership } from '../types';
+import { finalSeverity } from './reviewService';
+
+export const OWNERSHIP_LABELS: Record<Ownership, string> = {
+  OWNER: 'Owner',
+  RENTER: 'Renter',
+};
+
+export type OccupancyInput = Omit<OccupancyStatus, 'recordedAt'>;
+
+export interface AnswerCounts {
+  yes: number;
+  no: number;
+  unknown: number;
+}
+
+export interface OccupancyBreakdown {
+  ownership: Record<Ownership | 'UNKNOWN', number>;
+  primaryResidence: AnswerCounts;
+  homeownersInsurance: AnswerCounts;
+  floodInsurance: AnswerCounts;
+  uninsuredMajorOrDestroyed: number; // Neither policy, graded Major or Destroyed
+}
+
+export function formatAnswer(value: boolean | undefined): string {
+  if (value === undefined) return 'Not asked';
+  return value ? 'Yes' : 'No';
+}
+
+export function ownershipLabel(ownership: Ownership | undefined): string {
+  return ownership ? OWNERSHIP_LABELS[ownership] : 'Not recorded';
+}
+
+/**
+ * Validate the caseworker's answers and stamp them.
+ */
+export function recordOccupancy(input: OccupancyInput, now: number = Date.now()): OccupancyStatus {
+  const recordedBy = input.recordedBy.trim();
+  if (!recordedBy) {
+    throw new Error('Caseworker name is required');
+  }
+  const answered = [input.ownership, input.primaryResidence, input.homeownersInsurance, input.floodInsurance]
+    .some(value => value !== undefined);
+  if (!answered) {
+    throw new Error('Answer at least one question');
+  }
+  return {
+    ownership: input.ownership,
+    primaryResidence: input.primaryResidence,
+    homeownersInsurance: input.homeownersInsurance,
+    floodInsurance: input.floodInsurance,
+    recordedBy,
+    recordedAt: now,
+  };
+}
+
+/**
+ * Both policies answered "no". Unanswered questions don't make a household uninsured.
+ */
+export function isUninsured(occupancy: OccupancyStatus | undefined): boolean {
+  return occupancy?.homeownersInsurance === false && occupancy.floodInsurance === false;
+}
+
+/**
+ * "Renter · primary residence · renters insurance: Yes · flood insurance: Not asked"
+ */
+export function describeOccupancy(occupancy: OccupancyStatus | undefined): string {
+  if (!occupancy) return 'Occupancy not recorded';
+  const residence = occupancy.primaryResidence === undefined
+    ? 'primary residence not asked'
+    : occupancy.primaryResidence ? 'primary residence' : 'not primary residence';
+  const policy = occupancy.ownership === 'RENTER' ? 'renters insurance' : 'homeowners insurance';
+  return [
+    ownershipLabel(occupancy.ownership),
+    residence,
+    `${policy}: ${formatAnswer(occupancy.homeownersInsurance)}`,
+    `flood insurance: ${formatAnswer(occupancy.floodInsurance)}`,
+  ].join(' · ');
+}
+
+function countAnswer(counts: AnswerCounts, value: boolean | undefined): void {
+  if (value === undefined) counts.unknown++;
+  else if (value) counts.yes++;
+  else counts.no++;
+}
+
+/**
+ * Answer counts over completed reports, for the dashboard.
+ */
+export function occupancyBreakdown(reports: DamageReport[]): OccupancyBreakdown {
+  const breakdown: OccupancyBreakdown = {
+    ownership: { OWNER: 0, RENTER: 0, UNKNOWN: 0 },
+    primaryResidence: { yes: 0, no: 0, unknown: 0 },
+    homeownersInsurance: { yes: 0, no: 0, unknown: 0 },
+    floodInsurance: { yes: 0, no: 0, unknown: 0 },
+    uninsuredMajorOrDestroyed: 0,
+  };
+
+  for (const report of reports) {
+    if (report.status !== 'completed') continue;
+    const occupancy = report.occupancy;
+    breakdown.ownership[occupancy?.ownership ?? 'UNKNOWN']++;
+    countAnswer(breakdown.primaryResidence, occupancy?.primaryResidence);
+    countAnswer(breakdown.homeownersInsurance, occupancy?.homeownersInsurance);
+    countAnswer(breakdown.floodInsurance, occupancy?.floodInsurance);
+    const severity = finalSeverity(report);
+    if (isUninsured(occupancy) && (severity === DamageSeverity.MAJOR || severity === DamageSeverity.DESTROYED)) {
+      breakdown.uninsuredMajorOrDestroyed++;
+    }
+  }
+
+  return breakdown;
+}
@@ -0,0 +1,201 @@
+/**
+ * PDA Roll-up Service
+ *
+ * County totals in the shape FEMA asks for during a Preliminary Damage
+ * Assessment: residences per damage category, broken down by home type
+ * and owner/renter, for one incident. Counts use the final grade, so a
+ * supervisor's review outranks the model.
+ */
+
+import { DamageReport, DamageSeverity, HomeType, Incident, Ownership } from '../types';
+import { SEVERITY_DEFINITIONS } from '../data/femaDamageReference';
+import { finalHomeType, finalSeverity } from './reviewService';
+import { normalizeCounty } from './locationService';
+import { incidentTitle } from './incidentService';
+import { OWNERSHIP_LABELS, ownershipLabel } from './occupancyService';
+import { Cell, Sheet } from './spreadsheetService';
+
+// PDA categories in the column order of FEMA's county summary
+export const PDA_SEVERITIES = [
+  DamageSeverity.DESTROYED,
+  DamageSeverity.MAJOR,
+  DamageSeverity.MINOR,
+  DamageSeverity.AFFECTED,
+  DamageSeverity.INACCESSIBLE,
+] as const;
+
+export type PdaSeverity = typeof PDA_SEVERITIES[number];
+
+export const PDA_SEVERITY_LABELS = Object.fromEntries(
+  PDA_SEVERITIES.map(severity => [severity, SEVERITY_DEFINITIONS.find(d => d.severity === severity)!.label])
+) as Record<PdaSeverity, string>;
+
+export const HOME_TYPE_LABELS: Record<HomeType, string> = {
+  [HomeType.CONVENTIONAL]: 'Single family',
+  [HomeType.MANUFACTURED]: 'Manufactured home',
+  [HomeType.MULTI_FAMILY]: 'Multi-family',
+  [HomeType.COMMERCIAL]: 'Commercial',
+  [HomeType.NONE]: 'Not determined',
+};
+
+export const UNRECORDED_COUNTY = 'County not recorded';
+
+export type SeverityCounts = Record<PdaSeverity, number>;
+
+export interface PdaRollupRow {
+  homeType: HomeType;
+  ownership?: Ownership; // Undefined when the caseworker hasn't recorded it
+  counts: SeverityCounts;
+  total: number;
+}
+
+export interface PdaCountyRollup {
+  county: string;
+  designated: boolean; // Listed on the incident's declaration
+  rows: PdaRollupRow[]; // One per home type and ownership with any counted report
+  totals: SeverityCounts;
+  total: number;
+}
+
+export interface PdaRollup {
+  incident?: Incident;
+  generatedAt: number;
+  counties: PdaCountyRollup[];
+  totals: SeverityCounts;
+  total: number;
+  // Completed reports left out of the counts
+  excluded: {
+    noVisibleDamage: number;
+    ungraded: number; // UNKNOWN or no grade at all
+  };
+}
+
+const HOME_TYPE_ORDER = Object.keys(HOME_TYPE_LABELS) as HomeType[];
+const OWNERSHIP_ORDER: (Ownership | undefined)[] = [...(Object.keys(OWNERSHIP_LABELS) as Ownership[]), undefined];
+
+// Map key for a home type and ownership pair
+const rowKey = (homeType: HomeType, ownership: Ownership | undefined) => `${homeType}:${ownership ?? ''}`;
+
+function emptyCounts(): SeverityCounts {
+  return Object.fromEntries(PDA_SEVERITIES.map(severity => [severity, 0])) as SeverityCounts;
+}
+
+function isPdaSeverity(severity: DamageSeverity | undefined): severity is PdaSeverity {
+  return (PDA_SEVERITIES as readonly DamageSeverity[]).includes(severity as DamageSeverity);
+}
+
+function sumCounts(counts: SeverityCounts): number {
+  return PDA_SEVERITIES.reduce((sum, severity) => sum + counts[severity], 0);
+}
+
+/**
+ * Roll completed reports up by county, home type and ownership. Reports without a
+ * county are grouped under UNRECORDED_COUNTY rather than dropped.
+ */
+export function buildPdaRollup(reports: DamageReport[], incident?: Incident, now: number = Date.now()): PdaRollup {
+  const designated = new Map((incident?.counties || []).map(name => [name.toLowerCase(), name]));
+  const byCounty = new Map<string, { county: string; byRow: Map<string, SeverityCounts> }>();
+  const excluded = { noVisibleDamage: 0, ungraded: 0 };
+
+  for (const report of reports) {
+    if (report.status !== 'completed') continue;
+    const severity = finalSeverity(report);
+    if (!isPdaSeverity(severity)) {
+      if (severity === DamageSeverity.NO_VISIBLE_DAMAGE) excluded.noVisibleDamage++;
+      else excluded.ungraded++;
+      continue;
+    }
+
+    const name = normalizeCounty(report.location.county);
+    const key = name?.toLowerCase() ?? '';
+    // Spell designated counties the way the declaration does
+    const county = name ? designated.get(key) ?? name : UNRECORDED_COUNTY;
+    const entry = byCounty.get(key) ?? { county, byRow: new Map() };
+    byCounty.set(key, entry);
+
+    const row = rowKey(finalHomeType(report) || HomeType.NONE, report.occupancy?.ownership);
+    const counts = entry.byRow.get(row) ?? emptyCounts();
+    entry.byRow.set(row, counts);
+    counts[severity]++;
+  }
+
+  const counties = [...byCounty.entries()].map(([key, { county, byRow }]): PdaCountyRollup => {
+    const rows = HOME_TYPE_ORDER.flatMap(homeType => OWNERSHIP_ORDER.flatMap((ownership): PdaRollupRow[] => {
+      const counts = byRow.get(rowKey(homeType, ownership));
+      return counts ? [{ homeType, ownership, counts, total: sumCounts(counts) }] : [];
+    }));
+    const totals = emptyCounts();
+    for (const row of rows) {
+      for (const severity of PDA_SEVERITIES) totals[severity] += row.counts[severity];
+    }
+    return { county, designated: designated.has(key), rows, totals, total: sumCounts(totals) };
+  });
+
+  // Alphabetical, with the unrecorded bucket last
+  counties.sort((a, b) =>
+    Number(a.county === UNRECORDED_COUNTY) - Number(b.county === UNRECORDED_COUNTY) || a.county.localeCompare(b.county)
+  );
+
+  const totals = emptyCounts();
+  for (const county of counties) {
+    for (const severity of PDA_SEVERITIES) totals[severity] += county.totals[severity];
+  }
+
+  return { incident, generatedAt: now, counties, totals, total: sumCounts(totals), excluded };
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+const SEVERITY_HEADERS = PDA_SEVERITIES.map(severity => PDA_SEVERITY_LABELS[severity]);
+
+function countCells(counts: SeverityCounts, total: number): Cell[] {
+  return [...PDA_SEVERITIES.map(severity => counts[severity]), total];
+}
+
+/**
+ * One row per county, home type and ownership, with a subtotal row per
+ * county and a grand total. The same table backs the CSV, the workbook and the print view.
+ */
+export function rollupTable(rollup: PdaRollup): Cell[][] {
+  const rows: Cell[][] = [['County', 'Home type', 'Occupancy', ...SEVERITY_HEADERS, 'Total']];
+  for (const county of rollup.counties) {
+    for (const row of county.rows) {
+      rows.push([county.county, HOME_TYPE_LABELS[row.homeType], ownershipLabel(row.ownership), ...countCells(row.counts, row.total)]);
+    }
+    rows.push([county.county, 'All home types', 'All', ...countCells(county.totals, county.total)]);
+  }
+  rows.push(['All counties', 'All home types', 'All', ...countCells(rollup.totals, rollup.total)]);
+  return rows;
+}
+
+/**
+ * Workbook sheets: the roll-up itself and a sheet describing what was counted.
+ */
+export function rollupSheets(rollup: PdaRollup): Sheet[] {
+  const about: Cell[][] = [
+    ['Field', 'Value'],
+    ['Incident', rollup.incident ? incidentTitle(rollup.incident) : 'No incident selected'],
+    ['Designated counties', rollup.incident?.counties.join(', ') || ''],
+    ['Generated', new Date(rollup.generatedAt).toLocaleString()],
+    ['Residences counted', rollup.total],
+    ['Excluded: no visible damage', rollup.excluded.noVisibleDamage],
+    ['Excluded: not graded', rollup.excluded.ungraded],
+    ...SEVERITY_DEFINITIONS
+      .filter(definition => isPdaSeverity(definition.severity))
+      .map((definition): Cell[] => [definition.label, definition.meaning]),
+  ];
+  return [
+    { name: 'PDA by county', rows: rollupTable(rollup) },
+    { name: 'About', rows: about },
+  ];
+}
+
+/**
+ * "PDA_Hurricane_Milton_2024-10-19"
+ */
+export function rollupFileName(rollup: PdaRollup): string {
+  const name = rollup.incident ? incidentTitle(rollup.incident).replace(/\W+/g, '_').replace(/^_|_$/g, '') : 'All_reports';
+  return `PDA_${name}_${new Date(rollup.generatedAt).toISOString().split('T')[0]}`;
+}
@@ -1,5 +1,14 @@
 import jsPDF from 'jspdf';
-import { DamageReport, DamageSeverity } from '../types';
+import { AssistanceRecord, DamageReport, DamageSeverity, Incident } from '../types';
+import { SEVERITY_DEFINITIONS } from '../data/femaDamageReference';
+import { formatAddress, formatCoordinates, hasCoordinates, LOCATION_SOURCE_LABELS } from './locationService';
+import { describeReview, finalSeverity } from './reviewService';
+import { describeWaterline } from './waterlineService';
+import { annotatedDetections, boxesOnPhoto, renderAnnotatedImage } from './annotationService';
+import { describeIncident } from './incidentService';
+import { describeOccupancy } from './occupancyService';
+import { describeNarrativeApproval, narrativeForExport } from './narrativeService';
+import { ASSISTANCE_STATUS_LABELS, describeContactPreferences, describeHousehold, exportBlocker } from './intakeService';
 
 const SEVERITY_COLORS: Record<DamageSeverity, [number, number, number]> = {
   [DamageSeverity.INACCESSIBLE]: [168, 85, 247],
@@ -11,50 +20,61 @@ const SEVERITY_COLORS: Record<DamageSeverity, [number, number, number]> = {
   [DamageSeverity.UNKNOWN]: [107, 114, 128],
 };
 
-const SEVERITY_OUTCOMES: Record<DamageSeverity, string> = {
-  [DamageSeverity.INACCESSIBLE]: 'Assessment pending - property inaccessible, requires follow-up visit',
-  [DamageSeverity.DESTROYED]: 'Full disaster relief - total loss, long-term housing assistance',
-  [DamageSeverity.MAJOR]: 'Relocation assistance - structure uninhabitable pending major repairs',
-  [DamageSeverity.MINOR]: 'Emergency repair assistance - temporary tarping/boarding',
-  [DamageSeverity.AFFECTED]: 'Clean-up assistance provided - structure habitable',
-  [DamageSeverity.NO_VISIBLE_DAMAGE]: 'No assistance required - property verified safe',
-  [DamageSeverity.UNKNOWN]: 'Assessment incomplete - insufficient evidence, requires manual review',
-};
-
-function generateNarrative(report: DamageReport): string {
-  const severity = report.analysis?.overallSeverity || DamageSeverity.NO_VISIBLE_DAMAGE;
-  const clientName = report.clientInfo?.name || 'The resident';
-  const address = `${report.location.address}, ${report.location.city || ''} ${report.location.state || ''}`.trim();
-  const homeType = report.analysis?.homeType?.toLowerCase() || 'residential';
-
-  const narratives: Record<DamageSeverity, string> = {
-    [DamageSeverity.INACCESSIBLE]: `${clientName} reported damage to their ${homeType} residence at ${address}. Field assessment could not be completed as the property was inaccessible due to blocked roads, standing floodwater, debris obstruction, or compromised infrastructure. A follow-up assessment has been scheduled once access is restored. ${clientName} was provided with emergency contact information and advised to document any visible damage from a safe distance.`,
-
-    [DamageSeverity.DESTROYED]: `${clientName}'s ${homeType} residence at ${address} was destroyed in the disaster event. Field assessment confirmed total structural loss - the building envelope has catastrophically failed with complete roof collapse and/or wall failure. The property is not recoverable and has been red-tagged. ${clientName} and all household members have been evacuated and provided emergency shelter placement. Full disaster relief services have been activated including emergency financial assistance, housing assistance, and mental health support referrals. Long-term recovery case management has been initiated.`,
-
-    [DamageSeverity.MAJOR]: `${clientName}'s ${homeType} residence at ${address} sustained major structural damage. Assessment confirmed significant breach of the building envelope with damage to load-bearing components. The structure has been deemed uninhabitable pending major repairs. ${clientName} and household members have been relocated to emergency shelter at the designated facility. Financial assistance for immediate needs has been provided. Case has been escalated to long-term recovery team for ongoing support. Structural engineering assessment has been requested.`,
-
-    [DamageSeverity.MINOR]: `${clientName} reported damage to their ${homeType} residence at ${address} following severe weather. Assessment revealed minor structural damage including damage to exterior surfaces (siding, shingles, or windows). The building envelope has minor breaches but remains largely intact. The home is habitable with temporary repairs. Emergency tarping/boarding was coordinated to prevent further weather infiltration. ${clientName} was provided with contractor referrals and information about disaster assistance programs. Follow-up scheduled in 72 hours.`,
-
-    [DamageSeverity.AFFECTED]: `${clientName} contacted disaster services following storm damage at ${address}. Field assessment revealed the ${homeType} structure remains structurally sound with the building envelope fully intact. However, significant debris was observed in the yard/driveway area requiring cleanup assistance. ${clientName} confirmed the interior of the home was not compromised. A Clean-Up Kit was provided along with information about debris removal services. The family is able to safely remain in the home during cleanup operations.`,
-
-    [DamageSeverity.NO_VISIBLE_DAMAGE]: `${clientName} reported concerns following the recent storm event affecting ${address}. Upon field assessment, the ${homeType} structure showed no visible damage. All structural components including roof, walls, and foundation appear intact. The property perimeter was inspected and found to be clear of hazardous debris. ${clientName} was provided with disaster preparedness materials and contact information for future assistance if needed.`,
+// Grade as FEMA defines it; says nothing about assistance, which comes from the AssistanceRecord
+function describeGradeOutcome(severity: DamageSeverity): string {
+  const definition = SEVERITY_DEFINITIONS.find(d => d.severity === severity);
+  if (!definition) return 'No visible damage - none seen in the assessment photos';
+  return `${definition.label} - ${definition.meaning}`;
+}
 
-    [DamageSeverity.UNKNOWN]: `${clientName} reported damage to their ${homeType} residence at ${address}. Field assessment was attempted but insufficient evidence was available to make a definitive damage classification. The case has been flagged for manual review by a senior assessor. ${clientName} was advised to gather additional documentation including photographs and receipts for any emergency repairs. A follow-up assessment has been scheduled.`,
-  };
+function describeAssistanceOutcome(assistance: AssistanceRecord | undefined): string {
+  if (!assistance) return 'No assistance recorded';
+  const parts = [ASSISTANCE_STATUS_LABELS[assistance.status]];
+  if (assistance.shelterName) parts.push(`at ${assistance.shelterName}`);
+  if (assistance.financialAssistance) parts.push(`financial assistance: ${assistance.financialAssistance}`);
+  return parts.join(' - ');
+}
 
-  return narratives[severity];
+function describePhotoProvenance(report: DamageReport): string {
+  const { location, photoMetadata } = report;
+  const parts = [
+    hasCoordinates(location) ? `Location: ${formatCoordinates(location)}` : 'Location: no coordinates',
+    location.source ? LOCATION_SOURCE_LABELS[location.source] : 'source not recorded',
+  ];
+  if (location.heading !== undefined) parts.push(`facing ${Math.round(location.heading)}°`);
+  if (photoMetadata?.capturedAt) parts.push(`taken ${new Date(photoMetadata.capturedAt).toLocaleString()}`);
+  const camera = [photoMetadata?.cameraMake, photoMetadata?.cameraModel].filter(Boolean).join(' ');
+  if (camera) parts.push(camera);
+  return parts.join(' · ');
 }
 
 function generateCaseworkerNotes(report: DamageReport): string {
-  const severity = report.analysis?.overallSeverity || DamageSeverity.NO_VISIBLE_DAMAGE;
+  const severity = finalSeverity(report) || DamageSeverity.NO_VISIBLE_DAMAGE;
   const detections = report.analysis?.detections || [];
 
   let notes = `Field Assessment Verification:\n`;
   notes += `• Primary damage indicator: ${detections[0]?.object || 'None identified'}\n`;
   notes += `• Debris classification: ${detections[0]?.type || 'N/A'}\n`;
   notes += `• Structural envelope: ${report.analysis?.structuralAssessment || 'Not assessed'}\n`;
-  notes += `• AI confidence level: ${report.analysis?.confidence || 0}%\n\n`;
+  notes += `• AI confidence level: ${report.analysis?.confidence || 0}%\n`;
+  if (report.waterline) {
+    notes += `• Water line: ${describeWaterline(report.waterline)}\n`;
+  }
+  const assistance = report.assistance;
+  if (assistance?.shelterName) {
+    notes += `• Relocated to: ${assistance.shelterName}\n`;
+  }
+  if (assistance?.financialAssistance) {
+    notes += `• Financial assistance: ${assistance.financialAssistance}\n`;
+  }
+  if (assistance?.notes) {
+    notes += `• Assistance notes: ${assistance.notes}\n`;
+  }
+  const needs = (report.clientInfo?.householdMembers || []).filter(m => m.accessNeeds);
+  if (needs.length > 0) {
+    notes += `• Access/functional needs: ${needs.map(m => `${m.name} - ${m.accessNeeds}`).join('; ')}\n`;
+  }
+  notes += `• Supervisor review: ${describeReview(report)}\n\n`;
 
   notes += `Recommendations:\n`;
   (report.analysis?.recommendations || []).forEach((rec, i) => {
@@ -64,11 +84,21 @@ function generateCaseworkerNotes(report: DamageReport): string {
   return notes;
 }
 
-export async function exportCaseReport(report: DamageReport): Promise<void> {
+export async function exportCaseReport(report: DamageReport, incident?: Incident): Promise<void> {
+  // Never produce a case report for a client nobody recorded
+  const blocker = exportBlocker(report);
+  if (blocker || !report.clientInfo) {
+    throw new Error(blocker);
+  }
+  const client = report.clientInfo;
+
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.getWidth();
   const margin = 20;
+  const pageHeight = doc.internal.pageSize.getHeight();
   const contentWidth = pageWidth - (margin * 2);
+  // Content stops above the footer rule drawn on every page
+  const contentBottom = pageHeight - 25;
   let yPos = margin;
 
   // Helper function for text wrapping
@@ -78,6 +108,24 @@ export async function exportCaseReport(report: DamageReport): Promise<void> {
     return y + (lines.length * lineHeight);
   };
 
+  // Start a new page when the next block would run into the footer
+  const ensureSpace = (height: number) => {
+    if (yPos + height > contentBottom) {
+      doc.addPage();
+      yPos = margin;
+    }
+  };
+
+  // Wrapped text at yPos that carries on over as many pages as it needs
+  const addFlowingText = (text: string, lineHeight: number) => {
+    const lines: string[] = doc.splitTextToSize(text, contentWidth);
+    for (const line of lines) {
+      ensureSpace(lineHeight);
+      doc.text(line, margin, yPos);
+      yPos += lineHeight;
+    }
+  };
+
   // ========== HEADER ==========
   // Red banner
   doc.setFillColor(237, 27, 46); // Brand red
@@ -92,6 +140,10 @@ export async function exportCaseReport(report: DamageReport): Promise<void> {
   doc.setFontSize(12);
   doc.setFont('helvetica', 'normal');
   doc.text('Disaster Damage Assessment Report', margin, 24);
+  if (incident) {
+    doc.setFontSize(8);
+    doc.text(describeIncident(incident), margin, 31);
+  }
 
   // Report ID
   doc.setFontSize(9);
@@ -101,7 +153,7 @@ export async function exportCaseReport(report: DamageReport): Promise<void> {
   yPos = 45;
 
   // ========== SEVERITY BADGE ==========
-  const severity = report.analysis?.overallSeverity || DamageSeverity.NO_VISIBLE_DAMAGE;
+  const severity = finalSeverity(report) || DamageSeverity.NO_VISIBLE_DAMAGE;
   const severityColor = SEVERITY_COLORS[severity];
 
   doc.setFillColor(severityColor[0], severityColor[1], severityColor[2]);
@@ -116,11 +168,20 @@ export async function exportCaseReport(report: DamageReport): Promise<void> {
   doc.setFont('helvetica', 'normal');
   doc.text(`Confidence: ${report.analysis?.confidence || 0}%`, margin + 55, yPos + 7);
 
+  // A human override replaces the AI grade above; say so next to it
+  if (report.review) {
+    doc.setFontSize(8);
+    if (report.review.action === 'overridden') doc.setTextColor(180, 83, 9);
+    else doc.setTextColor(21, 128, 61);
+    yPos = addWrappedText(describeReview(report), margin, yPos + 16, contentWidth, 4) - 16;
+    doc.setTextColor(0, 0, 0);
+  }
+
   yPos += 20;
 
   // ========== CLIENT & CASEWORKER INFO ==========
   doc.setFillColor(245, 245, 245);
-  doc.rect(margin, yPos, contentWidth, 30, 'F');
+  doc.rect(margin, yPos, contentWidth, 54, 'F');
 
   doc.setTextColor(0, 0, 0);
   doc.setFontSize(10);
@@ -129,19 +190,24 @@ export async function exportCaseReport(report: DamageReport): Promise<void> {
 
   doc.setFont('helvetica', 'normal');
   doc.setFontSize(9);
-  doc.text(`Name: ${report.clientInfo?.name || 'Not recorded'}`, margin + 5, yPos + 16);
-  doc.text(`Phone: ${report.clientInfo?.phone || 'Not recorded'}`, margin + 5, yPos + 22);
-  doc.text(`Address: ${report.location.address}, ${report.location.city || ''} ${report.location.state || ''} ${report.location.zip || ''}`, margin + 5, yPos + 28);
+  doc.text(`Name: ${client.name}`, margin + 5, yPos + 16);
+  doc.text(`Phone: ${client.phone || 'Not recorded'}`, margin + 5, yPos + 22);
+  doc.text(`Email: ${client.email || 'Not recorded'}`, margin + 5, yPos + 28);
 
   doc.setFont('helvetica', 'bold');
   doc.text('CASEWORKER', margin + contentWidth/2 + 5, yPos + 8);
 
   doc.setFont('helvetica', 'normal');
-  doc.text(`Name: ${report.clientInfo?.caseworker || 'Field Team'}`, margin + contentWidth/2 + 5, yPos + 16);
-  doc.text(`Email: ${report.clientInfo?.caseworkerEmail || 'disaster.services@example.org'}`, margin + contentWidth/2 + 5, yPos + 22);
+  doc.text(`Name: ${client.caseworker || 'Not recorded'}`, margin + contentWidth/2 + 5, yPos + 16);
+  doc.text(`Email: ${client.caseworkerEmail || 'Not recorded'}`, margin + contentWidth/2 + 5, yPos + 22);
   doc.text(`Assessment Date: ${new Date(report.createdAt).toLocaleString()}`, margin + contentWidth/2 + 5, yPos + 28);
 
-  yPos += 38;
+  doc.text(`Address: ${formatAddress(report.location)}`, margin + 5, yPos + 34);
+  doc.text(`Contact: ${describeContactPreferences(client)}`, margin + 5, yPos + 40);
+  doc.text(`Household: ${describeHousehold(client)}`, margin + 5, yPos + 46);
+  doc.text(`Occupancy: ${describeOccupancy(report.occupancy)}`, margin + 5, yPos + 52);
+
+  yPos += 62;
 
   // ========== IMAGE ==========
   if (report.imageData) {
@@ -176,11 +242,20 @@ export async function exportCaseReport(report: DamageReport): Promise<void> {
         imgWidth = maxImgHeight * aspectRatio;
       }
 
-      // Use PNG format for better quality (JPEG can introduce artifacts)
-      doc.addImage(report.imageData, 'PNG', margin, yPos, imgWidth, imgHeight);
-
-      // Summary box next to image (use the larger height for consistent layout)
+      // Use the larger height for consistent layout; keep the photo, box and caption together
       const boxHeight = Math.max(imgHeight, 50);
+      ensureSpace(boxHeight + 12);
+
+      // Detection boxes on the cover photo are drawn in; the legend goes under the photo
+      const boxed = boxesOnPhoto(annotatedDetections(report), 0);
+      if (boxed.length > 0) {
+        doc.addImage(await renderAnnotatedImage(report.imageData, boxed), 'JPEG', margin, yPos, imgWidth, imgHeight);
+      } else {
+        // Use PNG format for better quality (JPEG can introduce artifacts)
+        doc.addImage(report.imageData, 'PNG', margin, yPos, imgWidth, imgHeight);
+      }
+
+      // Summary box next to image
       doc.setFillColor(250, 250, 250);
       doc.rect(margin + imgWidth + 5, yPos, contentWidth - imgWidth - 5, boxHeight, 'F');
 
@@ -195,7 +270,17 @@ export async function exportCaseReport(report: DamageReport): Promise<void> {
       const summaryText = report.analysis?.summary || 'No summary available';
       addWrappedText(summaryText, margin + imgWidth + 10, yPos + 16, contentWidth - imgWidth - 20, 4);
 
-      yPos += boxHeight + 8;
+      // Where and when the photo was taken, so the grade can be traced to the site
+      doc.setFontSize(7);
+      doc.setTextColor(100, 100, 100);
+      doc.text(describePhotoProvenance(report), margin, yPos + boxHeight + 4);
+      if (boxed.length > 0) {
+        const legend = boxed.map(d => `${d.index + 1}. ${d.object} (${d.severity.replace(/_/g, ' ')})`).join(' · ');
+        yPos = addWrappedText(`Marked on photo: ${legend}`, margin, yPos + boxHeight + 8, contentWidth, 3) - boxHeight - 8;
+      }
+      doc.setTextColor(0, 0, 0);
+
+      yPos += boxHeight + 10;
     } catch (e) {
       console.error('Failed to add image to PDF:', e);
       yPos += 10;
@@ -203,6 +288,7 @@ export async function exportCaseReport(report: DamageReport): Promise<void> {
   }
 
   // ========== NARRATIVE ==========
+  ensureSpace(8 + 4 + 5);
   doc.setFillColor(237, 27, 46);
   doc.rect(margin, yPos, contentWidth, 8, 'F');
   doc.setTextColor(255, 255, 255);
@@ -214,13 +300,27 @@ export async function exportCaseReport(report: DamageReport): Promise<void> {
   doc.setTextColor(0, 0, 0);
   doc.setFont('helvetica', 'normal');
   doc.setFontSize(9);
-  const narrative = generateNarrative(report);
-  yPos = addWrappedText(narrative, margin, yPos, contentWidth, 5);
+  const narrative = narrativeForExport(report, incident);
+  addFlowingText(narrative, 5);
+  // Say so when the text is the caseworker-approved AI draft rather than the template
+  const approvedDraft = report.narrative?.text === narrative ? report.narrative : undefined;
+  if (approvedDraft) {
+    doc.setFontSize(7);
+    doc.setTextColor(100, 100, 100);
+    yPos += 1;
+    addFlowingText(describeNarrativeApproval(approvedDraft), 4);
+    doc.setTextColor(0, 0, 0);
+  }
   yPos += 8;
 
   // ========== OUTCOME ==========
+  doc.setFontSize(9);
+  const outcomeLines: string[] = doc.splitTextToSize(describeGradeOutcome(severity), contentWidth - 40);
+  const statusLines: string[] = doc.splitTextToSize(describeAssistanceOutcome(report.assistance), contentWidth - 40);
+  const outcomeHeight = (outcomeLines.length + statusLines.length) * 5 + 5;
+  ensureSpace(outcomeHeight);
   doc.setFillColor(245, 245, 245);
-  doc.rect(margin, yPos, contentWidth, 15, 'F');
+  doc.rect(margin, yPos, contentWidth, outcomeHeight, 'F');
 
   doc.setFont('helvetica', 'bold');
   doc.setFontSize(10);
@@ -228,43 +328,47 @@ export async function exportCaseReport(report: DamageReport): Promise<void> {
 
   doc.setFont('helvetica', 'normal');
   doc.setFontSize(9);
-  doc.text(SEVERITY_OUTCOMES[severity], margin + 35, yPos + 6);
+  doc.text(outcomeLines, margin + 35, yPos + 6);
 
+  const statusY = yPos + 6 + outcomeLines.length * 5;
   doc.setFont('helvetica', 'bold');
-  doc.text('STATUS:', margin + 5, yPos + 12);
+  doc.text('STATUS:', margin + 5, statusY);
   doc.setFont('helvetica', 'normal');
-  doc.text(report.assistance?.status || 'Case Open', margin + 35, yPos + 12);
+  doc.text(statusLines, margin + 35, statusY);
 
-  yPos += 22;
+  yPos += outcomeHeight + 7;
 
   // ========== TECHNICAL DETAILS ==========
-  if (yPos < 200) {
-    doc.setFillColor(237, 27, 46);
-    doc.rect(margin, yPos, contentWidth, 8, 'F');
-    doc.setTextColor(255, 255, 255);
-    doc.setFontSize(10);
-    doc.setFont('helvetica', 'bold');
-    doc.text('CASEWORKER NOTES', margin + 5, yPos + 6);
-    yPos += 12;
+  ensureSpace(8 + 4 + 4);
+  doc.setFillColor(237, 27, 46);
+  doc.rect(margin, yPos, contentWidth, 8, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'bold');
+  doc.text('CASEWORKER NOTES', margin + 5, yPos + 6);
+  yPos += 12;
 
-    doc.setTextColor(0, 0, 0);
-    doc.setFont('helvetica', 'normal');
-    doc.setFontSize(8);
-    const notes = generateCaseworkerNotes(report);
-    yPos = addWrappedText(notes, margin, yPos, contentWidth, 4);
-  }
+  doc.setTextColor(0, 0, 0);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  addFlowingText(generateCaseworkerNotes(report), 4);
 
   // ========== FOOTER ==========
-  const footerY = doc.internal.pageSize.getHeight() - 15;
-  doc.setDrawColor(237, 27, 46);
-  doc.setLineWidth(0.5);
-  doc.line(margin, footerY - 5, pageWidth - margin, footerY - 5);
-
-  doc.setTextColor(100, 100, 100);
-  doc.setFontSize(7);
-  doc.text('Disaster Services | Confidential Client Record', margin, footerY);
-  doc.text(`Generated: ${new Date().toLocaleString()} | RescueLens AI Assessment Tool`, margin, footerY + 4);
-  doc.text(`Page 1 of 1`, pageWidth - margin - 20, footerY);
+  const footerY = pageHeight - 15;
+  const generated = new Date().toLocaleString();
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(237, 27, 46);
+    doc.setLineWidth(0.5);
+    doc.line(margin, footerY - 5, pageWidth - margin, footerY - 5);
+
+    doc.setTextColor(100, 100, 100);
+    doc.setFontSize(7);
+    doc.text('Disaster Services | Confidential Client Record', margin, footerY);
+    doc.text(`Generated: ${generated} | RescueLens AI Assessment Tool`, margin, footerY + 4);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - margin - 20, footerY);
+  }
 
   // Save the PDF with proper filename
   const filename = `ARC_Case_${report.id}_${new Date().toISOString().split('T')[0]}.pdf`;
@@ -280,31 +384,3 @@ export async function exportCaseReport(report: DamageReport): Promise<void> {
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
 }
-
-// Generate a complete case with sample client data
-export function generateSampleClientInfo(): {
-  name: string;
-  phone: string;
-  caseworker: string;
-  caseworkerEmail: string;
-} {
-  const firstNames = ['Sarah', 'Michael', 'Jennifer', 'Robert', 'Maria', 'James', 'Linda', 'William', 'Patricia', 'David'];
-  const lastNames = ['Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez', 'Martinez', 'Anderson'];
-  const caseworkers = [
-    { name: 'Jeff Franzen', email: 'jeff.franzen@example.org' },
-    { name: 'Maria Garcia', email: 'maria.garcia@example.org' },
-    { name: 'Steve Thompson', email: 'steve.thompson@example.org' },
-    { name: 'Diana Chen', email: 'diana.chen@example.org' },
-  ];
-
-  const firstName = firstNames[Math.floor(Math.random() * firstNames.length)];
-  const lastName = lastNames[Math.floor(Math.random() * lastNames.length)];
-  const cw = caseworkers[Math.floor(Math.random() * caseworkers.length)];
-
-  return {
-    name: `${firstName} ${lastName}`,
-    phone: `(${Math.floor(Math.random() * 900) + 100}) ${Math.floor(Math.random() * 900) + 100}-${Math.floor(Math.random() * 9000) + 1000}`,
-    caseworker: cw.name,
-    caseworkerEmail: cw.email,
-  };
-}
@@ -0,0 +1,111 @@
+import { AnalysisProviderId, DamageReport, DamageSeverity, HomeType, IncidentType } from '../../types';
+import { SEVERITY_DEFINITIONS } from '../../data/femaDamageReference';
+import { analyzeProperty } from '../claudeService';
+
+const SEVERITY_RANK = new Map(SEVERITY_DEFINITIONS.map(d => [d.severity, d.rank]));
+
+export interface ComparedGrade {
+  overallSeverity: DamageSeverity;
+  homeType?: HomeType;
+  incidentType?: IncidentType;
+  confidence: number;
+}
+
+export interface ComparisonRow {
+  reportId: string;
+  a?: ComparedGrade;
+  b?: ComparedGrade;
+  error?: string;
+}
+
+export interface PromptComparison {
+  versionA: string;
+  versionB: string;
+  provider: AnalysisProviderId;
+  startedAt: number;
+  finishedAt: number;
+  rows: ComparisonRow[];
+}
+
+export interface ComparisonSummary {
+  compared: number; // Rows graded by both versions
+  severityDiffers: number;
+  higherInB: number;
+  lowerInB: number;
+  homeTypeDiffers: number;
+  incidentTypeDiffers: number;
+  errors: number;
+}
+
+export interface CompareOptions {
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+async function grade(report: DamageReport, providerId: AnalysisProviderId, promptVersion: string): Promise<ComparedGrade> {
+  const photos = report.photos?.length
+    ? report.photos.map(p => ({ imageData: p.imageData, caption: p.caption }))
+    : [{ imageData: report.imageData }];
+  const analysis = await analyzeProperty(photos, providerId, { promptVersion });
+  return {
+    overallSeverity: analysis.overallSeverity,
+    homeType: analysis.homeType,
+    incidentType: analysis.incidentType,
+    confidence: analysis.confidence,
+  };
+}
+
+/**
+ * Grade the same reports with two prompt versions, one report at a time.
+ * Stored analyses are not touched. Both versions go through the response
+ * cache, so a report already graded with a version costs nothing to repeat.
+ */
+export async function comparePromptVersions(
+  reports: DamageReport[],
+  versionA: string,
+  versionB: string,
+  providerId: AnalysisProviderId,
+  options: CompareOptions = {}
+): Promise<PromptComparison> {
+  if (versionA === versionB) {
+    throw new Error('Pick two different prompt versions to compare');
+  }
+
+  const startedAt = Date.now();
+  const rows: ComparisonRow[] = [];
+  for (const report of reports) {
+    if (options.signal?.aborted) {
+      throw new Error('Comparison cancelled');
+    }
+    options.onProgress?.(rows.length, reports.length);
+    try {
+      const a = await grade(report, providerId, versionA);
+      const b = await grade(report, providerId, versionB);
+      rows.push({ reportId: report.id, a, b });
+    } catch (error) {
+      console.error(`Prompt comparison failed for ${report.id}:`, error);
+      rows.push({ reportId: report.id, error: error instanceof Error ? error.message : 'Analysis failed' });
+    }
+  }
+  options.onProgress?.(rows.length, reports.length);
+
+  return { versionA, versionB, provider: providerId, startedAt, finishedAt: Date.now(), rows };
+}
+
+export function severityShift(row: ComparisonRow): number {
+  if (!row.a || !row.b) return 0;
+  return (SEVERITY_RANK.get(row.b.overallSeverity) ?? 0) - (SEVERITY_RANK.get(row.a.overallSeverity) ?? 0);
+}
+
+export function summarizeComparison(comparison: PromptComparison): ComparisonSummary {
+  const graded = comparison.rows.filter(r => r.a && r.b);
+  return {
+    compared: graded.length,
+    severityDiffers: graded.filter(r => r.a!.overallSeverity !== r.b!.overallSeverity).length,
+    higherInB: graded.filter(r => severityShift(r) > 0).length,
+    lowerInB: graded.filter(r => severityShift(r) < 0).length,
+    homeTypeDiffers: graded.filter(r => r.a!.homeType !== r.b!.homeType).length,
+    incidentTypeDiffers: graded.filter(r => r.a!.incidentType !== r.b!.incidentType).length,
+    errors: comparison.rows.length - graded.length,
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Prompt template registry.
+ *
+ * To try a prompt change: add a new template file with a new version, register
+ * it in TEMPLATES below, compare it with the current one (Prompts tab) and run
+ * the evaluation gate before making it DEFAULT_PROMPT_VERSION.
+ */
+
+import { REASON_CODES } from '../../data/femaDamageReference';
+import { renderSchemaForPrompt } from '../analysisSchema';
+import { PromptTemplate, RenderedPrompt } from './types';
+import { PDA_V1 } from './pdaV1';
+import { PDA_V2 } from './pdaV2';
+
+export * from './types';
+
+const TEMPLATES: PromptTemplate[] = [PDA_V1, PDA_V2];
+
+export const DEFAULT_PROMPT_VERSION = PDA_V1.version;
+
+let activePromptVersion = DEFAULT_PROMPT_VERSION;
+
+// FNV-1a; identifies prompt text, not a security hash
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function getPromptTemplates(): PromptTemplate[] {
+  return TEMPLATES;
+}
+
+export function getPromptTemplate(version: string): PromptTemplate {
+  const template = TEMPLATES.find(t => t.version === version);
+  if (!template) {
+    throw new Error(`Unknown prompt version "${version}"`);
+  }
+  return template;
+}
+
+export function setActivePromptVersion(version?: string): void {
+  activePromptVersion = version && TEMPLATES.some(t => t.version === version) ? version : DEFAULT_PROMPT_VERSION;
+}
+
+export function getActivePromptVersion(): string {
+  return activePromptVersion;
+}
+
+/**
+ * The prompts as sent to the model, for the given version or the active one.
+ */
+export function renderPrompt(version: string = activePromptVersion): RenderedPrompt {
+  const template = getPromptTemplate(version);
+  const analysis = template.analysis
+    .replace('{{schema}}', () => renderSchemaForPrompt())
+    .replace('{{reasonCodes}}', () => Object.keys(REASON_CODES).join(', '));
+  return {
+    version: template.version,
+    system: template.system,
+    analysis,
+    fingerprint: hashText(template.system + analysis),
+  };
+}
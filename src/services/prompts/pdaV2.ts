@@ -0,0 +1,28 @@
+import { PromptTemplate } from './types';
+import { PDA_V1 } from './pdaV1';
+
+const EVIDENCE_FIRST = `═══════════════════════════════════════════════════════════════════════════════
+EVIDENCE BEFORE GRADE
+═══════════════════════════════════════════════════════════════════════════════
+
+Before choosing a label, list what is actually visible for each decision step
+(access, home type, incident type, water line, structure) as detections.
+Grade only from that list:
+- A rule whose evidence is not visible cannot trigger, and cannot rule a label out
+- If the step that would decide between two labels has no visible evidence → UNKNOWN + flag for review
+- Never infer a water line height from damage elsewhere in the photo
+
+RESPONSE FORMAT: Valid JSON only.`;
+
+/**
+ * Candidate: the July 2025 rules with an explicit evidence-first step, aimed
+ * at confident grades from photos that do not show the deciding evidence.
+ * Compare against PDA_V1 before making it the default.
+ */
+export const PDA_V2: PromptTemplate = {
+  version: 'pda-2025.07-v2',
+  label: 'PDA Guide July 2025, evidence first',
+  description: 'Same rules; the model lists visible evidence per step before grading',
+  system: PDA_V1.system.replace('RESPONSE FORMAT: Valid JSON only.', EVIDENCE_FIRST),
+  analysis: PDA_V1.analysis,
+};
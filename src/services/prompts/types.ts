@@ -0,0 +1,19 @@
+/**
+ * A versioned pair of analysis prompts. The analysis template may contain
+ * {{schema}} and {{reasonCodes}}, filled in from the runtime schema and the
+ * FEMA reason code vocabulary when the prompt is rendered.
+ */
+export interface PromptTemplate {
+  version: string; // Stored on every DamageAnalysis graded with this template
+  label: string;
+  description: string;
+  system: string;
+  analysis: string;
+}
+
+export interface RenderedPrompt {
+  version: string;
+  system: string;
+  analysis: string;
+  fingerprint: string; // Hash of the rendered text; changes if a template is edited in place
+}
@@ -0,0 +1,91 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { DamageAnalysisProvider, ProviderRequest, ProviderResponse } from './types';
+
+export const DEFAULT_CLAUDE_MODEL = 'claude-opus-4-20250514';
+
+let anthropicClient: Anthropic | null = null;
+let claudeModel = DEFAULT_CLAUDE_MODEL;
+
+// Auto-initialize from environment variable if available
+const envApiKey = import.meta.env.VITE_ANTHROPIC_API_KEY;
+if (envApiKey) {
+  anthropicClient = new Anthropic({ apiKey: envApiKey, dangerouslyAllowBrowser: true });
+}
+
+export function initializeClaude(apiKey: string): void {
+  anthropicClient = new Anthropic({ apiKey, dangerouslyAllowBrowser: true });
+}
+
+export function isClaudeInitialized(): boolean {
+  return anthropicClient !== null;
+}
+
+export function getApiKeyFromEnv(): string | undefined {
+  return import.meta.env.VITE_ANTHROPIC_API_KEY;
+}
+
+export function setClaudeModel(model?: string): void {
+  claudeModel = model?.trim() || DEFAULT_CLAUDE_MODEL;
+}
+
+export const claudeProvider: DamageAnalysisProvider = {
+  id: 'claude',
+  label: 'Claude (Anthropic)',
+  description: 'Anthropic Messages API with vision. Requires an API key and connectivity.',
+  offline: false,
+
+  isReady: isClaudeInitialized,
+
+  cacheScope: () => claudeModel,
+
+  async complete(request: ProviderRequest): Promise<ProviderResponse> {
+    if (!anthropicClient) {
+      throw new Error('Claude API not initialized. Please set your API key in settings.');
+    }
+
+    const response = await anthropicClient.messages.create({
+      model: claudeModel,
+      max_tokens: 2048,
+      system: request.system,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            ...request.images.flatMap((image, index) => [
+              // Label each photo so detections can reference it by index
+              ...(request.images.length > 1 ? [{
+                type: 'text' as const,
+                text: `Photo ${index}${image.caption ? `: ${image.caption}` : ''}`,
+              }] : []),
+              {
+                type: 'image' as const,
+                source: {
+                  type: 'base64' as const,
+                  media_type: image.mediaType,
+                  data: image.data,
+                },
+              },
+            ]),
+            { type: 'text' as const, text: request.prompt },
+          ],
+        },
+        ...(request.followUps || []).map(turn => ({ role: turn.role, content: turn.text })),
+      ],
+    });
+
+    // Extract text content
+    const textContent = response.content.find(block => block.type === 'text');
+    if (!textContent || textContent.type !== 'text') {
+      throw new Error('No text response from Claude');
+    }
+
+    return {
+      text: textContent.text,
+      model: response.model,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    };
+  },
+};
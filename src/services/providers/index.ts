@@ -0,0 +1,38 @@
+/**
+ * Vision provider registry.
+ *
+ * To add a vendor: implement DamageAnalysisProvider, add its id to
+ * AnalysisProviderId in types, and register it in PROVIDERS below.
+ */
+
+import { AnalysisProviderId } from '../../types';
+import { DamageAnalysisProvider } from './types';
+import { claudeProvider } from './claudeProvider';
+import { mockProvider } from './mockProvider';
+
+export * from './types';
+
+const PROVIDERS: Record<AnalysisProviderId, DamageAnalysisProvider> = {
+  claude: claudeProvider,
+  mock: mockProvider,
+};
+
+export const DEFAULT_PROVIDER_ID: AnalysisProviderId = 'claude';
+
+let activeProviderId: AnalysisProviderId = DEFAULT_PROVIDER_ID;
+
+export function getProviders(): DamageAnalysisProvider[] {
+  return Object.values(PROVIDERS);
+}
+
+export function getProvider(id: AnalysisProviderId): DamageAnalysisProvider {
+  return PROVIDERS[id] || PROVIDERS[DEFAULT_PROVIDER_ID];
+}
+
+export function getActiveProvider(): DamageAnalysisProvider {
+  return getProvider(activeProviderId);
+}
+
+export function setActiveProvider(id?: AnalysisProviderId): void {
+  activeProviderId = id && PROVIDERS[id] ? id : DEFAULT_PROVIDER_ID;
+}
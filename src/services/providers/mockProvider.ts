@@ -0,0 +1,183 @@
+import { DamageAnalysisProvider, ProviderRequest, ProviderResponse } from './types';
+
+/**
+ * Offline mock / replay provider for training exercises.
+ *
+ * If a recorded response exists for the exact photo it is replayed verbatim;
+ * otherwise one of the canned responses below is chosen deterministically
+ * from the photo fingerprint, so the same photo always gets the same grade.
+ */
+
+export interface ReplayRecording {
+  fingerprint: string;
+  text: string;
+  model?: string;
+}
+
+const MOCK_MODEL = 'mock-offline-v1';
+
+const CANNED_RESPONSES: object[] = [
+  {
+    overallSeverity: 'MAJOR',
+    incidentType: 'FLOOD',
+    summary: 'MAJOR: Water line above electrical outlets in essential living space (training mock)',
+    structuralAssessment: 'Envelope intact; interior finishes saturated to roughly 24 inches.',
+    debrisAssessment: 'Household debris (drywall, carpet, furniture) piled at curb.',
+    pdaJustification: 'Home Type: CONVENTIONAL. Incident Type: FLOOD. Water Line Check: at or above outlets. Decision Path: waterline_at_or_above_outlets → MAJOR.',
+    homeType: 'CONVENTIONAL',
+    floodEvidence: {
+      waterLineDetected: true,
+      waterLineReference: 'at_or_above_outlets',
+      estimatedHeightInches: 24,
+      contaminationPresent: false,
+      longDurationFlooding: false,
+      basementMechanicalDamage: false,
+    },
+    structuralIndicators: {
+      roofDamage: 'none',
+      wallDamage: 'nonstructural',
+      foundationStatus: 'intact',
+      frameCompromised: false,
+      displacedFromFoundation: false,
+      structuralComponentsFailedCount: 0,
+    },
+    reasonCodes: ['waterline_at_or_above_outlets', 'drywall_or_insulation_damage'],
+    detections: [
+      { object: 'Water line stain', type: 'FLOOD', severity: 'MAJOR', description: 'Mud line above outlet height', confidence: 85, box: { x: 0.05, y: 0.45, width: 0.9, height: 0.12 } },
+      { object: 'Curbside debris pile', type: 'HOUSEHOLD', severity: 'MINOR', description: 'Gutted interior materials', confidence: 80, box: { x: 0.55, y: 0.6, width: 0.4, height: 0.35, polygon: [{ x: 0.58, y: 0.95 }, { x: 0.55, y: 0.78 }, { x: 0.68, y: 0.6 }, { x: 0.9, y: 0.66 }, { x: 0.95, y: 0.95 }] } },
+    ],
+    recommendations: ['Verify water line height on interior walls', 'Refer household for rental assistance'],
+    confidence: 82,
+    accessBlocked: false,
+  },
+  {
+    overallSeverity: 'DESTROYED',
+    incidentType: 'NON_FLOOD',
+    summary: 'DESTROYED: Manufactured home frame twisted off its piers (training mock)',
+    structuralAssessment: 'Chassis twisted, walls racked, roof partially detached.',
+    debrisAssessment: 'Structural debris from the home scattered across the lot.',
+    pdaJustification: 'Home Type: MANUFACTURED. Incident Type: NON-FLOOD. Decision Path: frame_compromised → DESTROYED.',
+    homeType: 'MANUFACTURED',
+    structuralIndicators: {
+      roofDamage: 'structural_ribbing',
+      wallDamage: 'structural',
+      foundationStatus: 'displaced',
+      frameCompromised: true,
+      displacedFromFoundation: true,
+      structuralComponentsFailedCount: 2,
+    },
+    reasonCodes: ['frame_compromised', 'displaced_from_foundation'],
+    detections: [
+      { object: 'Steel chassis', type: 'STRUCTURAL', severity: 'DESTROYED', description: 'Frame visibly twisted', confidence: 88, box: { x: 0.1, y: 0.55, width: 0.8, height: 0.3 } },
+    ],
+    recommendations: ['Confirm occupants are sheltered', 'Flag for total-loss housing assistance'],
+    confidence: 87,
+    accessBlocked: false,
+  },
+  {
+    overallSeverity: 'MINOR',
+    incidentType: 'NON_FLOOD',
+    summary: 'MINOR: Shingles and siding torn off, structure intact (training mock)',
+    structuralAssessment: 'Roof decking visible in one area; framing intact.',
+    debrisAssessment: 'Roof covering and siding debris in yard.',
+    pdaJustification: 'Home Type: CONVENTIONAL. Incident Type: NON-FLOOD. Decision Path: nonstructural_roof_damage → MINOR.',
+    homeType: 'CONVENTIONAL',
+    structuralIndicators: {
+      roofDamage: 'covering_only',
+      wallDamage: 'nonstructural',
+      foundationStatus: 'intact',
+      frameCompromised: false,
+      displacedFromFoundation: false,
+      structuralComponentsFailedCount: 0,
+    },
+    reasonCodes: ['nonstructural_roof_damage'],
+    detections: [
+      { object: 'Roof shingles', type: 'STRUCTURAL', severity: 'MINOR', description: 'Covering loss over living space', confidence: 78, box: { x: 0.2, y: 0.1, width: 0.5, height: 0.25 } },
+    ],
+    recommendations: ['Arrange emergency tarping'],
+    confidence: 76,
+    accessBlocked: false,
+  },
+  {
+    overallSeverity: 'AFFECTED',
+    incidentType: 'NON_FLOOD',
+    summary: 'AFFECTED: Tree down in yard, not touching the residence (training mock)',
+    structuralAssessment: 'Envelope fully intact.',
+    debrisAssessment: 'Vegetative debris in yard and driveway.',
+    pdaJustification: 'Home Type: CONVENTIONAL. Incident Type: NON-FLOOD. Decision Path: cosmetic_only → AFFECTED.',
+    homeType: 'CONVENTIONAL',
+    structuralIndicators: {
+      roofDamage: 'none',
+      wallDamage: 'none',
+      foundationStatus: 'intact',
+      frameCompromised: false,
+      displacedFromFoundation: false,
+      structuralComponentsFailedCount: 0,
+    },
+    reasonCodes: ['cosmetic_only'],
+    detections: [
+      { object: 'Fallen oak', type: 'VEGETATION', severity: 'AFFECTED', description: 'Tree in yard, clear of structure', confidence: 90, box: { x: 0.05, y: 0.35, width: 0.45, height: 0.55 } },
+    ],
+    recommendations: ['Provide clean-up kit'],
+    confidence: 84,
+    accessBlocked: false,
+  },
+];
+
+const recordings = new Map<string, ReplayRecording>();
+
+/**
+ * FNV-1a over the image payloads. Not cryptographic; only used to pick a
+ * stable fixture and to key replay recordings.
+ */
+export function fingerprintImages(images: ProviderRequest['images']): string {
+  let hash = 0x811c9dc5;
+  for (const image of images) {
+    for (let i = 0; i < image.data.length; i++) {
+      hash ^= image.data.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function loadReplayRecordings(records: ReplayRecording[]): number {
+  for (const record of records) {
+    if (record.fingerprint && record.text) recordings.set(record.fingerprint, record);
+  }
+  return recordings.size;
+}
+
+export function clearReplayRecordings(): void {
+  recordings.clear();
+}
+
+export function getReplayRecordingCount(): number {
+  return recordings.size;
+}
+
+export const mockProvider: DamageAnalysisProvider = {
+  id: 'mock',
+  label: 'Offline Mock / Replay',
+  description: 'Replays recorded responses or returns canned training grades. No network or API key needed.',
+  offline: true,
+
+  isReady: () => true,
+
+  async complete(request: ProviderRequest): Promise<ProviderResponse> {
+    const fingerprint = fingerprintImages(request.images);
+    const recording = recordings.get(fingerprint);
+    if (recording) {
+      return { text: recording.text, model: recording.model || `replay:${fingerprint}` };
+    }
+
+    const index = parseInt(fingerprint, 16) % CANNED_RESPONSES.length;
+    const response = CANNED_RESPONSES[index] as { detections: object[] };
+    if (request.images.length > 1) {
+      // Spread detections over the photo set so multi-photo views have something to show
+      const detections = response.detections.map((d, i) => ({ ...d, photoIndex: i % request.images.length }));
+      return { text: JSON.stringify({ ...response, detections }), model: MOCK_MODEL };
+    }
+    return { text: JSON.stringify(response), model: MOCK_MODEL };
+  },
+};
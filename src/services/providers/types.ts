@@ -0,0 +1,45 @@
+import { AnalysisProviderId, TokenUsage } from '../../types';
+
+export type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+export interface ProviderImage {
+  mediaType: ImageMediaType;
+  data: string; // base64 without the data URL prefix
+  caption?: string; // Shown to the model alongside the photo
+}
+
+// A later turn in the same conversation (e.g. a schema repair request)
+export interface ProviderTurn {
+  role: 'assistant' | 'user';
+  text: string;
+}
+
+export interface ProviderRequest {
+  system: string;
+  prompt: string;
+  images: ProviderImage[];
+  followUps?: ProviderTurn[]; // Appended after the initial image + prompt message
+}
+
+export type ProviderUsage = TokenUsage;
+
+export interface ProviderResponse {
+  text: string; // Raw model output, expected to contain the analysis JSON
+  model: string;
+  usage?: ProviderUsage;
+}
+
+/**
+ * A vision model that can grade damage photos.
+ * Providers only transport the prompt and return raw text; parsing,
+ * reason-code normalization and FEMA rule checks happen in claudeService.
+ */
+export interface DamageAnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  description: string;
+  offline: boolean; // Works without network access
+  isReady(): boolean;
+  cacheScope?(): string; // Settings that change answers (e.g. the model); part of the response cache key
+  complete(request: ProviderRequest): Promise<ProviderResponse>;
+}
@@ -0,0 +1,109 @@
+/**
+ * Reason Code Service
+ *
+ * Normalizes model-supplied reason codes against the canonical REASON_CODES
+ * vocabulary. Codes are matched exactly, then through REASON_CODE_ALIASES,
+ * then by edit distance; anything left over is quarantined, never kept.
+ */
+
+import { ReasonCode } from '../types';
+import { REASON_CODES, REASON_CODE_ALIASES } from '../data/femaDamageReference';
+
+export interface NormalizedReasonCodes {
+  codes: ReasonCode[];
+  unrecognized: string[];
+}
+
+const CANONICAL_CODES = Object.keys(REASON_CODES) as ReasonCode[];
+
+// Allow small typos only: one edit for short codes, two for longer ones
+const SHORT_CODE_LENGTH = 15;
+const maxEditDistance = (code: string) => (code.length <= SHORT_CODE_LENGTH ? 1 : 2);
+
+export function isReasonCode(value: string): value is ReasonCode {
+  // Own keys only: "constructor" and friends are not reason codes
+  return Object.hasOwn(REASON_CODES, value);
+}
+
+export function describeReasonCode(code: ReasonCode): string {
+  return REASON_CODES[code];
+}
+
+function normalizeToken(raw: string): string {
+  return raw
+    .trim()
+    .toLowerCase()
+    .replace(/>=/g, '_gte_')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+function editDistance(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j];
+      prev[j] = Math.min(
+        prev[j] + 1,
+        prev[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+  return prev[b.length];
+}
+
+/**
+ * Closest canonical code within its edit allowance; ties are rejected as ambiguous.
+ */
+function fuzzyMatch(token: string): ReasonCode | undefined {
+  let best: ReasonCode | undefined;
+  let bestDistance = Infinity;
+  let tied = false;
+
+  for (const code of CANONICAL_CODES) {
+    const distance = editDistance(token, code);
+    if (distance < bestDistance) {
+      best = code;
+      bestDistance = distance;
+      tied = false;
+    } else if (distance === bestDistance) {
+      tied = true;
+    }
+  }
+
+  return best && bestDistance <= maxEditDistance(best) && !tied ? best : undefined;
+}
+
+export function matchReasonCode(raw: string): ReasonCode | undefined {
+  const token = normalizeToken(raw);
+  if (!token) return undefined;
+  if (isReasonCode(token)) return token;
+  if (REASON_CODE_ALIASES[token]) return REASON_CODE_ALIASES[token];
+  return fuzzyMatch(token);
+}
+
+/**
+ * Map raw model output onto the REASON_CODES vocabulary.
+ * Order is preserved and duplicates are dropped.
+ */
+export function normalizeReasonCodes(raw: unknown): NormalizedReasonCodes {
+  const codes: ReasonCode[] = [];
+  const unrecognized: string[] = [];
+  if (!Array.isArray(raw)) return { codes, unrecognized };
+
+  for (const value of raw) {
+    if (typeof value !== 'string') continue;
+    const code = matchReasonCode(value);
+    if (code) {
+      if (!codes.includes(code)) codes.push(code);
+    } else if (value.trim() && !unrecognized.includes(value.trim())) {
+      unrecognized.push(value.trim());
+    }
+  }
+
+  return { codes, unrecognized };
+}
@@ -0,0 +1,100 @@
+import { ResponseCacheMode } from '../types';
+import { DamageAnalysisProvider, ProviderRequest, ProviderResponse } from './providers/types';
+import {
+  getCachedResponse,
+  putCachedResponses,
+  getAllCachedResponses,
+  countCachedResponses,
+  clearCachedResponses,
+} from './storageService';
+
+/**
+ * Record/replay cache for model responses.
+ *
+ * Validated responses are stored under a SHA-256 hash of everything that
+ * determines the answer: provider, model, prompts and the exact image bytes.
+ * Re-grading an unchanged photo set then costs nothing, and a cache exported
+ * from one machine replays the same grades on another (tests, demos, training
+ * sessions without network or API key).
+ */
+
+export interface CachedResponse {
+  key: string;
+  provider: string;
+  model: string;
+  text: string; // Validated response text, after any schema repairs
+  createdAt: number;
+}
+
+let cacheMode: ResponseCacheMode = 'record';
+
+export function setResponseCacheMode(mode: ResponseCacheMode | undefined): void {
+  cacheMode = mode || 'record';
+}
+
+export function getResponseCacheMode(): ResponseCacheMode {
+  return cacheMode;
+}
+
+/**
+ * Content hash of a request, or undefined where Web Crypto is unavailable
+ * (non-secure origins); caching is then skipped rather than keyed weakly.
+ */
+export async function responseCacheKey(
+  provider: DamageAnalysisProvider,
+  request: Pick<ProviderRequest, 'system' | 'prompt' | 'images'>
+): Promise<string | undefined> {
+  if (!globalThis.crypto?.subtle) return undefined;
+
+  const content = JSON.stringify({
+    provider: provider.id,
+    scope: provider.cacheScope?.() ?? null,
+    system: request.system,
+    prompt: request.prompt,
+    images: request.images.map(image => [image.mediaType, image.caption ?? null, image.data]),
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function lookupResponse(key: string): Promise<CachedResponse | undefined> {
+  try {
+    return await getCachedResponse(key);
+  } catch (error) {
+    console.warn('Response cache lookup failed:', error);
+    return undefined;
+  }
+}
+
+export async function recordResponse(key: string, provider: DamageAnalysisProvider, response: ProviderResponse): Promise<void> {
+  try {
+    await putCachedResponses([{ key, provider: provider.id, model: response.model, text: response.text, createdAt: Date.now() }]);
+  } catch (error) {
+    // A full or unavailable cache must never fail an analysis that succeeded
+    console.warn('Failed to cache response:', error);
+  }
+}
+
+export async function exportResponseCache(): Promise<string> {
+  const entries = await getAllCachedResponses();
+  return JSON.stringify({ version: 1, exportedAt: Date.now(), entries }, null, 2);
+}
+
+/**
+ * Merge an exported cache into this one. Returns the number of entries imported.
+ */
+export async function importResponseCache(text: string): Promise<number> {
+  const data = JSON.parse(text);
+  const entries: unknown[] = Array.isArray(data?.entries) ? data.entries : [];
+  const valid = entries.filter((entry): entry is CachedResponse => {
+    const e = entry as Partial<CachedResponse>;
+    return typeof e?.key === 'string' && typeof e.text === 'string' && typeof e.provider === 'string' && typeof e.model === 'string';
+  });
+  if (valid.length === 0) {
+    throw new Error('No cached responses found in file');
+  }
+  await putCachedResponses(valid.map(e => ({ ...e, createdAt: typeof e.createdAt === 'number' ? e.createdAt : Date.now() })));
+  return valid.length;
+}
+
+export { countCachedResponses, clearCachedResponses };
@@ -0,0 +1,217 @@
+/**
+ * Review Service
+ *
+ * A supervisor either accepts an AI analysis or overrides its severity,
+ * home type or incident type with a reason. The decision is stored beside
+ * the analysis, so both the model's answer and the human call are kept;
+ * everything that shows or exports a grade reads it through these helpers.
+ */
+
+import { DamageAnalysis, DamageReport, DamageSeverity, HomeType, Incident, IncidentType, ReviewDecision } from '../types';
+import { SEVERITY_DEFINITIONS } from '../data/femaDamageReference';
+import { hasBlockingViolations } from './ruleEngine';
+import { analysisWithWaterline } from './waterlineService';
+
+const label = (value: string) => value.replace(/_/g, ' ');
+
+export interface OverrideInput {
+  reviewer: string;
+  reason: string;
+  overallSeverity: DamageSeverity;
+  homeType: HomeType;
+  incidentType: IncidentType;
+}
+
+export function finalSeverity(report: DamageReport): DamageSeverity | undefined {
+  return report.review?.overallSeverity ?? report.analysis?.overallSeverity;
+}
+
+export function finalHomeType(report: DamageReport): HomeType | undefined {
+  return report.review?.homeType ?? report.analysis?.homeType;
+}
+
+export function finalIncidentType(report: DamageReport): IncidentType | undefined {
+  return report.review?.incidentType ?? report.analysis?.incidentType;
+}
+
+function requireReviewer(reviewer: string): string {
+  const name = reviewer.trim();
+  if (!name) {
+    throw new Error('Reviewer name is required');
+  }
+  return name;
+}
+
+export function acceptAnalysis(reviewer: string, now: number = Date.now()): ReviewDecision {
+  return { action: 'accepted', reviewer: requireReviewer(reviewer), reviewedAt: now };
+}
+
+/**
+ * Build an override decision. Only fields that differ from the AI analysis
+ * are recorded; an override that changes nothing is rejected.
+ */
+export function overrideAnalysis(report: DamageReport, input: OverrideInput, now: number = Date.now()): ReviewDecision {
+  const reviewer = requireReviewer(input.reviewer);
+  const reason = input.reason.trim();
+  if (!reason) {
+    throw new Error('A reason is required to override the AI analysis');
+  }
+
+  const analysis = report.analysis;
+  const decision: ReviewDecision = { action: 'overridden', reviewer, reviewedAt: now, reason };
+  if (input.overallSeverity !== analysis?.overallSeverity) decision.overallSeverity = input.overallSeverity;
+  if (input.homeType !== analysis?.homeType) decision.homeType = input.homeType;
+  if (input.incidentType !== analysis?.incidentType) decision.incidentType = input.incidentType;
+
+  if (!decision.overallSeverity && !decision.homeType && !decision.incidentType) {
+    throw new Error('Override does not change the AI analysis; accept it instead');
+  }
+  return decision;
+}
+
+/**
+ * The review that still applies once the analysis is replaced (re-analysis).
+ * A decision was made about a specific grade, so it is dropped when the new
+ * analysis changes the final severity, home type or incident type.
+ */
+export function reviewAfterReanalysis(report: DamageReport, analysis: DamageAnalysis): ReviewDecision | undefined {
+  if (!report.review) return undefined;
+  const updated = { ...report, analysis };
+  const unchanged =
+    finalSeverity(updated) === finalSeverity(report) &&
+    finalHomeType(updated) === finalHomeType(report) &&
+    finalIncidentType(updated) === finalIncidentType(report);
+  return unchanged ? report.review : undefined;
+}
+
+// =============================================================================
+// REVIEW QUEUE
+// =============================================================================
+
+// Reports below this confidence go to a person unless configured otherwise
+export const DEFAULT_REVIEW_CONFIDENCE_THRESHOLD = 70;
+
+export type ReviewFlagId =
+  | 'blocking_violation'
+  | 'rule_disagreement'
+  | 'unknown_grade'
+  | 'inaccessible_grade'
+  | 'detection_exceeds_grade'
+  | 'low_confidence'
+  | 'incident_type_mismatch';
+
+export interface ReviewFlag {
+  id: ReviewFlagId;
+  label: string;
+  detail: string;
+}
+
+export interface ReviewQueueItem {
+  report: DamageReport;
+  flags: ReviewFlag[];
+  priority: number; // Higher is reviewed first
+}
+
+// Weights put hard rule failures ahead of soft signals
+const FLAG_WEIGHTS: Record<ReviewFlagId, number> = {
+  blocking_violation: 50,
+  rule_disagreement: 40,
+  detection_exceeds_grade: 30,
+  unknown_grade: 25,
+  low_confidence: 20,
+  inaccessible_grade: 15,
+  incident_type_mismatch: 10,
+};
+
+const SEVERITY_RANK = new Map(SEVERITY_DEFINITIONS.map(d => [d.severity, d.rank]));
+
+function severityRank(severity: DamageSeverity): number {
+  return SEVERITY_RANK.get(severity) ?? 0;
+}
+
+/**
+ * Why an unreviewed analysis needs a person, strongest reason first. Rule
+ * flags use the measured water line when one was taken on a photo. With the
+ * report's incident, a grade under the other FEMA rule set is flagged too.
+ */
+export function getReviewFlags(report: DamageReport, confidenceThreshold: number, incident?: Incident): ReviewFlag[] {
+  const analysis = analysisWithWaterline(report);
+  if (!analysis || report.review) return [];
+
+  const flags: ReviewFlag[] = [];
+  const grade = analysis.overallSeverity;
+
+  if (hasBlockingViolations(analysis)) {
+    flags.push({ id: 'blocking_violation', label: 'Blocked grade', detail: 'Grade fails a FEMA validation rule' });
+  }
+  if (analysis.ruleEvaluation?.agreement === 'disagree') {
+    flags.push({
+      id: 'rule_disagreement',
+      label: 'Rule disagreement',
+      detail: `Rule engine computed ${label(analysis.ruleEvaluation.computedSeverity)}`,
+    });
+  }
+  const exceeding = analysis.detections.filter(d => severityRank(d.severity) > severityRank(grade));
+  if (exceeding.length > 0 && grade !== DamageSeverity.INACCESSIBLE) {
+    const worst = exceeding.reduce((a, b) => (severityRank(b.severity) > severityRank(a.severity) ? b : a));
+    flags.push({
+      id: 'detection_exceeds_grade',
+      label: 'Detection above grade',
+      detail: `${worst.object} graded ${label(worst.severity)}${exceeding.length > 1 ? ` (+${exceeding.length - 1} more)` : ''}`,
+    });
+  }
+  if (grade === DamageSeverity.UNKNOWN) {
+    flags.push({ id: 'unknown_grade', label: 'Unknown grade', detail: 'Insufficient evidence to grade' });
+  }
+  if (analysis.confidence < confidenceThreshold) {
+    flags.push({ id: 'low_confidence', label: 'Low confidence', detail: `${analysis.confidence}% (threshold ${confidenceThreshold}%)` });
+  }
+  if (grade === DamageSeverity.INACCESSIBLE) {
+    flags.push({ id: 'inaccessible_grade', label: 'Inaccessible', detail: 'Needs a follow-up visit or a decision' });
+  }
+  if (incident && analysis.incidentType !== incident.defaultIncidentType) {
+    flags.push({
+      id: 'incident_type_mismatch',
+      label: 'Rule set differs',
+      detail: `Graded ${label(analysis.incidentType)} in a ${label(incident.defaultIncidentType)} incident`,
+    });
+  }
+
+  return flags;
+}
+
+/**
+ * Unreviewed reports that need a person, highest priority first. Within a
+ * flag set, lower confidence ranks higher; ties go to the oldest report.
+ */
+export function buildReviewQueue(reports: DamageReport[], confidenceThreshold: number, incident?: Incident): ReviewQueueItem[] {
+  return reports
+    .map(report => {
+      const flags = getReviewFlags(report, confidenceThreshold, incident);
+      const weight = flags.reduce((sum, f) => sum + FLAG_WEIGHTS[f.id], 0);
+      return { report, flags, priority: weight + (100 - (report.analysis?.confidence ?? 0)) / 10 };
+    })
+    .filter(item => item.flags.length > 0)
+    .sort((a, b) => b.priority - a.priority || a.report.createdAt - b.report.createdAt);
+}
+
+/**
+ * One-line account of the review for PDFs and exports, e.g.
+ * "Overridden by J. Smith on 3/4/2026: severity MINOR -> MAJOR. Reason: ..."
+ */
+export function describeReview(report: DamageReport): string {
+  const review = report.review;
+  if (!review) return 'Not reviewed - AI analysis only';
+
+  const when = new Date(review.reviewedAt).toLocaleString();
+  if (review.action === 'accepted') {
+    return `AI analysis accepted by ${review.reviewer} on ${when}`;
+  }
+
+  const analysis = report.analysis;
+  const changes: string[] = [];
+  if (review.overallSeverity) changes.push(`severity ${label(analysis?.overallSeverity || 'none')} -> ${label(review.overallSeverity)}`);
+  if (review.homeType) changes.push(`home type ${label(analysis?.homeType || 'none')} -> ${label(review.homeType)}`);
+  if (review.incidentType) changes.push(`incident ${label(analysis?.incidentType || 'none')} -> ${label(review.incidentType)}`);
+  return `Overridden by ${review.reviewer} on ${when}: ${changes.join(', ')}. Reason: ${review.reason}`;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { DamageAnalysis, DamageSeverity, HomeType, IncidentType, StructuralIndicators } from '../types';
+import { evaluateSeverityRules, hasBlockingViolations, validateAnalysis } from './ruleEngine';
+
+const INTACT: StructuralIndicators = {
+  roofDamage: 'none',
+  wallDamage: 'none',
+  foundationStatus: 'intact',
+  frameCompromised: false,
+  displacedFromFoundation: false,
+  structuralComponentsFailedCount: 0,
+};
+
+function analysis(overrides: Partial<DamageAnalysis>): DamageAnalysis {
+  return {
+    overallSeverity: DamageSeverity.MINOR,
+    incidentType: IncidentType.NON_FLOOD,
+    summary: '',
+    structuralAssessment: '',
+    debrisAssessment: '',
+    pdaJustification: '',
+    homeType: HomeType.CONVENTIONAL,
+    detections: [],
+    recommendations: [],
+    reasonCodes: [],
+    confidence: 80,
+    analysisTimestamp: 0,
+    ...overrides,
+  };
+}
+
+describe('validateAnalysis', () => {
+  it('passes a minor grade backed by non-structural damage', () => {
+    const result = validateAnalysis(analysis({
+      structuralIndicators: { ...INTACT, roofDamage: 'covering_only' },
+    }));
+    expect(result).toEqual([]);
+  });
+
+  it('accepts a reason code in place of structured indicators', () => {
+    expect(validateAnalysis(analysis({ reasonCodes: ['nonstructural_roof_damage'] }))).toEqual([]);
+  });
+
+  it('flags a missing trigger as a non-blocking required violation', () => {
+    const result = validateAnalysis(analysis({
+      overallSeverity: DamageSeverity.MAJOR,
+      structuralIndicators: INTACT,
+    }));
+    expect(result).toEqual([
+      expect.objectContaining({ severity: DamageSeverity.MAJOR, conditionId: 'any_major_trigger', kind: 'required', blocking: false }),
+    ]);
+  });
+
+  it('blocks a minor grade when there is structural damage', () => {
+    const graded = analysis({
+      structuralIndicators: { ...INTACT, roofDamage: 'covering_only', wallDamage: 'structural', displacedFromFoundation: true },
+    });
+    const result = validateAnalysis(graded);
+    expect(result.map(v => v.conditionId)).toEqual(['structural_displacement_indicators', 'displaced_from_foundation']);
+    expect(result.every(v => v.kind === 'excluded' && v.blocking)).toBe(true);
+    expect(hasBlockingViolations({ ...graded, validationViolations: result })).toBe(true);
+  });
+
+  it('reads the flood water line for destroyed and major triggers', () => {
+    const flood = (overallSeverity: DamageSeverity, waterLineReference: 'at_or_above_ceiling' | 'at_or_above_outlets') =>
+      analysis({
+        overallSeverity,
+        incidentType: IncidentType.FLOOD,
+        floodEvidence: { waterLineDetected: true, waterLineReference },
+      });
+    expect(validateAnalysis(flood(DamageSeverity.DESTROYED, 'at_or_above_ceiling'))).toEqual([]);
+    expect(validateAnalysis(flood(DamageSeverity.MAJOR, 'at_or_above_outlets'))).toEqual([]);
+    expect(validateAnalysis(flood(DamageSeverity.DESTROYED, 'at_or_above_outlets'))).toHaveLength(1);
+  });
+
+  it('requires blocked access for an inaccessible grade', () => {
+    expect(validateAnalysis(analysis({ overallSeverity: DamageSeverity.INACCESSIBLE }))).toHaveLength(1);
+    expect(validateAnalysis(analysis({ overallSeverity: DamageSeverity.INACCESSIBLE, accessBlocked: true }))).toEqual([]);
+  });
+
+  it('has no rules for grades outside VALIDATION_RULES', () => {
+    expect(validateAnalysis(analysis({ overallSeverity: DamageSeverity.AFFECTED }))).toEqual([]);
+  });
+});
+
+describe('evaluateSeverityRules', () => {
+  it('re-derives a manufactured home with a compromised frame as destroyed', () => {
+    const result = evaluateSeverityRules(analysis({
+      homeType: HomeType.MANUFACTURED,
+      structuralIndicators: { ...INTACT, frameCompromised: true },
+    }));
+    expect(result).toMatchObject({
+      ruleSet: 'MANUFACTURED',
+      computedSeverity: DamageSeverity.DESTROYED,
+      modelSeverity: DamageSeverity.MINOR,
+      firedRule: { trigger: 'frame_compromised', severity: DamageSeverity.DESTROYED },
+      agreement: 'disagree',
+    });
+    expect(result.explanation).toContain('model labeled MINOR');
+  });
+
+  it('escalates a conventional minor flood grade to major on contaminated water', () => {
+    const result = evaluateSeverityRules(analysis({
+      incidentType: IncidentType.FLOOD,
+      floodEvidence: { waterLineDetected: true, waterLineReference: 'below_outlets', contaminationPresent: true },
+    }));
+    expect(result.computedSeverity).toBe(DamageSeverity.MAJOR);
+    expect(result.firedRule?.trigger).toBe('water_contaminated');
+    expect(result.matches.map(m => m.trigger)).toEqual(['waterline_below_outlets', 'water_contaminated']);
+    expect(result.agreement).toBe('disagree');
+  });
+
+  it('agrees with the model when the evidence supports its grade', () => {
+    const result = evaluateSeverityRules(analysis({
+      overallSeverity: DamageSeverity.MAJOR,
+      structuralIndicators: { ...INTACT, wallDamage: 'structural' },
+    }));
+    expect(result).toMatchObject({
+      ruleSet: 'CONVENTIONAL',
+      computedSeverity: DamageSeverity.MAJOR,
+      firedRule: { trigger: 'structural_damage_extensive' },
+      agreement: 'agree',
+    });
+  });
+
+  it('cannot verify a grade given without structured evidence', () => {
+    const result = evaluateSeverityRules(analysis({ reasonCodes: ['nonstructural_roof_damage'] }));
+    expect(result.computedSeverity).toBe(DamageSeverity.UNKNOWN);
+    expect(result.agreement).toBe('unverifiable');
+  });
+});
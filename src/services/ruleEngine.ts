@@ -0,0 +1,261 @@
+/**
+ * FEMA PDA Rule Engine
+ *
+ * Re-derives the damage severity from the structured indicators of a
+ * DamageAnalysis (floodEvidence + structuralIndicators) using the rubric in
+ * femaDamageReference.ts. The model's free text is never consulted, so every
+ * computed grade can be traced back to a single fired rule.
+ */
+
+import {
+  DamageAnalysis,
+  DamageSeverity,
+  HomeType,
+  RuleAgreement,
+  RuleEvaluation,
+  RuleMatch,
+  ValidationViolation,
+} from '../types';
+import {
+  CONVENTIONAL_HOME_RULES,
+  CONVENTIONAL_WATER_LINE_SEVERITY,
+  DECISION_ORDER,
+  MANUFACTURED_HOME_RULES,
+  MANUFACTURED_WATER_LINE_SEVERITY,
+  REASON_CODES,
+  VALIDATION_RULES,
+} from '../data/femaDamageReference';
+
+type RuleSet = RuleEvaluation['ruleSet'];
+
+interface HomeRule {
+  severity: DamageSeverity;
+  triggers: string[];
+}
+
+// Reason code emitted for each water line reference
+const WATER_LINE_TRIGGERS: Record<string, string> = {
+  below_floor_system: 'waterline_below_floor_system',
+  in_floor_system_only: 'waterline_in_floor_system_only',
+  in_living_space_below_ceiling: 'waterline_in_living_space_below_ceiling',
+  unfinished_basement_only: 'waterline_unfinished_basement',
+  below_outlets: 'waterline_below_outlets',
+  at_or_above_outlets: 'waterline_at_or_above_outlets',
+  at_or_above_ceiling: 'waterline_at_or_above_ceiling',
+};
+
+// Severities that cannot be told apart from structured fields alone
+const BELOW_MINOR: DamageSeverity[] = [DamageSeverity.AFFECTED, DamageSeverity.NO_VISIBLE_DAMAGE];
+
+export function getRuleSet(homeType: HomeType): RuleSet {
+  return homeType === HomeType.MANUFACTURED ? 'MANUFACTURED' : 'CONVENTIONAL';
+}
+
+function getHomeRules(ruleSet: RuleSet): HomeRule[] {
+  return ruleSet === 'MANUFACTURED' ? MANUFACTURED_HOME_RULES : CONVENTIONAL_HOME_RULES;
+}
+
+function describeTrigger(trigger: string): string {
+  return REASON_CODES[trigger as keyof typeof REASON_CODES] || trigger;
+}
+
+/**
+ * Find the highest-ranked rule in the home's rule set that lists this trigger.
+ */
+function matchTrigger(trigger: string, rules: HomeRule[]): RuleMatch | undefined {
+  for (const severity of DECISION_ORDER) {
+    const rule = rules.find(r => r.severity === severity);
+    if (rule?.triggers.includes(trigger)) {
+      return { trigger, severity, description: describeTrigger(trigger) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Water line reference → severity via the per-home-type water line maps.
+ * A reference from the other home type's vocabulary is ignored.
+ */
+function matchWaterLine(analysis: DamageAnalysis, ruleSet: RuleSet): RuleMatch | undefined {
+  const reference = analysis.floodEvidence?.waterLineReference;
+  if (!analysis.floodEvidence?.waterLineDetected || !reference) return undefined;
+
+  const severityMap: Record<string, DamageSeverity> = ruleSet === 'MANUFACTURED'
+    ? MANUFACTURED_WATER_LINE_SEVERITY
+    : CONVENTIONAL_WATER_LINE_SEVERITY;
+  const severity = severityMap[reference];
+  if (!severity) return undefined;
+
+  const trigger = WATER_LINE_TRIGGERS[reference];
+  return { trigger, severity, description: describeTrigger(trigger) };
+}
+
+/**
+ * Translate structural indicators into the trigger codes used by each rule set.
+ */
+function collectStructuralTriggers(analysis: DamageAnalysis, ruleSet: RuleSet): string[] {
+  const s = analysis.structuralIndicators;
+  if (!s) return [];
+
+  const triggers: string[] = [];
+  const displaced = s.displacedFromFoundation || s.foundationStatus === 'displaced';
+
+  if (ruleSet === 'MANUFACTURED') {
+    if (s.frameCompromised) triggers.push('frame_compromised');
+    if (s.roofDamage === 'collapsed' || s.wallDamage === 'collapsed') triggers.push('structural_framing_compromised');
+    if (displaced || s.foundationStatus === 'failed') triggers.push('displaced_from_foundation');
+    if (s.roofDamage === 'structural_ribbing') triggers.push('roof_substantially_damaged');
+    if (s.roofDamage === 'covering_only' || s.wallDamage === 'nonstructural') triggers.push('nonstructural_damage_some');
+    return triggers;
+  }
+
+  // Conventional / multi-family: count failed components ourselves as well
+  const derivedFailures = [
+    s.roofDamage === 'collapsed',
+    s.wallDamage === 'collapsed',
+    s.foundationStatus === 'failed',
+  ].filter(Boolean).length;
+  if (Math.max(s.structuralComponentsFailedCount || 0, derivedFailures) >= 2) {
+    triggers.push('structural_components_failed_count_gte_2');
+  }
+  if (
+    derivedFailures > 0 ||
+    displaced ||
+    s.frameCompromised ||
+    s.roofDamage === 'structural_ribbing' ||
+    s.wallDamage === 'structural'
+  ) {
+    triggers.push('structural_damage_extensive');
+  }
+  if (s.roofDamage === 'covering_only') triggers.push('nonstructural_roof_damage');
+  if (s.wallDamage === 'nonstructural') triggers.push('drywall_or_insulation_damage');
+  if (s.foundationStatus === 'cracked') triggers.push('foundation_cracks_small_multiple');
+  return triggers;
+}
+
+/**
+ * Conventional homes escalate MINOR → MAJOR on contamination, long duration
+ * flooding, or basement mechanical damage.
+ */
+function collectEscalationTriggers(analysis: DamageAnalysis, ruleSet: RuleSet): string[] {
+  const f = analysis.floodEvidence;
+  if (ruleSet !== 'CONVENTIONAL' || !f) return [];
+
+  const triggers: string[] = [];
+  if (f.longDurationFlooding) triggers.push('flood_duration_long');
+  if (f.contaminationPresent) triggers.push('water_contaminated');
+  if (f.basementMechanicalDamage) triggers.push('basement_mechanical_damage');
+  return triggers;
+}
+
+function pickByDecisionOrder(matches: RuleMatch[]): RuleMatch | undefined {
+  for (const severity of DECISION_ORDER) {
+    const match = matches.find(m => m.severity === severity);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+function compareWithModel(computed: DamageSeverity, model: DamageSeverity, hasEvidence: boolean): RuleAgreement {
+  if (!hasEvidence) return 'unverifiable';
+  if (computed === model) return 'agree';
+  if (BELOW_MINOR.includes(computed) && BELOW_MINOR.includes(model)) return 'agree';
+  return 'disagree';
+}
+
+/**
+ * Compute the FEMA PDA severity from structured indicators only.
+ * Applies DECISION_ORDER (highest severity first) and reports the fired rule.
+ */
+export function evaluateSeverityRules(analysis: DamageAnalysis): RuleEvaluation {
+  const ruleSet = getRuleSet(analysis.homeType);
+  const rules = getHomeRules(ruleSet);
+  const modelSeverity = analysis.overallSeverity;
+  const hasEvidence = Boolean(analysis.floodEvidence || analysis.structuralIndicators || analysis.accessBlocked);
+
+  const matches: RuleMatch[] = [];
+  const addTrigger = (trigger: string) => {
+    const match = matchTrigger(trigger, rules);
+    if (match && !matches.some(m => m.trigger === trigger)) matches.push(match);
+  };
+
+  if (analysis.accessBlocked) addTrigger('access_blocked');
+  const waterLine = matchWaterLine(analysis, ruleSet);
+  if (waterLine) matches.push(waterLine);
+  collectStructuralTriggers(analysis, ruleSet).forEach(addTrigger);
+
+  let fired = pickByDecisionOrder(matches);
+
+  if (fired?.severity === DamageSeverity.MINOR) {
+    collectEscalationTriggers(analysis, ruleSet).forEach(addTrigger);
+    fired = pickByDecisionOrder(matches);
+  }
+
+  let computedSeverity: DamageSeverity;
+  let explanation: string;
+  if (fired) {
+    computedSeverity = fired.severity;
+    explanation = `${ruleSet} rules: ${fired.trigger} → ${fired.severity}`;
+  } else if (hasEvidence) {
+    computedSeverity = DamageSeverity.NO_VISIBLE_DAMAGE;
+    explanation = `${ruleSet} rules: no MINOR or higher trigger in structured indicators`;
+  } else {
+    computedSeverity = DamageSeverity.UNKNOWN;
+    explanation = 'No structured indicators returned; severity cannot be re-derived';
+  }
+
+  const agreement = compareWithModel(computedSeverity, modelSeverity, hasEvidence);
+  if (agreement === 'disagree') {
+    explanation += ` (model labeled ${modelSeverity})`;
+  }
+
+  return {
+    computedSeverity,
+    firedRule: fired,
+    matches,
+    ruleSet,
+    modelSeverity,
+    agreement,
+    explanation,
+  };
+}
+
+/**
+ * Run VALIDATION_RULES for the analysis' assigned severity.
+ * Missing required conditions are flagged; present excluded conditions block the grade.
+ */
+export function validateAnalysis(analysis: DamageAnalysis): ValidationViolation[] {
+  const severity = analysis.overallSeverity;
+  const violations: ValidationViolation[] = [];
+
+  for (const rule of VALIDATION_RULES.filter(r => r.severity === severity)) {
+    for (const condition of rule.requiredConditions) {
+      if (!condition.test(analysis)) {
+        violations.push({
+          severity,
+          conditionId: condition.id,
+          kind: 'required',
+          description: `${severity} requires: ${condition.description}`,
+          blocking: false,
+        });
+      }
+    }
+    for (const condition of rule.excludedConditions) {
+      if (condition.test(analysis)) {
+        violations.push({
+          severity,
+          conditionId: condition.id,
+          kind: 'excluded',
+          description: `${severity} excludes: ${condition.description}`,
+          blocking: true,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+export function hasBlockingViolations(analysis?: DamageAnalysis): boolean {
+  return Boolean(analysis?.validationViolations?.some(v => v.blocking));
+}
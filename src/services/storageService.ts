@@ -1,8 +1,15 @@
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { DamageReport, AppSettings } from '../types';
+import { openDB, DBSchema, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import { DamageReport, AppSettings, QueuedPhoto, ReportChange, ReportChangeAction, ChangeContext, Incident, IncidentType } from '../types';
+import { normalizeReasonCodes } from './reasonCodeService';
+import { diffReports, reportAtVersion } from './auditService';
+import { mergeReportRecords } from './duplicateService';
+import { GeoDataset } from './geocoding/types';
+import { EvaluationRun } from './evaluation/types';
+import { CachedResponse } from './responseCache';
+import { LEGACY_INCIDENT_ID } from './incidentService';
 
 const DB_NAME = 'RescueLensDB';
-const DB_VERSION = 1;
+const DB_VERSION = 8;
 
 interface RescueLensDB extends DBSchema {
   reports: {
@@ -18,6 +25,33 @@ interface RescueLensDB extends DBSchema {
     key: string;
     value: AppSettings;
   };
+  geodata: {
+    key: string;
+    value: GeoDataset;
+  };
+  queue: {
+    key: string;
+    value: QueuedPhoto;
+  };
+  changes: {
+    key: string;
+    value: ReportChange;
+    indexes: {
+      'by-report': string;
+    };
+  };
+  evaluations: {
+    key: string;
+    value: EvaluationRun;
+  };
+  responses: {
+    key: string;
+    value: CachedResponse;
+  };
+  incidents: {
+    key: string;
+    value: Incident;
+  };
 }
 
 let dbInstance: IDBPDatabase<RescueLensDB> | null = null;
@@ -26,7 +60,7 @@ async function getDB(): Promise<IDBPDatabase<RescueLensDB>> {
   if (dbInstance) return dbInstance;
 
   dbInstance = await openDB<RescueLensDB>(DB_NAME, DB_VERSION, {
-    upgrade(db) {
+    async upgrade(db, oldVersion, _newVersion, transaction) {
       // Reports store
       if (!db.objectStoreNames.contains('reports')) {
         const reportStore = db.createObjectStore('reports', { keyPath: 'id' });
@@ -38,15 +72,122 @@ async function getDB(): Promise<IDBPDatabase<RescueLensDB>> {
       if (!db.objectStoreNames.contains('settings')) {
         db.createObjectStore('settings', { keyPath: 'id' });
       }
+      // Reason codes stored before they were normalized (v2)
+      if (oldVersion > 0 && oldVersion < 2) {
+        await normalizeStoredReasonCodes(transaction);
+      }
+      // Local reverse-geocoding dataset (v3)
+      if (!db.objectStoreNames.contains('geodata')) {
+        db.createObjectStore('geodata');
+      }
+      // Persistent analysis queue (v4)
+      if (!db.objectStoreNames.contains('queue')) {
+        db.createObjectStore('queue', { keyPath: 'id' });
+      }
+      // Append-only report audit trail (v5)
+      if (!db.objectStoreNames.contains('changes')) {
+        const changeStore = db.createObjectStore('changes', { keyPath: 'id' });
+        changeStore.createIndex('by-report', 'reportId');
+      }
+      // Ground-truth evaluation runs (v6)
+      if (!db.objectStoreNames.contains('evaluations')) {
+        db.createObjectStore('evaluations', { keyPath: 'id' });
+      }
+      // Model response cache, keyed by request content hash (v7)
+      if (!db.objectStoreNames.contains('responses')) {
+        db.createObjectStore('responses', { keyPath: 'key' });
+      }
+      // Disaster incidents that scope reports (v8)
+      if (!db.objectStoreNames.contains('incidents')) {
+        db.createObjectStore('incidents', { keyPath: 'id' });
+        if (oldVersion > 0) await linkLegacyReports(transaction);
+      }
     },
   });
 
   return dbInstance;
 }
 
+/**
+ * Reports saved before reason codes were normalized may hold free-form codes
+ * the rest of the app can't describe. Map them the same way imports are.
+ */
+async function normalizeStoredReasonCodes(
+  tx: IDBPTransaction<RescueLensDB, StoreNames<RescueLensDB>[], 'versionchange'>
+): Promise<void> {
+  const reports = tx.objectStore('reports');
+  for (const report of await reports.getAll()) {
+    await reports.put(withCanonicalReasonCodes(report));
+  }
+}
+
+/**
+ * Reports stored before incidents existed are filed under one placeholder
+ * incident, which can be renamed once the declaration is known. The link
+ * is written to each report's audit trail.
+ */
+async function linkLegacyReports(
+  tx: IDBPTransaction<RescueLensDB, StoreNames<RescueLensDB>[], 'versionchange'>
+): Promise<void> {
+  const reports = await tx.objectStore('reports').getAll();
+  if (reports.length === 0) return;
+
+  const now = Date.now();
+  await tx.objectStore('incidents').put({
+    id: LEGACY_INCIDENT_ID,
+    name: 'Reports before incident tracking',
+    eventType: 'OTHER',
+    counties: [],
+    defaultIncidentType: IncidentType.NON_FLOOD,
+    createdAt: now,
+  });
+
+  const changes = tx.objectStore('changes');
+  for (const report of reports) {
+    await tx.objectStore('reports').put({ ...report, incidentId: LEGACY_INCIDENT_ID });
+    const version = (await changes.index('by-report').count(report.id)) + 1;
+    await changes.add({
+      id: `CHG_${report.id}_${version}`,
+      reportId: report.id,
+      version,
+      action: 'updated',
+      author: 'System',
+      at: now,
+      reason: 'Linked to incident during database upgrade',
+      changes: [{ path: 'incidentId', after: LEGACY_INCIDENT_ID }],
+    });
+  }
+}
+
 // ============ REPORTS CRUD ============
+// Every write to a report appends to the 'changes' store in the same transaction
+
+type ReportTx = ReturnType<typeof reportTransaction>;
+
+function reportTransaction(db: IDBPDatabase<RescueLensDB>) {
+  return db.transaction(['reports', 'changes'], 'readwrite');
+}
+
+async function resolveAuthor(context?: ChangeContext): Promise<string> {
+  if (context?.author?.trim()) return context.author.trim();
+  const settings = await getSettings();
+  return settings.defaultCaseworker?.trim() || 'Unattributed';
+}
+
+async function appendChange(
+  tx: ReportTx,
+  reportId: string,
+  action: ReportChangeAction,
+  author: string,
+  entry: Pick<ReportChange, 'changes' | 'reason' | 'snapshot'>
+): Promise<void> {
+  const store = tx.objectStore('changes');
+  const version = (await store.index('by-report').count(reportId)) + 1;
+  await store.add({ id: `CHG_${reportId}_${version}`, reportId, version, action, author, at: Date.now(), ...entry });
+}
 
-export async function createReport(report: DamageReport): Promise<DamageReport> {
+export async function createReport(report: DamageReport, context?: ChangeContext): Promise<DamageReport> {
+  const author = await resolveAuthor(context);
   const db = await getDB();
   const now = Date.now();
   const newReport: DamageReport = {
@@ -55,7 +196,10 @@ export async function createReport(report: DamageReport): Promise<DamageReport>
     createdAt: now,
     updatedAt: now,
   };
-  await db.put('reports', newReport);
+  const tx = reportTransaction(db);
+  await tx.objectStore('reports').put(newReport);
+  await appendChange(tx, newReport.id, 'created', author, { changes: [], reason: context?.reason });
+  await tx.done;
   return newReport;
 }
 
@@ -70,9 +214,16 @@ export async function getAllReports(): Promise<DamageReport[]> {
   return reports.reverse(); // Most recent first
 }
 
-export async function updateReport(id: string, updates: Partial<DamageReport>): Promise<DamageReport | null> {
+export async function updateReport(
+  id: string,
+  updates: Partial<DamageReport>,
+  context?: ChangeContext,
+  action: ReportChangeAction = 'updated'
+): Promise<DamageReport | null> {
+  const author = await resolveAuthor(context);
   const db = await getDB();
-  const existing = await db.get('reports', id);
+  const tx = reportTransaction(db);
+  const existing = await tx.objectStore('reports').get(id);
   if (!existing) return null;
 
   const updated: DamageReport = {
@@ -82,18 +233,89 @@ export async function updateReport(id: string, updates: Partial<DamageReport>):
     createdAt: existing.createdAt, // Preserve original creation time
     updatedAt: Date.now(),
   };
-  await db.put('reports', updated);
+  const changes = diffReports(existing, updated);
+  if (changes.length === 0) return existing;
+
+  await tx.objectStore('reports').put(updated);
+  await appendChange(tx, id, action, author, { changes, reason: context?.reason });
+  await tx.done;
   return updated;
 }
 
-export async function deleteReport(id: string): Promise<boolean> {
+export async function deleteReport(id: string, context?: ChangeContext): Promise<boolean> {
+  const author = await resolveAuthor(context);
   const db = await getDB();
-  const existing = await db.get('reports', id);
+  const tx = reportTransaction(db);
+  const existing = await tx.objectStore('reports').get(id);
   if (!existing) return false;
-  await db.delete('reports', id);
+  await tx.objectStore('reports').delete(id);
+  // The deleted record is kept in the log so the case file survives
+  await appendChange(tx, id, 'deleted', author, { changes: [], reason: context?.reason, snapshot: existing });
+  await tx.done;
   return true;
 }
 
+/**
+ * Merge duplicate reports of one property into `primaryId` in a single
+ * transaction. The duplicates are deleted; their full records stay in
+ * their own logs and their analyses on the surviving report.
+ */
+export async function mergeReports(primaryId: string, duplicateIds: string[], context?: ChangeContext): Promise<DamageReport> {
+  const author = await resolveAuthor(context);
+  const db = await getDB();
+  const tx = reportTransaction(db);
+  const store = tx.objectStore('reports');
+  const primary = await store.get(primaryId);
+  const duplicates = await Promise.all(duplicateIds.filter(id => id !== primaryId).map(id => store.get(id)));
+  if (!primary || duplicates.some(r => !r)) {
+    throw new Error('A report in this merge no longer exists');
+  }
+  if (duplicates.length === 0) {
+    throw new Error('Select at least one duplicate to merge');
+  }
+
+  const merged = { ...mergeReportRecords(primary, duplicates as DamageReport[]), updatedAt: Date.now() };
+  const note = context?.reason ? `: ${context.reason}` : '';
+  await store.put(merged);
+  await appendChange(tx, primaryId, 'merged', author, {
+    changes: diffReports(primary, merged),
+    reason: `Merged ${duplicates.map(r => r!.id).join(', ')}${note}`,
+  });
+  for (const duplicate of duplicates as DamageReport[]) {
+    await store.delete(duplicate.id);
+    await appendChange(tx, duplicate.id, 'deleted', author, { changes: [], reason: `Merged into ${primaryId}${note}`, snapshot: duplicate });
+  }
+  await tx.done;
+  return merged;
+}
+
+// ============ AUDIT TRAIL ============
+
+export async function getReportChanges(reportId: string): Promise<ReportChange[]> {
+  const db = await getDB();
+  const changes = await db.getAllFromIndex('changes', 'by-report', reportId);
+  return changes.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Put a report back to how it was right after `version`. The restore is
+ * itself a logged change, so nothing in the history is lost.
+ */
+export async function restoreReportVersion(id: string, version: number, context?: ChangeContext): Promise<DamageReport | null> {
+  const current = await getReport(id);
+  if (!current) return null;
+  const log = await getReportChanges(id);
+  if (!log.some(c => c.version === version)) {
+    throw new Error(`Version ${version} not found for report ${id}`);
+  }
+
+  const target = reportAtVersion(current, log, version);
+  const reason = `Restored version ${version}${context?.reason ? `: ${context.reason}` : ''}`;
+  // Fields absent from the target are removed explicitly; the update spreads over the current record
+  const removed = Object.fromEntries(Object.keys(current).filter(k => !(k in target)).map(k => [k, undefined]));
+  return updateReport(id, { ...removed, ...target }, { ...context, reason }, 'restored');
+}
+
 export async function getReportsByStatus(status: DamageReport['status']): Promise<DamageReport[]> {
   const db = await getDB();
   return db.getAllFromIndex('reports', 'by-status', status);
@@ -122,26 +344,152 @@ export async function saveSettings(settings: AppSettings): Promise<void> {
   await db.put('settings', { ...settings, id: SETTINGS_KEY } as any);
 }
 
+// ============ ANALYSIS QUEUE ============
+
+export async function getQueueItems(): Promise<QueuedPhoto[]> {
+  const db = await getDB();
+  const items = await db.getAll('queue');
+  return items.sort((a, b) => a.position - b.position);
+}
+
+export async function saveQueueItems(items: QueuedPhoto[]): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction('queue', 'readwrite');
+  await Promise.all([...items.map(item => tx.store.put(item)), tx.done]);
+}
+
+export async function deleteQueueItems(ids: string[]): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction('queue', 'readwrite');
+  await Promise.all([...ids.map(id => tx.store.delete(id)), tx.done]);
+}
+
+// ============ EVALUATION RUNS ============
+
+export async function getEvaluationRuns(): Promise<EvaluationRun[]> {
+  const db = await getDB();
+  const runs = await db.getAll('evaluations');
+  return runs.sort((a, b) => b.startedAt - a.startedAt); // Most recent first
+}
+
+export async function saveEvaluationRun(run: EvaluationRun): Promise<void> {
+  const db = await getDB();
+  await db.put('evaluations', run);
+}
+
+export async function deleteEvaluationRun(id: string): Promise<void> {
+  const db = await getDB();
+  await db.delete('evaluations', id);
+}
+
+// ============ RESPONSE CACHE ============
+
+export async function getCachedResponse(key: string): Promise<CachedResponse | undefined> {
+  const db = await getDB();
+  return db.get('responses', key);
+}
+
+export async function putCachedResponses(entries: CachedResponse[]): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction('responses', 'readwrite');
+  await Promise.all([...entries.map(entry => tx.store.put(entry)), tx.done]);
+}
+
+export async function getAllCachedResponses(): Promise<CachedResponse[]> {
+  const db = await getDB();
+  return db.getAll('responses');
+}
+
+export async function countCachedResponses(): Promise<number> {
+  const db = await getDB();
+  return db.count('responses');
+}
+
+export async function clearCachedResponses(): Promise<void> {
+  const db = await getDB();
+  await db.clear('responses');
+}
+
+// ============ INCIDENTS ============
+
+export async function getAllIncidents(): Promise<Incident[]> {
+  const db = await getDB();
+  const incidents = await db.getAll('incidents');
+  return incidents.sort((a, b) => b.createdAt - a.createdAt); // Most recent first
+}
+
+export async function saveIncident(incident: Incident): Promise<void> {
+  const db = await getDB();
+  await db.put('incidents', incident);
+}
+
+/**
+ * Delete an incident that has no reports. Reports are never orphaned.
+ */
+export async function deleteIncident(id: string): Promise<void> {
+  const db = await getDB();
+  // Check before opening a write transaction so a refusal leaves nothing to abort
+  const linked = (await db.getAll('reports')).filter(r => r.incidentId === id).length;
+  if (linked > 0) {
+    throw new Error(`Incident has ${linked} report${linked === 1 ? '' : 's'}; it cannot be deleted`);
+  }
+  await db.delete('incidents', id);
+}
+
+// ============ GEOCODING DATASET ============
+
+// A single active dataset for the disaster area
+const GEODATA_KEY = 'active';
+
+export async function getGeoDataset(): Promise<GeoDataset | undefined> {
+  const db = await getDB();
+  return db.get('geodata', GEODATA_KEY);
+}
+
+export async function saveGeoDataset(dataset: GeoDataset): Promise<void> {
+  const db = await getDB();
+  await db.put('geodata', dataset, GEODATA_KEY);
+}
+
+export async function clearGeoDataset(): Promise<void> {
+  const db = await getDB();
+  await db.delete('geodata', GEODATA_KEY);
+}
+
 // ============ EXPORT/IMPORT ============
 
-export async function exportAllData(): Promise<{ reports: DamageReport[]; settings: AppSettings }> {
+export async function exportAllData(): Promise<{ reports: DamageReport[]; incidents: Incident[]; settings: AppSettings }> {
   const reports = await getAllReports();
+  const incidents = await getAllIncidents();
   const settings = await getSettings();
-  return { reports, settings };
+  return { reports, incidents, settings };
 }
 
-export async function importData(data: { reports?: DamageReport[]; settings?: AppSettings }): Promise<number> {
+export async function importData(data: { reports?: DamageReport[]; incidents?: Incident[]; settings?: AppSettings }): Promise<number> {
+  const author = await resolveAuthor();
   const db = await getDB();
   let imported = 0;
 
+  if (data.incidents) {
+    const known = new Set(await db.getAllKeys('incidents'));
+    for (const incident of data.incidents.filter(i => !known.has(i.id))) {
+      await saveIncident(incident);
+    }
+  }
+
   if (data.reports) {
+    // Exports from before incidents existed are filed under the active incident
+    const activeIncidentId = (await getSettings()).activeIncidentId;
     for (const report of data.reports) {
       // Check if report already exists
-      const existing = await db.get('reports', report.id);
+      const tx = reportTransaction(db);
+      const existing = await tx.objectStore('reports').get(report.id);
       if (!existing) {
-        await db.put('reports', report);
+        await tx.objectStore('reports').put(withCanonicalReasonCodes({ ...report, incidentId: report.incidentId || activeIncidentId }));
+        await appendChange(tx, report.id, 'imported', author, { changes: [] });
         imported++;
       }
+      await tx.done;
     }
   }
 
@@ -152,7 +500,29 @@ export async function importData(data: { reports?: DamageReport[]; settings?: Ap
   return imported;
 }
 
-export async function clearAllReports(): Promise<void> {
+// Older exports and stored reports may carry free-form reason codes; map them onto REASON_CODES
+function withCanonicalReasonCodes(report: DamageReport): DamageReport {
+  if (!report.analysis) return report;
+  const { codes, unrecognized } = normalizeReasonCodes(report.analysis.reasonCodes);
+  const quarantined = [...(report.analysis.unrecognizedReasonCodes || []), ...unrecognized];
+  return {
+    ...report,
+    analysis: {
+      ...report.analysis,
+      reasonCodes: codes,
+      unrecognizedReasonCodes: quarantined.length > 0 ? quarantined : undefined,
+    },
+  };
+}
+
+export async function clearAllReports(context?: ChangeContext): Promise<void> {
+  const author = await resolveAuthor(context);
   const db = await getDB();
-  await db.clear('reports');
+  const tx = reportTransaction(db);
+  const reports = await tx.objectStore('reports').getAll();
+  for (const report of reports) {
+    await appendChange(tx, report.id, 'deleted', author, { changes: [], reason: context?.reason, snapshot: report });
+  }
+  await tx.objectStore('reports').clear();
+  await tx.done;
 }
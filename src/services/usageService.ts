@@ -0,0 +1,44 @@
+import { TokenUsage } from '../types';
+
+/**
+ * Token cost estimates for batch accounting.
+ *
+ * Prices are USD per million tokens from the public Anthropic price list.
+ * They are estimates for budgeting a deployment, not billing records.
+ */
+
+interface ModelPricing {
+  match: RegExp;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+const MODEL_PRICING: ModelPricing[] = [
+  { match: /opus/i, inputPerMillion: 15, outputPerMillion: 75 },
+  { match: /sonnet/i, inputPerMillion: 3, outputPerMillion: 15 },
+  { match: /haiku-4/i, inputPerMillion: 1, outputPerMillion: 5 },
+  { match: /haiku/i, inputPerMillion: 0.8, outputPerMillion: 4 },
+  // Offline mock and replayed recordings cost nothing
+  { match: /^(mock|replay)/i, inputPerMillion: 0, outputPerMillion: 0 },
+];
+
+/**
+ * Estimated cost of a request, or undefined for a model we have no price for.
+ */
+export function estimateCostUsd(model: string | undefined, usage: TokenUsage | undefined): number | undefined {
+  if (!model) return undefined;
+  const pricing = MODEL_PRICING.find(p => p.match.test(model));
+  if (!pricing) return undefined;
+  if (!usage) return 0;
+  return (usage.inputTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) / 1_000_000;
+}
+
+export function formatUsd(amount: number): string {
+  return amount < 0.01 && amount > 0 ? '<$0.01' : `$${amount.toFixed(2)}`;
+}
+
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
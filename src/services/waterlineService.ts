@@ -0,0 +1,156 @@
+/**
+ * Waterline Service
+ *
+ * Turns three marks an assessor places on a photo (the floor, the top of
+ * an object of known height and the water line) into a water line height
+ * and the FEMA water level for the home type. The measurement replaces the
+ * model's estimated floodEvidence when the severity rules are run, so the
+ * rule check follows what was measured rather than what was guessed.
+ */
+
+import {
+  ConventionalWaterLevel,
+  DamageAnalysis,
+  DamageReport,
+  HomeType,
+  ManufacturedWaterLevel,
+  WaterlineMeasurement,
+  WaterlineReferenceObject,
+} from '../types';
+import { WATER_LINE_HEIGHT_REFERENCES } from '../data/femaDamageReference';
+import { evaluateSeverityRules, getRuleSet, validateAnalysis } from './ruleEngine';
+
+export type WaterLevel = ManufacturedWaterLevel | ConventionalWaterLevel;
+
+export interface WaterlineMarks {
+  floorY: number;
+  referenceY: number;
+  waterlineY: number;
+}
+
+export interface WaterlineInput extends WaterlineMarks {
+  photoIndex: number;
+  referenceObject: WaterlineReferenceObject;
+  referenceHeightInches: number;
+  ceilingHeightInches: number;
+  measuredBy: string;
+}
+
+export const REFERENCE_OBJECT_LABELS: Record<WaterlineReferenceObject, string> = {
+  electricalOutlets: 'Electrical outlet (top)',
+  doorHandle: 'Door handle',
+  windowSill: 'Window sill',
+  lightSwitch: 'Light switch',
+  electricalPanel: 'Electrical panel',
+  custom: 'Other (enter height)',
+};
+
+export function referenceHeightFor(object: WaterlineReferenceObject): number | undefined {
+  return object === 'custom' ? undefined : WATER_LINE_HEIGHT_REFERENCES[object].heightInches;
+}
+
+// 8 ft stud walls; HUD code minimum for manufactured homes is 7 ft
+export const DEFAULT_CEILING_INCHES: Record<ReturnType<typeof getRuleSet>, number> = {
+  CONVENTIONAL: 96,
+  MANUFACTURED: 84,
+};
+
+// Depth of a manufactured home's floor system (decking, joists, bottom board) below the living floor
+export const FLOOR_SYSTEM_DEPTH_INCHES = 12;
+
+// Reference mark must sit at least this far (fraction of photo height) above the floor to give a usable scale
+const MIN_REFERENCE_SPAN = 0.02;
+
+/**
+ * Water line height above the floor, scaled by the reference object.
+ * Assumes the reference and the water line are on the same wall plane.
+ */
+export function waterlineHeightInches(marks: WaterlineMarks, referenceHeightInches: number): number {
+  if (!(referenceHeightInches > 0)) {
+    throw new Error('Reference height must be greater than zero');
+  }
+  const span = marks.floorY - marks.referenceY;
+  if (span < MIN_REFERENCE_SPAN) {
+    throw new Error('Reference mark must be above the floor line');
+  }
+  return ((marks.floorY - marks.waterlineY) / span) * referenceHeightInches;
+}
+
+/**
+ * FEMA water level for a height above the living floor. Conventional homes
+ * use the outlet height; water below the floor is taken as basement/crawlspace only.
+ */
+export function waterLevelForHeight(heightInches: number, homeType: HomeType, ceilingHeightInches: number): WaterLevel {
+  if (heightInches >= ceilingHeightInches) return 'at_or_above_ceiling';
+
+  if (getRuleSet(homeType) === 'MANUFACTURED') {
+    if (heightInches > 0) return 'in_living_space_below_ceiling';
+    if (heightInches > -FLOOR_SYSTEM_DEPTH_INCHES) return 'in_floor_system_only';
+    return 'below_floor_system';
+  }
+
+  if (heightInches < 0) return 'unfinished_basement_only';
+  if (heightInches >= WATER_LINE_HEIGHT_REFERENCES.electricalOutlets.heightInches) return 'at_or_above_outlets';
+  return 'below_outlets';
+}
+
+export function measureWaterline(input: WaterlineInput, homeType: HomeType, now: number = Date.now()): WaterlineMeasurement {
+  const measuredBy = input.measuredBy.trim();
+  if (!measuredBy) {
+    throw new Error('Assessor name is required');
+  }
+  if (!(input.ceilingHeightInches > 0)) {
+    throw new Error('Ceiling height must be greater than zero');
+  }
+
+  const heightInches = Math.round(waterlineHeightInches(input, input.referenceHeightInches));
+  return {
+    ...input,
+    measuredBy,
+    heightInches,
+    waterLevel: waterLevelForHeight(heightInches, homeType, input.ceilingHeightInches),
+    measuredAt: now,
+  };
+}
+
+/**
+ * The report's analysis with the measured water line in place of the
+ * model's estimate and the rules re-run on it. Without a measurement the
+ * stored analysis is returned as is. The level is re-derived for the
+ * analysis' home type, which is what selects the rule set.
+ */
+export function analysisWithWaterline(report: DamageReport): DamageAnalysis | undefined {
+  const { analysis, waterline } = report;
+  if (!analysis || !waterline) return analysis;
+
+  const measured: DamageAnalysis = {
+    ...analysis,
+    floodEvidence: {
+      ...analysis.floodEvidence,
+      waterLineDetected: true,
+      waterLineReference: waterLevelForHeight(waterline.heightInches, analysis.homeType, waterline.ceilingHeightInches),
+      estimatedHeightInches: Math.max(0, waterline.heightInches),
+    },
+  };
+  measured.ruleEvaluation = evaluateSeverityRules(measured);
+  measured.validationViolations = validateAnalysis(measured);
+  return measured;
+}
+
+export function formatWaterLevel(level: WaterLevel): string {
+  return level.replace(/_/g, ' ');
+}
+
+/**
+ * One-line account for PDFs, e.g. "18 in above floor (at or above outlets),
+ * measured on photo 2 by J. Smith (reference: door handle, 36 in)".
+ */
+export function describeWaterline(measurement: WaterlineMeasurement): string {
+  const { heightInches } = measurement;
+  const height = heightInches < 0 ? `${-heightInches} in below floor` : `${heightInches} in above floor`;
+  const reference = measurement.referenceObject === 'custom'
+    ? 'other object'
+    : REFERENCE_OBJECT_LABELS[measurement.referenceObject].toLowerCase();
+  return `${height} (${formatWaterLevel(measurement.waterLevel)}), measured on photo ${measurement.photoIndex + 1} by ` +
+    `${measurement.measuredBy} (reference: ${reference}, ${measurement.referenceHeightInches} in)`;
+}
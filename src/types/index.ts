@@ -16,6 +16,30 @@ export enum IncidentType {
   NON_FLOOD = 'NON_FLOOD'
 }
 
+// Kind of disaster event, as named in the declaration
+export type IncidentEventType =
+  | 'HURRICANE'
+  | 'TROPICAL_STORM'
+  | 'FLOOD'
+  | 'SEVERE_STORM'
+  | 'TORNADO'
+  | 'WILDFIRE'
+  | 'EARTHQUAKE'
+  | 'WINTER_STORM'
+  | 'OTHER';
+
+// A disaster that reports are collected under, e.g. one hurricane landfall
+export interface Incident {
+  id: string;
+  name: string;
+  drNumber?: string; // FEMA major disaster declaration, e.g. "DR-4834-FL"
+  declaredAt?: number; // Declaration date
+  eventType: IncidentEventType;
+  counties: string[]; // Designated counties, e.g. "Pinellas, FL"
+  defaultIncidentType: IncidentType; // FEMA rule set most reports are expected to use
+  createdAt: number;
+}
+
 export enum DebrisType {
   VEGETATION = 'VEGETATION',
   STRUCTURAL = 'STRUCTURAL',
@@ -34,12 +58,36 @@ export enum HomeType {
   NONE = 'NONE'
 }
 
+// Position as fractions (0-1) of the photo's width and height, origin top-left
+export interface PhotoPoint {
+  x: number;
+  y: number;
+}
+
+// Axis-aligned box in the same units as PhotoPoint
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  polygon?: PhotoPoint[]; // Outline of irregular damage such as a debris field; the box is then its bounds
+}
+
 export interface Detection {
   object: string;
   type: DebrisType;
   severity: DamageSeverity;
   description: string;
   confidence: number; // 0-100
+  photoIndex?: number; // Index into DamageReport.photos the detection came from
+  box?: BoundingBox; // Where in that photo the damage is, as located by the model
+}
+
+// A reviewer's correction to a detection's box; null removes the model's box
+export interface DetectionBoxEdit {
+  detectionIndex: number; // Index into DamageAnalysis.detections
+  box: BoundingBox | null;
+  editedAt: number;
 }
 
 // Flood water line reference levels per FEMA July 2025 guidelines
@@ -55,6 +103,42 @@ export type ConventionalWaterLevel =
   | 'at_or_above_outlets'
   | 'at_or_above_ceiling';
 
+// Canonical reason code vocabulary (descriptions live in REASON_CODES)
+export type ReasonCode =
+  // Access/Visibility
+  | 'access_blocked'
+  | 'visibility_not_confirmed'
+  // Destroyed triggers
+  | 'waterline_at_or_above_ceiling'
+  | 'frame_compromised'
+  | 'structural_framing_compromised'
+  | 'structural_components_failed_count_gte_2'
+  // Major triggers
+  | 'waterline_at_or_above_outlets'
+  | 'waterline_in_living_space_below_ceiling'
+  | 'displaced_from_foundation'
+  | 'roof_substantially_damaged'
+  | 'structural_damage_extensive'
+  | 'flood_duration_long'
+  | 'water_contaminated'
+  | 'basement_mechanical_damage'
+  | 'nonstructural_damage_majority'
+  // Minor triggers
+  | 'waterline_below_outlets'
+  | 'waterline_in_floor_system_only'
+  | 'nonstructural_damage_some'
+  | 'nonstructural_roof_damage'
+  | 'drywall_or_insulation_damage'
+  | 'foundation_cracks_small_multiple'
+  | 'chimney_damage'
+  | 'mechanical_damage'
+  | 'well_septic_contamination'
+  // Affected triggers
+  | 'waterline_below_floor_system'
+  | 'waterline_unfinished_basement'
+  | 'cosmetic_only'
+  | 'accessory_structure_only';
+
 export interface FloodEvidence {
   waterLineDetected: boolean;
   waterLineReference?: ManufacturedWaterLevel | ConventionalWaterLevel;
@@ -64,6 +148,30 @@ export interface FloodEvidence {
   basementMechanicalDamage?: boolean;
 }
 
+// Objects of known height an assessor can use to scale a water line measurement
+export type WaterlineReferenceObject =
+  | 'electricalOutlets'
+  | 'doorHandle'
+  | 'windowSill'
+  | 'lightSwitch'
+  | 'electricalPanel'
+  | 'custom';
+
+// Water line measured by an assessor on a photo. Marks are fractions (0-1) of the photo height from the top.
+export interface WaterlineMeasurement {
+  photoIndex: number; // Index into DamageReport.photos
+  floorY: number; // Finished floor of the lowest living level
+  referenceY: number; // Top of the reference object
+  waterlineY: number;
+  referenceObject: WaterlineReferenceObject;
+  referenceHeightInches: number; // Height of the reference mark above the floor
+  ceilingHeightInches: number;
+  heightInches: number; // Negative when the water line is below the floor
+  waterLevel: ManufacturedWaterLevel | ConventionalWaterLevel; // For the home type at the time of measuring
+  measuredBy: string;
+  measuredAt: number;
+}
+
 export interface StructuralIndicators {
   roofDamage: 'none' | 'covering_only' | 'structural_ribbing' | 'collapsed';
   wallDamage: 'none' | 'nonstructural' | 'structural' | 'collapsed';
@@ -73,6 +181,34 @@ export interface StructuralIndicators {
   structuralComponentsFailedCount: number;
 }
 
+// Result of re-deriving severity from structured indicators (rule engine)
+export type RuleAgreement = 'agree' | 'disagree' | 'unverifiable';
+
+export interface RuleMatch {
+  trigger: string; // Reason code from REASON_CODES
+  severity: DamageSeverity;
+  description: string;
+}
+
+export interface RuleEvaluation {
+  computedSeverity: DamageSeverity;
+  firedRule?: RuleMatch; // Rule that decided computedSeverity
+  matches: RuleMatch[]; // Every rule whose trigger was observed
+  ruleSet: 'MANUFACTURED' | 'CONVENTIONAL';
+  modelSeverity: DamageSeverity;
+  agreement: RuleAgreement;
+  explanation: string;
+}
+
+// A VALIDATION_RULES condition the assigned severity failed
+export interface ValidationViolation {
+  severity: DamageSeverity; // Label that was checked
+  conditionId: string;
+  kind: 'required' | 'excluded';
+  description: string;
+  blocking: boolean; // Excluded condition present: grade must not be used as-is
+}
+
 export interface DamageAnalysis {
   overallSeverity: DamageSeverity;
   incidentType: IncidentType;
@@ -85,56 +221,278 @@ export interface DamageAnalysis {
   structuralIndicators?: StructuralIndicators;
   detections: Detection[];
   recommendations: string[];
-  reasonCodes: string[]; // Machine-readable reason codes for training
+  reasonCodes: ReasonCode[]; // Machine-readable reason codes for training
+  unrecognizedReasonCodes?: string[]; // Model codes quarantined as not in REASON_CODES
   confidence: number; // 0-100 overall confidence
   analysisTimestamp: number;
   accessBlocked?: boolean; // For INACCESSIBLE classification
+  ruleEvaluation?: RuleEvaluation; // Deterministic FEMA rule check
+  validationViolations?: ValidationViolation[]; // Failed VALIDATION_RULES checks
+  provider?: AnalysisProviderId; // Which vision provider produced this analysis
+  model?: string; // Provider-specific model identifier
+  schemaRepairs?: number; // Repair round-trips needed to get schema-valid JSON
+  tokenUsage?: TokenUsage; // Summed over all attempts, including repairs
+  cached?: boolean; // Served from the response cache instead of a new model call
+  promptVersion?: string; // Prompt template version (services/prompts); absent on analyses that predate versioning
+}
+
+// How the client asked to be reached
+export type ContactMethod = 'PHONE' | 'TEXT' | 'EMAIL' | 'IN_PERSON';
+
+export interface HouseholdMember {
+  name: string;
+  relationship?: string; // To the client, e.g. "Spouse", "Son"
+  age?: number;
+  accessNeeds?: string; // Access or functional needs, medical equipment, medications
 }
 
 export interface ClientInfo {
   name: string;
-  phone: string;
+  phone: string; // Formatted "(727) 555-0100"; empty when the client has no phone
   email?: string;
+  preferredContact?: ContactMethod;
+  language?: string; // Preferred language, e.g. "Spanish"
+  interpreterNeeded?: boolean;
+  householdMembers?: HouseholdMember[]; // Other people in the household, not the client
   caseworker?: string;
   caseworkerEmail?: string;
+  intakeBy?: string; // Who filled in the intake form
+  intakeAt?: number;
 }
 
+// How a report's coordinates were obtained
+export type LocationSource = 'exif' | 'manual' | 'demo';
+
 export interface Location {
   lat: number;
   lng: number;
   address: string;
   city?: string;
+  county?: string; // Without the "County" suffix, e.g. "Pinellas"
   state?: string;
   zip?: string;
+  source?: LocationSource; // Undefined on reports created before EXIF support
+  heading?: number; // Compass direction the camera faced, degrees from true north
+  geocoded?: GeocodeMatch; // Set when the address was filled by reverse geocoding
+}
+
+// Reverse geocoding backends
+export type GeocoderId = 'local' | 'http';
+
+export interface GeocodeMatch {
+  geocoder: GeocoderId;
+  precision: 'address' | 'zip'; // Nearest address point, or only the ZIP area
+  distanceMeters?: number; // From the photo position to the matched point
+  dataset?: string; // Local dataset name
+}
+
+// Metadata read from a photo's EXIF block
+export interface PhotoMetadata {
+  capturedAt?: number; // Camera clock, local time
+  gps?: { lat: number; lng: number; altitude?: number };
+  heading?: number;
+  cameraMake?: string;
+  cameraModel?: string;
+}
+
+// Local pre-analysis check of a photo, before any model call
+export type ImageQualityIssueId = 'blurry' | 'too_dark' | 'overexposed' | 'low_resolution' | 'duplicate';
+
+export interface ImageQualityIssue {
+  id: ImageQualityIssueId;
+  message: string;
+}
+
+export interface ImageQuality {
+  width: number; // Of the original photo, before compression
+  height: number;
+  sharpness: number; // Variance of the Laplacian; low means blurred
+  brightness: number; // Mean luma, 0-255
+  hash: string; // Perceptual (difference) hash, 64 bits as hex
+  issues: ImageQualityIssue[];
+  duplicateOf?: string; // File name or report the photo appears to repeat
+  checkedAt: number;
+}
+
+// Household facts PDA Individual Assistance counts need. Undefined means not asked yet.
+export type Ownership = 'OWNER' | 'RENTER';
+
+export interface OccupancyStatus {
+  ownership?: Ownership;
+  primaryResidence?: boolean;
+  homeownersInsurance?: boolean; // Homeowners policy, or renters policy for renters
+  floodInsurance?: boolean; // NFIP or private flood policy
+  recordedBy: string;
+  recordedAt: number;
 }
 
+export type AssistanceStatus = 'pending' | 'in_place' | 'relocated' | 'completed';
+
 export interface AssistanceRecord {
-  status: 'pending' | 'in_place' | 'relocated' | 'completed';
+  status: AssistanceStatus;
   shelterName?: string;
   financialAssistance?: string;
   notes: string;
 }
 
+// Case narrative drafted by a model; only exported once a caseworker approves it
+export interface CaseNarrative {
+  text: string;
+  facts: string[]; // Facts the draft was written from; the draft is stale once they change
+  model?: string;
+  draftedAt: number;
+  edited?: boolean; // Caseworker changed the model's wording
+  approvedBy?: string;
+  approvedAt?: number;
+}
+
+// One photo in a multi-photo property assessment
+export interface ReportPhoto {
+  id: string;
+  imageData: string; // base64
+  caption?: string; // e.g. "North side", "Waterline close-up", "Kitchen"
+  metadata?: PhotoMetadata;
+  quality?: ImageQuality;
+}
+
 export interface DamageReport {
   id: string;
   createdAt: number;
   updatedAt: number;
-  imageData: string; // base64 or blob URL
+  imageData: string; // base64 or blob URL (cover photo)
   thumbnailData?: string; // smaller preview
+  photos?: ReportPhoto[]; // Ordered photo set; photos[0] is the cover photo
+  photoMetadata?: PhotoMetadata; // EXIF of the cover photo
+  imageQuality?: ImageQuality; // Pre-analysis check of the cover photo
   location: Location;
+  incidentId?: string; // Incident the report was taken under; unset only on records not yet migrated
   clientInfo?: ClientInfo;
   assistance?: AssistanceRecord;
-  analysis?: DamageAnalysis;
+  occupancy?: OccupancyStatus; // Owner/renter, primary residence and insurance, as told to the caseworker
+  analysis?: DamageAnalysis; // As returned by the model; never edited by reviewers
+  review?: ReviewDecision; // Supervisor decision on the analysis
+  reanalysis?: Reanalysis; // Most recent forced re-analysis; older ones are in the audit trail
+  mergedReports?: MergedReport[]; // Duplicate reports of the same property folded into this one
+  notDuplicateOf?: string[]; // Report ids a person confirmed are a different property
+  waterline?: WaterlineMeasurement; // Measured on a photo; replaces the model's water line estimate in the rules
+  boxEdits?: DetectionBoxEdit[]; // Reviewer corrections to detection boxes, one per detection
+  narrative?: CaseNarrative; // AI-drafted narrative; the PDF uses the fact template until one is approved
   status: 'pending' | 'analyzing' | 'completed' | 'error';
   errorMessage?: string;
   tags?: string[];
   notes?: string;
 }
 
+// Audit trail. Entries are append-only; a report's history is its entries in version order.
+export type ReportChangeAction = 'created' | 'updated' | 'restored' | 'imported' | 'deleted' | 'merged';
+
+export interface FieldChange {
+  path: string; // Dotted path into DamageReport, e.g. "review" or "location.address"
+  before?: unknown; // Undefined when the field was added
+  after?: unknown; // Undefined when the field was removed
+}
+
+export interface ReportChange {
+  id: string;
+  reportId: string;
+  version: number; // 1-based, per report
+  action: ReportChangeAction;
+  author: string;
+  reason?: string;
+  at: number;
+  changes: FieldChange[];
+  snapshot?: DamageReport; // Full record, kept only when it is deleted
+}
+
+// A duplicate report merged into another; its photos move to the surviving report
+export interface MergedReport {
+  reportId: string;
+  createdAt: number;
+  mergedAt: number;
+  location: Location;
+  analysis?: DamageAnalysis;
+  review?: ReviewDecision;
+  waterline?: WaterlineMeasurement; // photoIndex points into the surviving report's photos
+  boxEdits?: DetectionBoxEdit[]; // Corrections to this entry's analysis detections
+}
+
+// What changed when a report was re-analyzed with the response cache bypassed
+export interface Reanalysis {
+  at: number;
+  previousModel?: string;
+  changes: FieldChange[]; // Paths are relative to DamageAnalysis
+}
+
+// Who is making a change and why, recorded in the audit trail
+export interface ChangeContext {
+  author?: string; // Defaults to the default caseworker in settings
+  reason?: string;
+}
+
+// Human review of an AI analysis. Overrides hold only the fields that changed.
+export interface ReviewDecision {
+  action: 'accepted' | 'overridden';
+  reviewer: string;
+  reviewedAt: number;
+  reason?: string; // Required for overrides
+  overallSeverity?: DamageSeverity;
+  homeType?: HomeType;
+  incidentType?: IncidentType;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Analysis queue, persisted so captures survive reloads and dead zones.
+// pending: in the tray, not submitted; queued: waiting to run (or to retry)
+export type QueueStatus = 'pending' | 'queued' | 'analyzing' | 'completed' | 'error';
+
+export interface QueuedPhoto {
+  id: string;
+  fileName: string;
+  imageData: string; // Compressed base64 data URL
+  caption?: string;
+  metadata?: PhotoMetadata;
+  quality?: ImageQuality; // Checked when the photo is added
+  location?: Location;
+  groupId?: string; // Photos graded together as one property share a group
+  position: number; // Queue order; the lowest in a group is the cover photo
+  status: QueueStatus;
+  attempts: number; // Failed attempts so far
+  nextAttemptAt?: number; // Backoff: don't retry before this time
+  error?: string; // Last failure
+  reportId?: string; // Set once completed
+  addedAt: number;
+  batchId?: string; // Photos submitted together by one "Start Analysis"
+  incidentId?: string; // Active incident when the photo was submitted
+  durationMs?: number; // Time taken by the successful attempt
+  tokenUsage?: TokenUsage; // Of the job this photo was part of
+  costUsd?: number; // Estimated, of the job this photo was part of
+}
+
+// Vision providers that can produce a DamageAnalysis
+export type AnalysisProviderId = 'claude' | 'mock';
+
+// record: reuse cached responses and cache new ones; replay: cached responses only, never call the model
+export type ResponseCacheMode = 'record' | 'replay' | 'off';
+
 export interface AppSettings {
   apiKey?: string;
+  analysisProvider?: AnalysisProviderId; // Defaults to 'claude'
+  claudeModel?: string;
   defaultCaseworker?: string;
   defaultCaseworkerEmail?: string;
+  demoMode?: boolean; // Assign random Pinellas County addresses to photos without GPS
+  geocoder?: GeocoderId; // Defaults to 'local'
+  geocoderUrl?: string; // Nominatim-compatible base URL for the 'http' geocoder
+  analysisConcurrency?: number; // Parallel analysis requests; defaults to 2
+  reviewConfidenceThreshold?: number; // Below this confidence a report goes to the review queue; defaults to 70
+  evaluationBaselineId?: string; // Evaluation run that prompt changes are gated against
+  responseCacheMode?: ResponseCacheMode; // Defaults to 'record'
+  promptVersion?: string; // Active prompt template; defaults to DEFAULT_PROMPT_VERSION
+  activeIncidentId?: string; // Incident new reports are filed under and views are scoped to
   autoAnalyze: boolean;
   theme: 'dark' | 'light';
 }